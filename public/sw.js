@@ -0,0 +1,171 @@
+/**
+ * Gaza Memorial Service Worker
+ *
+ * Keeps the memorial and the blog working with no connectivity, e.g. at vigils
+ * and events. Registered in production by `ServiceWorkerRegistration`.
+ *
+ * Precached on install:
+ * - App shell: the memorial, about and blog pages with the scripts and styles they reference
+ * - Every published blog post
+ * - Background music and the fallback CSV files
+ *
+ * Runtime Strategies:
+ * - `/_next/static/*` and precached assets: cache first (file names are content-hashed or fixed)
+ * - Memorial dataset: network first; the last good response (no essential source
+ *   failed validation) is kept and served when offline, answering conditional
+ *   requests with 304
+ * - Other same-origin GET requests: network first, falling back to the cache
+ * - Admin pages and the settings API are never cached
+ *
+ * Bump `CACHE_VERSION` to drop every cache written by an older worker.
+ *
+ * @author Palestine Memorial Project
+ * @version 1.0.0
+ * @since 2024
+ */
+
+const CACHE_VERSION = 'v1'
+const SHELL_CACHE = `memorial-shell-${CACHE_VERSION}`
+const RUNTIME_CACHE = `memorial-runtime-${CACHE_VERSION}`
+const DATASET_CACHE = `memorial-dataset-${CACHE_VERSION}`
+
+const DATASET_URL = '/api/memorial/dataset'
+const PRECACHE_PAGES = ['/', '/about', '/blog']
+const PRECACHE_ASSETS = [
+  '/favicon.ico',
+  '/Memorial_Instrumental_Loop.mp3',
+  '/casualties_daily.csv',
+  '/infrastructure-damaged.csv',
+  '/press_killed_in_gaza.csv',
+  '/west_bank_daily.csv'
+]
+const UNCACHED_PATHS = ['/admin', '/api/settings']
+const STATIC_ASSET = /^\/_next\/static\//
+const STATIC_ASSET_REFERENCE = /\/_next\/static\/[^"'\s)\\]+/g
+
+/**
+ * Caches a page and every static asset its HTML references
+ */
+async function precacheDocument(cache, url) {
+  const response = await fetch(url, { cache: 'reload' })
+  if (!response.ok) throw new Error(`Precache failed for ${url}: ${response.status}`)
+
+  const html = await response.clone().text()
+  await cache.put(url, response)
+
+  const assets = new Set(html.match(STATIC_ASSET_REFERENCE) || [])
+  await Promise.all(Array.from(assets, asset => cache.add(asset).catch(() => undefined)))
+}
+
+/**
+ * Caches every published blog post; posts that fail are cached when visited
+ */
+async function precacheBlogPosts(cache) {
+  try {
+    const response = await fetch('/api/blog?status=published')
+    const body = await response.json()
+    await Promise.all(
+      (body.data || []).map(post => precacheDocument(cache, `/blog/${post.slug}`).catch(() => undefined))
+    )
+  } catch (error) {
+    console.warn('⚠️ Blog posts not precached:', error)
+  }
+}
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    (async () => {
+      const cache = await caches.open(SHELL_CACHE)
+      await cache.addAll(PRECACHE_ASSETS)
+      await Promise.all(PRECACHE_PAGES.map(page => precacheDocument(cache, page)))
+      await precacheBlogPosts(cache)
+      await self.skipWaiting()
+    })()
+  )
+})
+
+self.addEventListener('activate', event => {
+  const current = [SHELL_CACHE, RUNTIME_CACHE, DATASET_CACHE]
+  event.waitUntil(
+    (async () => {
+      const names = await caches.keys()
+      await Promise.all(
+        names.filter(name => name.startsWith('memorial-') && !current.includes(name)).map(name => caches.delete(name))
+      )
+      await self.clients.claim()
+    })()
+  )
+})
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request)
+  if (cached) return cached
+
+  const response = await fetch(request)
+  if (response.ok) {
+    const cache = await caches.open(RUNTIME_CACHE)
+    await cache.put(request, response.clone())
+  }
+  return response
+}
+
+async function networkFirst(request) {
+  try {
+    const response = await fetch(request)
+    if (response.ok) {
+      const cache = await caches.open(RUNTIME_CACHE)
+      await cache.put(request, response.clone())
+    }
+    return response
+  } catch (error) {
+    const cached = await caches.match(request)
+    if (cached) return cached
+    // Unvisited pages fall back to the memorial itself
+    if (request.mode === 'navigate') {
+      const shell = await caches.match('/')
+      if (shell) return shell
+    }
+    throw error
+  }
+}
+
+async function datasetFirst(request) {
+  try {
+    const response = await fetch(request)
+    // Keep only the last good dataset; one whose essential sources failed validation never
+    // replaces it, while a failed optional source (e.g. infrastructure) still does
+    const validation = response.headers.get('X-Memorial-Validation')
+    if (response.status === 200 && (validation === 'ok' || validation === 'degraded')) {
+      const cache = await caches.open(DATASET_CACHE)
+      await cache.put(DATASET_URL, response.clone())
+    }
+    return response
+  } catch (error) {
+    const cached = await caches.match(DATASET_URL, { cacheName: DATASET_CACHE })
+    if (!cached) throw error
+
+    // The page already holds this snapshot when its validator matches
+    const etag = cached.headers.get('ETag')
+    if (etag && request.headers.get('If-None-Match') === etag) {
+      return new Response(null, { status: 304, headers: { ETag: etag } })
+    }
+    return cached
+  }
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event
+  if (request.method !== 'GET') return
+
+  const url = new URL(request.url)
+  if (url.origin !== self.location.origin) return
+  if (UNCACHED_PATHS.some(path => url.pathname.startsWith(path))) return
+
+  if (url.pathname === DATASET_URL) {
+    event.respondWith(datasetFirst(request))
+  } else if (STATIC_ASSET.test(url.pathname) || PRECACHE_ASSETS.includes(url.pathname)) {
+    event.respondWith(cacheFirst(request))
+  } else {
+    event.respondWith(networkFirst(request))
+  }
+})
@@ -0,0 +1,76 @@
+/**
+ * Check Fallback Data
+ *
+ * Validates the bundled CSV fallback file of every registered data source
+ * (see `src/lib/dataSources.ts`) against the same schema the server applies
+ * when it falls back to them:
+ *
+ *   npm run check-data
+ *
+ * Files are parsed exactly as `/api/memorial/dataset` reads them, so a schema
+ * that no longer matches the bundled data is caught before it marks valid
+ * offline data as failed. Sources whose file is not bundled are skipped; the
+ * command exits with a non-zero status unless every bundled file validates
+ * `ok`.
+ *
+ * @author Palestine Memorial Project
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import { createReadStream, existsSync } from 'fs'
+import path from 'path'
+import { FALLBACK_CSV_OPTIONS, parseCSVStream, unflattenRecord } from '../src/lib/csv'
+import { DataSource, getDataSources } from '../src/lib/dataSources'
+import { validateRecords } from '../src/lib/validation'
+
+/**
+ * Registered sources with a fallback file
+ */
+const FALLBACK_SOURCES = getDataSources().filter(
+  (source): source is DataSource & { fallbackFile: string } => !!source.fallbackFile
+)
+
+async function checkFile(source: DataSource & { fallbackFile: string }): Promise<boolean> {
+  const file = source.fallbackFile
+  const filePath = path.join(process.cwd(), 'public', file)
+  if (!existsSync(filePath)) {
+    console.log(`⏭️ ${file}: not bundled, skipped`)
+    return true
+  }
+
+  try {
+    const stream = createReadStream(filePath, { encoding: 'utf8' })
+    const records: Record<string, unknown>[] = []
+    for await (const record of parseCSVStream(stream, FALLBACK_CSV_OPTIONS[file])) {
+      records.push(unflattenRecord(record))
+    }
+
+    const { report } = validateRecords(file, records, source.schema)
+    if (report.status !== 'ok') {
+      console.error(`❌ ${file}: ${report.status}`, report.absentFields, report.errorCounts)
+      return false
+    }
+
+    console.log(`✅ ${file}: ${report.valid} records valid`)
+    return true
+  } catch (error) {
+    console.error(`❌ ${file}: could not be read,`, error)
+    return false
+  }
+}
+
+async function main() {
+  let failures = 0
+  for (const source of FALLBACK_SOURCES) {
+    if (!(await checkFile(source))) failures++
+  }
+
+  if (failures > 0) {
+    console.error(`${failures}/${FALLBACK_SOURCES.length} fallback files did not validate`)
+    process.exit(1)
+  }
+  console.log('🎉 All fallback files validate')
+}
+
+main()
@@ -0,0 +1,73 @@
+/**
+ * Refresh Fallback Data
+ *
+ * Regenerates the CSV fallback file in `public/` of every registered data
+ * source (see `src/lib/dataSources.ts`) from the live upstream APIs so the
+ * offline data can be reproduced at any time with one command:
+ *
+ *   npm run refresh-data
+ *
+ * Each dataset is validated against the same schema the server uses. A file
+ * is only overwritten when its source passes validation, and the command exits
+ * with a non-zero status when any source fails, leaving the previous file in
+ * place. Nested API objects are written as dotted-path columns so the server
+ * and client rebuild exactly what the API returned.
+ *
+ * Upstream base URLs come from `NEXT_PUBLIC_DATA_SOURCE_PRIMARY` and
+ * `NEXT_PUBLIC_DATA_SOURCE_BACKUP`, as for `/api/memorial/dataset`.
+ *
+ * @author Palestine Memorial Project
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import { writeFile } from 'fs/promises'
+import path from 'path'
+import { serializeCSV } from '../src/lib/csv'
+import { DataSource, getDataSources } from '../src/lib/dataSources'
+import { getUpstreamBaseUrls } from '../src/lib/upstream'
+import { validateRecords } from '../src/lib/validation'
+
+/**
+ * Registered sources with a fallback file
+ */
+const FALLBACK_SOURCES = getDataSources().filter(
+  (source): source is DataSource & { fallbackFile: string } => !!source.fallbackFile
+)
+
+async function refreshFile(source: DataSource & { fallbackFile: string }): Promise<boolean> {
+  const file = source.fallbackFile
+  try {
+    const response = await source.fetch(60000)
+    const { valid, report } = validateRecords<object>(file, await source.parse(response), source.schema)
+
+    if (report.status === 'failed') {
+      console.error(`❌ ${file}: kept previous file, upstream failed validation`, report.absentFields, report.errorCounts)
+      return false
+    }
+
+    await writeFile(path.join(process.cwd(), 'public', file), serializeCSV(valid), 'utf8')
+    console.log(`✅ ${file}: wrote ${valid.length} records (${report.quarantined} quarantined)`)
+    return true
+  } catch (error) {
+    console.error(`❌ ${file}: kept previous file,`, error)
+    return false
+  }
+}
+
+async function main() {
+  console.log(`🔄 Refreshing fallback CSV files from ${getUpstreamBaseUrls().join(', ')}`)
+
+  let failures = 0
+  for (const source of FALLBACK_SOURCES) {
+    if (!(await refreshFile(source))) failures++
+  }
+
+  if (failures > 0) {
+    console.error(`${failures}/${FALLBACK_SOURCES.length} fallback files could not be refreshed`)
+    process.exit(1)
+  }
+  console.log('🎉 All fallback files refreshed')
+}
+
+main()
@@ -3,27 +3,44 @@
  * 
  * Provides detailed information about the project, its mission, and methodology
  * with proper SEO optimization for better search engine visibility.
+ *
+ * The dataset list and its licenses come from the data source registry, so a
+ * newly registered source is credited here automatically. The memorial total
+ * is the one the memorial itself shows (see `getMemorialTotal`).
  */
 
 import { Metadata } from 'next'
 import Link from 'next/link'
 import { Home, FileText, Info } from 'lucide-react'
+import { fillMemorialTotal } from '@/lib/cms'
+import { getDataSources } from '@/lib/dataSources'
+import { getMemorialTotal } from '@/lib/memorialDataset'
 
-export const metadata: Metadata = {
-  title: 'About | Gaza Souls Memorial - Honoring Lives Lost in Palestine',
-  description: 'Learn about the Gaza Souls Memorial project, our mission to honor the 63,872 lives lost in Gaza through interactive data visualization and digital remembrance.',
-  keywords: 'Gaza memorial about, Palestine memorial project, Gaza casualties memorial, digital remembrance, interactive memorial, Gaza victims, Palestine conflict memorial',
-  openGraph: {
-    title: 'About Gaza Souls Memorial',
-    description: 'Honoring 63,872 lives lost in Gaza through interactive digital memorial',
-    type: 'website',
-  },
-  alternates: {
-    canonical: '/about'
+// Re-rendered as often as the memorial dataset is rebuilt (`DATASET_REVALIDATE_SECONDS`)
+export const revalidate = 3600
+
+export async function generateMetadata(): Promise<Metadata> {
+  const memorialTotal = await getMemorialTotal()
+
+  return {
+    title: 'About | Gaza Souls Memorial - Honoring Lives Lost in Palestine',
+    description: fillMemorialTotal('Learn about the Gaza Souls Memorial project, our mission to honor the {{memorialTotal}} lives lost in Gaza through interactive data visualization and digital remembrance.', memorialTotal),
+    keywords: 'Gaza memorial about, Palestine memorial project, Gaza casualties memorial, digital remembrance, interactive memorial, Gaza victims, Palestine conflict memorial',
+    openGraph: {
+      title: 'About Gaza Souls Memorial',
+      description: fillMemorialTotal('Honoring {{memorialTotal}} lives lost in Gaza through interactive digital memorial', memorialTotal),
+      type: 'website',
+    },
+    alternates: {
+      canonical: '/about'
+    }
   }
 }
 
-export default function AboutPage() {
+export default async function AboutPage() {
+  const dataSources = getDataSources()
+  const memorialTotal = await getMemorialTotal()
+
   return (
     <div className="min-h-screen bg-black text-white">
       {/* Header with Navigation */}
@@ -76,7 +93,7 @@ export default function AboutPage() {
             About Palestine Memorial
           </h1>
           <p className="text-xl text-gray-400 max-w-4xl mx-auto leading-relaxed">
-            A digital space dedicated to honoring the memory of 63,872 lives lost in Gaza, 
+            {fillMemorialTotal('A digital space dedicated to honoring the memory of {{memorialTotal}} lives lost in Gaza,', memorialTotal)}{' '}
             transforming data into a living memorial that preserves the humanity behind the statistics.
           </p>
         </section>
@@ -107,7 +124,7 @@ export default function AboutPage() {
               <div className="space-y-4">
                 <div className="flex justify-between items-center">
                   <span className="text-gray-400">Total Lives Remembered:</span>
-                  <span className="text-2xl font-bold text-white">63,872</span>
+                  <span className="text-2xl font-bold text-white">{memorialTotal ? memorialTotal.toLocaleString('en-US') : 'Unavailable'}</span>
                 </div>
                 <div className="flex justify-between items-center">
                   <span className="text-gray-400">Children (0-17):</span>
@@ -229,6 +246,33 @@ export default function AboutPage() {
                 </ul>
               </div>
             </div>
+
+            <div className="bg-gray-900/50 border border-gray-800 rounded-lg p-6">
+              <h3 className="text-xl font-bold text-white mb-4">Datasets & Licenses</h3>
+              <ul className="space-y-4">
+                {dataSources.map(source => (
+                  <li key={source.id}>
+                    <p className="text-white font-medium">
+                      {source.name} -{' '}
+                      <a href={source.attribution.url} className="text-blue-400 hover:text-blue-300">
+                        {source.attribution.publisher}
+                      </a>
+                    </p>
+                    <p className="text-sm text-gray-400">{source.attribution.description}</p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      License:{' '}
+                      {source.attribution.licenseUrl ? (
+                        <a href={source.attribution.licenseUrl} className="text-blue-400 hover:text-blue-300">
+                          {source.attribution.license}
+                        </a>
+                      ) : (
+                        source.attribution.license
+                      )}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            </div>
           </div>
         </section>
 
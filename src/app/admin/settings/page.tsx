@@ -7,27 +7,9 @@
 
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { Save, Globe, Users, BarChart3, Shield } from 'lucide-react'
-
-interface SiteSettings {
-  siteName: string
-  siteDescription: string
-  siteUrl: string
-  socialMedia: {
-    twitter?: string
-    facebook?: string
-    linkedin?: string
-  }
-  analytics: {
-    googleAnalyticsId?: string
-  }
-  memorial: {
-    totalCasualties: number
-    lastUpdated: string
-    dataSources: string[]
-  }
-}
+import type { SiteSettings } from '@/lib/cms'
 
 export default function AdminSettingsPage() {
   const [settings, setSettings] = useState<SiteSettings>({
@@ -43,7 +25,7 @@ export default function AdminSettingsPage() {
       googleAnalyticsId: 'GA-XXXXXXXXX'
     },
     memorial: {
-      totalCasualties: 63872,
+      totalCasualtiesOverride: null,
       lastUpdated: '2024-01-15',
       dataSources: [
         'Tech for Palestine',
@@ -57,18 +39,32 @@ export default function AdminSettingsPage() {
   const [isSaving, setIsSaving] = useState(false)
   const [activeTab, setActiveTab] = useState<'general' | 'social' | 'memorial' | 'analytics'>('general')
 
+  // Load the current settings from the API
+  useEffect(() => {
+    fetch('/api/settings')
+      .then(response => response.json())
+      .then(result => {
+        if (result.success) setSettings(result.data)
+      })
+      .catch(error => console.error('Error loading settings:', error))
+  }, [])
+
   const handleSave = async () => {
     setIsSaving(true)
     
     try {
-      // In a real app, you'd send this to your API
-      console.log('Saving settings:', settings)
-      
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000))
-      
+      const response = await fetch('/api/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(settings)
+      })
+      const result = await response.json()
+      if (!result.success) throw new Error(result.error)
+
+      setSettings(result.data)
       alert('Settings saved successfully!')
     } catch (error) {
+      console.error('Error saving settings:', error)
       alert('Error saving settings. Please try again.')
     } finally {
       setIsSaving(false)
@@ -264,14 +260,19 @@ export default function AdminSettingsPage() {
                 <div className="space-y-4">
                   <div>
                     <label className="block text-sm font-medium text-foreground mb-2">
-                      Total Casualties
+                      Total Casualties Override
                     </label>
                     <input
                       type="number"
-                      value={settings.memorial.totalCasualties}
-                      onChange={(e) => updateSetting('memorial.totalCasualties', parseInt(e.target.value))}
+                      min={1}
+                      value={settings.memorial.totalCasualtiesOverride ?? ''}
+                      onChange={(e) => updateSetting('memorial.totalCasualtiesOverride', e.target.value ? parseInt(e.target.value) : null)}
+                      placeholder="Use latest data"
                       className="w-full px-4 py-2 bg-background border border-border rounded-lg text-foreground focus:border-primary focus:outline-none focus:ring-2 focus:ring-primary/20"
                     />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Leave empty to use the latest Gaza total plus the West Bank total from the data sources
+                    </p>
                   </div>
 
                   <div>
@@ -0,0 +1,50 @@
+/**
+ * Memorial Dataset API Route - Server-side aggregation of all upstream sources
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { DATASET_REVALIDATE_SECONDS, getMemorialDatasetEntry } from '@/lib/memorialDataset'
+
+// The dataset is cached in memory by the service; never prerender it at build time
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { data: dataset, etag, lastModified } = await getMemorialDatasetEntry()
+
+    const headers = {
+      'Cache-Control': `public, s-maxage=${DATASET_REVALIDATE_SECONDS}, stale-while-revalidate=${DATASET_REVALIDATE_SECONDS * 24}`,
+      ETag: etag,
+      'Last-Modified': new Date(lastModified).toUTCString(),
+      // Lets monitoring spot upstream schema changes without parsing the payload;
+      // only a failed essential source marks the dataset unfit for the offline snapshot
+      'X-Memorial-Validation': dataset.validation.hasEssentialFailures
+        ? 'failed'
+        : dataset.validation.hasFailures ? 'degraded' : 'ok'
+    }
+
+    // Browsers with a cached copy revalidate; answer without the payload when it is unchanged
+    const ifNoneMatch = request.headers.get('if-none-match')
+    const ifModifiedSince = request.headers.get('if-modified-since')
+    const notModified = ifNoneMatch
+      ? ifNoneMatch.split(',').some(tag => tag.trim() === etag)
+      : !!ifModifiedSince && Math.floor(lastModified / 1000) <= Math.floor(Date.parse(ifModifiedSince) / 1000)
+    if (notModified) {
+      return new NextResponse(null, { status: 304, headers })
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: dataset
+      },
+      { headers }
+    )
+  } catch (error) {
+    console.error('Error building memorial dataset:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to load memorial dataset' },
+      { status: 500 }
+    )
+  }
+}
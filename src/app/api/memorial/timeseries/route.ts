@@ -0,0 +1,67 @@
+/**
+ * Memorial Time Series API Route - Daily series with deltas and rolling averages
+ *
+ * GET /api/memorial/timeseries?series=gaza.killed,west_bank.killed&from=2024-01-01&to=2024-06-30
+ * - `series`: comma-separated series ids (all series when omitted)
+ * - `from`, `to`: inclusive ISO date range (the whole series when omitted)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { DATASET_REVALIDATE_SECONDS, getMemorialDataset } from '@/lib/memorialDataset'
+import { TIME_SERIES_IDS, getTimeSeries, isTimeSeriesId } from '@/lib/timeseries'
+
+// Built from the in-memory dataset; never prerender it at build time
+export const dynamic = 'force-dynamic'
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const requested = (searchParams.get('series') || '').split(',').map(id => id.trim()).filter(Boolean)
+    const from = searchParams.get('from') || undefined
+    const to = searchParams.get('to') || undefined
+
+    const unknown = requested.filter(id => !isTimeSeriesId(id))
+    if (unknown.length > 0) {
+      return NextResponse.json(
+        { success: false, error: `Unknown series: ${unknown.join(', ')}. Available: ${TIME_SERIES_IDS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+    if ((from && !ISO_DATE.test(from)) || (to && !ISO_DATE.test(to))) {
+      return NextResponse.json(
+        { success: false, error: 'from and to must be dates in YYYY-MM-DD format' },
+        { status: 400 }
+      )
+    }
+    if (from && to && from > to) {
+      return NextResponse.json(
+        { success: false, error: 'from must not be after to' },
+        { status: 400 }
+      )
+    }
+
+    const dataset = await getMemorialDataset()
+    const ids = requested.filter(isTimeSeriesId)
+    const series = getTimeSeries(dataset, ids.length > 0 ? ids : TIME_SERIES_IDS, { from, to })
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: series
+      },
+      {
+        headers: {
+          'Cache-Control': `public, s-maxage=${DATASET_REVALIDATE_SECONDS}, stale-while-revalidate=${DATASET_REVALIDATE_SECONDS * 24}`
+        }
+      }
+    )
+  } catch (error) {
+    console.error('Error building memorial time series:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to load memorial time series' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Site Settings API Routes - Read and update global site configuration
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getSiteSettings, updateSiteSettings } from '@/lib/cms'
+import { invalidateMemorialDataset } from '@/lib/memorialDataset'
+
+export async function GET() {
+  try {
+    return NextResponse.json({
+      success: true,
+      data: getSiteSettings()
+    })
+  } catch (error) {
+    console.error('Error fetching site settings:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch site settings' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const current = getSiteSettings()
+
+    // Validate the memorial total override: a positive whole number, or null for the data-driven total
+    const override = body.memorial?.totalCasualtiesOverride
+    if (override !== undefined && override !== null && !(Number.isInteger(override) && override > 0)) {
+      return NextResponse.json(
+        { success: false, error: 'memorial.totalCasualtiesOverride must be a positive integer or null' },
+        { status: 400 }
+      )
+    }
+
+    const updatedSettings = updateSiteSettings({
+      siteName: body.siteName ?? current.siteName,
+      siteDescription: body.siteDescription ?? current.siteDescription,
+      siteUrl: body.siteUrl ?? current.siteUrl,
+      socialMedia: { ...current.socialMedia, ...body.socialMedia },
+      analytics: { ...current.analytics, ...body.analytics },
+      memorial: { ...current.memorial, ...body.memorial }
+    })
+
+    // The memorial total shapes the dataset, so rebuild it on the next request
+    if (override !== undefined && override !== current.memorial.totalCasualtiesOverride) {
+      invalidateMemorialDataset()
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: updatedSettings
+    })
+  } catch (error) {
+    console.error('Error updating site settings:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update site settings' },
+      { status: 500 }
+    )
+  }
+}
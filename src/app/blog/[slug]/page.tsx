@@ -1,13 +1,18 @@
 /**
  * Dynamic Blog Post Page - Renders individual blog posts
  * 
- * Fetches blog post data from CMS and renders with proper SEO
+ * Fetches blog post data from CMS and renders with proper SEO. The memorial
+ * total placeholder in post content is filled from the memorial dataset.
  */
 
 import { Metadata } from 'next'
 import Link from 'next/link'
 import { notFound } from 'next/navigation'
-import { getBlogPostBySlug, getBlogPosts } from '@/lib/cms'
+import { fillMemorialTotal, getBlogPostBySlug, getBlogPosts } from '@/lib/cms'
+import { getMemorialTotal } from '@/lib/memorialDataset'
+
+// Re-rendered as often as the memorial dataset is rebuilt (`DATASET_REVALIDATE_SECONDS`)
+export const revalidate = 3600
 
 interface BlogPostPageProps {
   params: Promise<{
@@ -103,8 +108,9 @@ export default async function BlogPostPage({ params }: BlogPostPageProps) {
     notFound()
   }
 
+  const memorialTotal = await getMemorialTotal()
   const readTime = calculateReadTime(post.content)
-  const htmlContent = markdownToHtml(post.content)
+  const htmlContent = markdownToHtml(fillMemorialTotal(post.content, memorialTotal))
 
   return (
     <article className="max-w-4xl mx-auto">
@@ -157,7 +163,7 @@ export default async function BlogPostPage({ params }: BlogPostPageProps) {
         {post.excerpt && (
           <div className="bg-card border border-border rounded-lg p-6 mb-8">
             <p className="text-lg text-muted-foreground mb-0">
-              {post.excerpt}
+              {fillMemorialTotal(post.excerpt, memorialTotal)}
             </p>
           </div>
         )}
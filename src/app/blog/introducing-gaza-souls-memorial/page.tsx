@@ -6,6 +6,11 @@
 
 import { Metadata } from 'next'
 import Link from 'next/link'
+import { fillMemorialTotal } from '@/lib/cms'
+import { getMemorialTotal } from '@/lib/memorialDataset'
+
+// Re-rendered as often as the memorial dataset is rebuilt (`DATASET_REVALIDATE_SECONDS`)
+export const revalidate = 3600
 
 export const metadata: Metadata = {
   title: 'Introducing the Gaza Souls Memorial: A Digital Space for Remembrance',
@@ -28,7 +33,9 @@ export const metadata: Metadata = {
   }
 }
 
-export default function BlogPost() {
+export default async function BlogPost() {
+  const memorialTotal = await getMemorialTotal()
+
   return (
     <article className="max-w-4xl mx-auto">
       {/* Breadcrumb */}
@@ -71,7 +78,7 @@ export default function BlogPost() {
       <div className="prose prose-invert prose-lg max-w-none">
         <div className="bg-card border border-border rounded-lg p-6 mb-8">
           <p className="text-lg text-muted-foreground mb-0">
-            <strong className="text-foreground">In memory of the 63,872 souls lost in Gaza</strong> — The Gaza Souls Memorial represents 
+            <strong className="text-foreground">{fillMemorialTotal('In memory of the {{memorialTotal}} souls lost in Gaza', memorialTotal)}</strong> — The Gaza Souls Memorial represents 
             each life as a point of light in an interactive 3D visualization, creating a space for 
             remembrance, reflection, and understanding of the human cost of conflict.
           </p>
@@ -82,8 +89,8 @@ export default function BlogPost() {
         <p className="text-muted-foreground mb-6">
           The Gaza Souls Memorial emerged from a simple yet profound belief: every life lost deserves to be 
           remembered, honored, and never forgotten. In an age where numbers can become abstract, we sought 
-          to create something that would restore the humanity behind the statistics — a digital space where 
-          each of the 63,872 documented casualties becomes a individual point of light, a soul that once 
+          to create something that would restore the humanity behind the statistics — a digital space where{' '}
+          {fillMemorialTotal('each of the {{memorialTotal}} documented casualties becomes a individual point of light,', memorialTotal)} a soul that once
           lived, loved, and dreamed.
         </p>
 
@@ -114,7 +121,7 @@ export default function BlogPost() {
         <p className="text-gray-300 mb-6">
           In conflicts, it&apos;s easy for casualties to become mere numbers in news reports. The Gaza Souls 
           Memorial fights against this dehumanization by presenting each loss as an individual story. 
-          When you see 63,872 particles floating in space, each one pulsing with its own light, the 
+          {fillMemorialTotal('When you see {{memorialTotal}} particles floating in space,', memorialTotal)} each one pulsing with its own light, the
           scale of loss becomes viscerally apparent in a way that numbers alone cannot convey.
         </p>
 
@@ -150,7 +157,7 @@ export default function BlogPost() {
         <p className="text-gray-300 mb-6">
           Our commitment extends beyond this single project. We believe in the power of technology to 
           foster empathy, promote understanding, and preserve memory. The Gaza Souls Memorial is our 
-          contribution to ensuring that these 63,872 souls are never forgotten, and that their stories 
+          contribution to ensuring that {fillMemorialTotal('these {{memorialTotal}} souls', memorialTotal)} are never forgotten, and that their stories
           continue to inspire action toward peace and justice.
         </p>
 
@@ -6,23 +6,34 @@
 
 import { Metadata } from 'next'
 import Link from 'next/link'
-
-export const metadata: Metadata = {
-  title: 'The Technology Behind the Gaza Souls Memorial: Three.js and WebGL Visualization',
-  description: 'Discover how we built an interactive 3D memorial using Three.js, WebGL, and modern web technologies to honor 63,872 lives lost in Gaza through immersive data visualization.',
-  keywords: 'Three.js memorial, WebGL visualization, Gaza memorial technology, interactive 3D memorial, data visualization, web development, memorial technology, Palestine tech',
-  openGraph: {
-    title: 'Technology Behind the Gaza Souls Memorial',
-    description: 'How we built an interactive 3D memorial using cutting-edge web technologies',
-    type: 'article',
-    publishedTime: '2024-01-10T00:00:00.000Z',
-  },
-  alternates: {
-    canonical: '/blog/technology-behind-memorial'
+import { fillMemorialTotal } from '@/lib/cms'
+import { getMemorialTotal } from '@/lib/memorialDataset'
+
+// Re-rendered as often as the memorial dataset is rebuilt (`DATASET_REVALIDATE_SECONDS`)
+export const revalidate = 3600
+
+export async function generateMetadata(): Promise<Metadata> {
+  const memorialTotal = await getMemorialTotal()
+
+  return {
+    title: 'The Technology Behind the Gaza Souls Memorial: Three.js and WebGL Visualization',
+    description: fillMemorialTotal('Discover how we built an interactive 3D memorial using Three.js, WebGL, and modern web technologies to honor the {{memorialTotal}} lives lost in Gaza through immersive data visualization.', memorialTotal),
+    keywords: 'Three.js memorial, WebGL visualization, Gaza memorial technology, interactive 3D memorial, data visualization, web development, memorial technology, Palestine tech',
+    openGraph: {
+      title: 'Technology Behind the Gaza Souls Memorial',
+      description: 'How we built an interactive 3D memorial using cutting-edge web technologies',
+      type: 'article',
+      publishedTime: '2024-01-10T00:00:00.000Z',
+    },
+    alternates: {
+      canonical: '/blog/technology-behind-memorial'
+    }
   }
 }
 
-export default function TechnologyBlogPost() {
+export default async function TechnologyBlogPost() {
+  const memorialTotal = await getMemorialTotal()
+
   return (
     <article className="max-w-4xl mx-auto">
       {/* Breadcrumb */}
@@ -55,7 +66,7 @@ export default function TechnologyBlogPost() {
       <div className="prose prose-invert prose-lg max-w-none">
         <div className="bg-gray-900/30 border border-gray-800 rounded-lg p-6 mb-8">
           <p className="text-lg text-gray-300 mb-0">
-                      Building a memorial that honors 63,872 individual lives required innovative technology 
+            {fillMemorialTotal('Building a memorial that honors {{memorialTotal}} individual lives required innovative technology', memorialTotal)}{' '}
           that could handle massive datasets while maintaining the dignity and respect each 
           soul deserves. Here&apos;s how we built it.
           </p>
@@ -121,7 +132,7 @@ export default function TechnologyBlogPost() {
         <div className="bg-gray-800/50 border border-gray-700 rounded-lg p-4 mb-6 overflow-x-auto">
           <pre className="text-sm text-gray-300">
 {`// Particle system initialization
-const particleCount = data.length // 63,872+ particles
+const particleCount = data.length // one particle per soul in the memorial total
 const positions = new Float32Array(particleCount * 3)
 const colors = new Float32Array(particleCount * 3)
 const sizes = new Float32Array(particleCount)
@@ -0,0 +1,220 @@
+/**
+ * Diagnostics Panel Component
+ *
+ * Shows how the memorial dataset on screen was loaded, from the `LoadReport`
+ * that travels with `DataInfo`: whether the data is live, partly from the
+ * bundled CSV files or placeholder "Soul N" data, and the status, latency,
+ * record count and errors of every upstream source. Support volunteers can
+ * retry the load, check the CSV fallbacks and copy the report for a bug report.
+ *
+ * Rendered in the "Status" tab of `UnifiedSidebar`.
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { AlertTriangle, CheckCircle2, ClipboardCopy, FileSpreadsheet, RefreshCw, XCircle } from 'lucide-react'
+import { FALLBACK_CSV_OPTIONS, parseCSV } from '@/lib/csv'
+import type { DatasetLoad } from '@/lib/dataService'
+import type { LoadOrigin, SourceLoadStatus } from '@/lib/loadReport'
+
+interface DiagnosticsPanelProps {
+  /** The dataset on screen and whether it came from the browser cache */
+  dataLoad: DatasetLoad | null
+  /** Reloads the dataset */
+  onRetry: () => void
+  /** True while a load is in progress */
+  loading?: boolean
+}
+
+/**
+ * Result of checking one bundled CSV file
+ */
+interface CSVCheck {
+  file: string
+  ok: boolean
+  detail: string
+}
+
+const ORIGIN_SUMMARY: Record<LoadOrigin, { label: string; description: string; className: string }> = {
+  api: {
+    label: 'Live data',
+    description: 'Every available source answered from the live APIs.',
+    className: 'border-green-600/50 bg-green-900/20 text-green-200'
+  },
+  csv: {
+    label: 'Partly from bundled CSV files',
+    description: 'Some APIs were unavailable, so their bundled CSV copies were used. These may be out of date.',
+    className: 'border-amber-500/50 bg-amber-900/20 text-amber-200'
+  },
+  fallback: {
+    label: 'Placeholder data',
+    description: 'No real casualty data could be loaded, so placeholder "Soul N" records are shown.',
+    className: 'border-red-600/50 bg-red-900/20 text-red-200'
+  }
+}
+
+const STATUS_ICON: Record<SourceLoadStatus['status'], { icon: typeof CheckCircle2; className: string }> = {
+  ok: { icon: CheckCircle2, className: 'text-green-400' },
+  degraded: { icon: AlertTriangle, className: 'text-amber-400' },
+  failed: { icon: XCircle, className: 'text-red-400' }
+}
+
+const ORIGIN_LABEL: Record<LoadOrigin, string> = {
+  api: 'API',
+  csv: 'CSV',
+  fallback: 'Fallback'
+}
+
+export default function DiagnosticsPanel({ dataLoad, onRetry, loading = false }: DiagnosticsPanelProps) {
+  const [csvChecks, setCSVChecks] = useState<CSVCheck[] | null>(null)
+  const [checkingCSV, setCheckingCSV] = useState(false)
+  const [copied, setCopied] = useState(false)
+
+  if (!dataLoad) {
+    return <p className="text-sm text-gray-400">The memorial dataset has not loaded yet.</p>
+  }
+
+  const { dataInfo, cachedAt } = dataLoad
+  const report = dataInfo.loadReport
+  const summary = ORIGIN_SUMMARY[report.origin]
+
+  const checkCSVFiles = async () => {
+    setCheckingCSV(true)
+    const checks = await Promise.all(
+      Object.keys(FALLBACK_CSV_OPTIONS).map(async (file): Promise<CSVCheck> => {
+        try {
+          const response = await fetch(`/${file}`, { cache: 'no-store' })
+          if (!response.ok) return { file, ok: false, detail: `${response.status} ${response.statusText}` }
+          const rows = parseCSV(await response.text(), FALLBACK_CSV_OPTIONS[file])
+          return { file, ok: rows.length > 0, detail: `${rows.length.toLocaleString()} rows` }
+        } catch (error) {
+          return { file, ok: false, detail: error instanceof Error ? error.message : String(error) }
+        }
+      })
+    )
+    setCSVChecks(checks)
+    setCheckingCSV(false)
+  }
+
+  const copyReport = async () => {
+    const details = {
+      loadReport: report,
+      cachedAt: cachedAt ? new Date(cachedAt).toISOString() : null,
+      lastUpdated: dataInfo.lastUpdated,
+      memorialTotal: dataInfo.memorialTotal,
+      memorialTotalSource: dataInfo.memorialTotalSource,
+      quarantined: dataInfo.validation.totalQuarantined,
+      userAgent: navigator.userAgent
+    }
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(details, null, 2))
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (error) {
+      console.error('Failed to copy diagnostics:', error)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Overall origin */}
+      <div className={`p-4 rounded-lg border text-sm ${summary.className}`}>
+        <p className="font-medium">{summary.label}</p>
+        <p className="mt-1 text-xs opacity-80">{summary.description}</p>
+        {report.errors.map(error => (
+          <p key={error} className="mt-2 text-xs font-mono break-words">{error}</p>
+        ))}
+      </div>
+
+      {/* Dataset details */}
+      <dl className="grid grid-cols-2 gap-x-3 gap-y-2 text-xs">
+        <dt className="text-gray-500">Served from</dt>
+        <dd className="text-gray-200">
+          {cachedAt ? `Browser cache (${new Date(cachedAt).toLocaleString()})` : 'Network'}
+        </dd>
+        <dt className="text-gray-500">Assembled</dt>
+        <dd className="text-gray-200">{new Date(report.generatedAt).toLocaleString()}</dd>
+        <dt className="text-gray-500">Last updated</dt>
+        <dd className="text-gray-200">{dataInfo.lastUpdated}</dd>
+        <dt className="text-gray-500">Memorial total</dt>
+        <dd className="text-gray-200">
+          {dataInfo.memorialTotal.toLocaleString()} ({dataInfo.memorialTotalSource})
+        </dd>
+        <dt className="text-gray-500">Quarantined</dt>
+        <dd className="text-gray-200">
+          {dataInfo.validation.totalQuarantined.toLocaleString()} of {dataInfo.validation.totalRecords.toLocaleString()} records
+        </dd>
+      </dl>
+
+      {/* Per-source status */}
+      <div className="space-y-2">
+        <h3 className="text-white font-medium">
+          Sources ({report.successful}/{report.sources.length} usable)
+        </h3>
+        {report.sources.length === 0 && (
+          <p className="text-xs text-gray-500">No upstream sources were reached.</p>
+        )}
+        {report.sources.map(source => {
+          const { icon: StatusIcon, className } = STATUS_ICON[source.status]
+          return (
+            <div key={source.source} className="p-3 bg-gray-800 rounded-lg text-xs space-y-1">
+              <div className="flex items-center gap-2">
+                <StatusIcon size={14} className={className} />
+                <span className="text-gray-200 font-medium flex-1 truncate">{source.source}</span>
+                {source.origin && (
+                  <span className="px-1.5 py-0.5 rounded bg-gray-700 text-gray-300">{ORIGIN_LABEL[source.origin]}</span>
+                )}
+              </div>
+              <p className="text-gray-400">
+                {source.records.toLocaleString()} records · {source.latencyMs.toLocaleString()} ms
+              </p>
+              {source.errors.map(error => (
+                <p key={error} className="text-red-300 font-mono break-words">{error}</p>
+              ))}
+            </div>
+          )
+        })}
+      </div>
+
+      {/* Bundled CSV check */}
+      {csvChecks && (
+        <div className="space-y-1 text-xs">
+          <h3 className="text-white font-medium text-sm">Bundled CSV files</h3>
+          {csvChecks.map(check => (
+            <p key={check.file} className={check.ok ? 'text-gray-300' : 'text-red-300'}>
+              {check.ok ? '✓' : '✗'} {check.file}: {check.detail}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {/* Actions */}
+      <div className="space-y-2">
+        <button
+          onClick={onRetry}
+          disabled={loading}
+          className="w-full flex items-center gap-3 p-3 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 text-white rounded-lg transition-colors text-sm"
+        >
+          <RefreshCw size={16} className={loading ? 'animate-spin' : ''} />
+          {loading ? 'Loading...' : 'Retry data load'}
+        </button>
+        <button
+          onClick={checkCSVFiles}
+          disabled={checkingCSV}
+          className="w-full flex items-center gap-3 p-3 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 text-white rounded-lg transition-colors text-sm"
+        >
+          <FileSpreadsheet size={16} />
+          {checkingCSV ? 'Checking CSV files...' : 'Check bundled CSV files'}
+        </button>
+        <button
+          onClick={copyReport}
+          className="w-full flex items-center gap-3 p-3 bg-gray-800 hover:bg-gray-700 text-white rounded-lg transition-colors text-sm"
+        >
+          <ClipboardCopy size={16} />
+          {copied ? 'Report copied!' : 'Copy report for support'}
+        </button>
+      </div>
+    </div>
+  )
+}
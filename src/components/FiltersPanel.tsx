@@ -202,7 +202,7 @@ export default function FiltersPanel({ data }: FiltersPanelProps) {
                 </div>
                 {filters.nameSearch && (
                   <div className="mt-2 text-xs text-gray-400">
-                    Searching in both English and Arabic names
+                    Searching English and Arabic names, including spelling variants
                   </div>
                 )}
               </div>
@@ -1,11 +1,13 @@
 'use client'
 
-import { useMemo, useRef, useState } from 'react'
+import { useEffect, useMemo, useRef, useState } from 'react'
 import * as THREE from 'three'
 import { Casualty } from '@/lib/dataLoader'
 import { shaderMaterial } from '@react-three/drei'
 import { extend, useFrame, useThree } from '@react-three/fiber'
 import { useStore } from '@/lib/store'
+import { createSpatialGrid, updateSpatialGrid } from '@/lib/spatialGrid'
+import { useParticlePicker } from './ParticlePicker'
 
 // @ts-ignore
 import vertexShader from '@/lib/shaders/morph.vert.glsl'
@@ -37,37 +39,9 @@ export default function GlyphField({ data }: GlyphFieldProps) {
   const { mode, setHovered, setSelected } = useStore()
   const materialRef = useRef<any>(null)
   const pointsRef = useRef<THREE.Points>(null!)
-  const { raycaster, camera, mouse } = useThree()
+  const { gl } = useThree()
   const [lastHovered, setLastHovered] = useState<number | null>(null)
 
-  useFrame(() => {
-    if (materialRef.current) {
-      const targetMorph = mode === 'plane' ? 1.0 : 0.0
-      materialRef.current.uMorph +=
-        (targetMorph - materialRef.current.uMorph) * 0.1
-
-      raycaster.setFromCamera(mouse, camera)
-      const intersects = raycaster.intersectObject(pointsRef.current)
-
-      if (intersects.length > 0) {
-        const index = intersects[0].index
-        if (index !== undefined) {
-          if (lastHovered !== index) {
-            setHovered(data[index].id)
-            materialRef.current.uHovered = index
-            setLastHovered(index)
-          }
-        }
-      } else {
-        if (lastHovered !== null) {
-          setHovered(null)
-          materialRef.current.uHovered = -1.0
-          setLastHovered(null)
-        }
-      }
-    }
-  })
-
   const { positions, planePositions, indices } = useMemo(() => {
     const pos = new Float32Array(data.length * 3)
     const planePos = new Float32Array(data.length * 3)
@@ -87,15 +61,55 @@ export default function GlyphField({ data }: GlyphFieldProps) {
     return { positions: pos, planePositions: planePos, indices: idx }
   }, [data])
 
-  return (
-    <points 
-      ref={pointsRef}
-      onClick={() => {
-        if (lastHovered !== null) {
-          setSelected(data[lastHovered].id)
+  // Glyphs as drawn, for the picker's grid fallback; refreshed only while they morph
+  const gridState = useMemo(
+    () => ({ grid: createSpatialGrid(positions.length / 3, 0.5), morphed: new Float32Array(positions.length), morph: NaN }),
+    [positions]
+  )
+  const picked = useParticlePicker(pointsRef, {
+    enabled: true,
+    maxDistance: Infinity,
+    getGrid: () => {
+      const morph = materialRef.current?.uMorph ?? 0
+      if (morph !== gridState.morph) {
+        for (let i = 0; i < positions.length; i++) {
+          gridState.morphed[i] = positions[i] + (planePositions[i] - positions[i]) * morph
         }
-      }}
-    >
+        updateSpatialGrid(gridState.grid, gridState.morphed)
+        gridState.morph = morph
+      }
+      return gridState.grid
+    }
+  })
+
+  useFrame(() => {
+    if (materialRef.current) {
+      const targetMorph = mode === 'plane' ? 1.0 : 0.0
+      materialRef.current.uMorph +=
+        (targetMorph - materialRef.current.uMorph) * 0.1
+
+      const index = picked.current
+      if (lastHovered !== index) {
+        setHovered(index !== null ? data[index].id : null)
+        materialRef.current.uHovered = index ?? -1.0
+        setLastHovered(index)
+      }
+    }
+  })
+
+  // Glyphs are picked by `useParticlePicker`, so clicks are taken from the canvas
+  useEffect(() => {
+    const onClick = () => {
+      if (picked.current !== null) {
+        setSelected(data[picked.current].id)
+      }
+    }
+    gl.domElement.addEventListener('click', onClick)
+    return () => gl.domElement.removeEventListener('click', onClick)
+  }, [gl, data, picked, setSelected])
+
+  return (
+    <points ref={pointsRef}>
       <bufferGeometry>
         <bufferAttribute
           attach="attributes-posCloud"
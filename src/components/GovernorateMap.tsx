@@ -0,0 +1,111 @@
+/**
+ * Governorate Map Component
+ *
+ * Draws the governorate outlines behind the 'map' layout and shows the totals
+ * of a governorate's region when it is hovered. Published statistics are only
+ * broken down by region, so the tooltip pairs the people laid out in the
+ * governorate with the reported totals of the Gaza Strip or West Bank.
+ */
+
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Html, Line } from '@react-three/drei'
+import * as THREE from 'three'
+
+import type { Governorate } from '@/lib/casualtyFields'
+import type { Casualty, MemorialStats } from '@/lib/dataLoader'
+import { getGovernorateShapes } from '@/lib/geography'
+
+interface GovernorateMapProps {
+  /** People shown, as laid out on the map */
+  data: Casualty[]
+  /** Reported totals, shown for the hovered governorate's region */
+  stats?: MemorialStats
+}
+
+// Just behind the particles, which stack towards the viewer from z = 0
+const MAP_DEPTH = -0.02
+
+export default function GovernorateMap({ data, stats }: GovernorateMapProps) {
+  const [hovered, setHovered] = useState<Governorate | null>(null)
+
+  const regions = useMemo(
+    () =>
+      getGovernorateShapes().map(shape => ({
+        ...shape,
+        points: [...shape.outline, shape.outline[0]].map(([x, y]) => [x, y, MAP_DEPTH] as [number, number, number]),
+        fill: new THREE.Shape(shape.outline.map(([x, y]) => new THREE.Vector2(x, y)))
+      })),
+    []
+  )
+
+  const counts = useMemo(() => {
+    const totals = new Map<Governorate, number>()
+    data.forEach(casualty => {
+      if (casualty.location) totals.set(casualty.location, (totals.get(casualty.location) || 0) + 1)
+    })
+    return totals
+  }, [data])
+
+  const hoveredRegion = regions.find(region => region.governorate === hovered)
+
+  return (
+    <group>
+      {regions.map(region => {
+        const isHovered = region.governorate === hovered
+        return (
+          <group key={region.governorate}>
+            <Line points={region.points} color={isHovered ? '#f87171' : '#6b7280'} lineWidth={isHovered ? 2 : 1} transparent opacity={0.8} />
+            <mesh
+              position={[0, 0, MAP_DEPTH - 0.01]}
+              onPointerOver={event => {
+                event.stopPropagation()
+                setHovered(region.governorate)
+              }}
+              onPointerOut={() => setHovered(current => (current === region.governorate ? null : current))}
+            >
+              <shapeGeometry args={[region.fill]} />
+              <meshBasicMaterial color="#ef4444" transparent opacity={isHovered ? 0.15 : 0.03} depthWrite={false} />
+            </mesh>
+          </group>
+        )
+      })}
+
+      {hoveredRegion && (
+        <Html
+          position={[hoveredRegion.centroid[0], hoveredRegion.centroid[1], MAP_DEPTH]}
+          center
+          zIndexRange={[6, 0]}
+          style={{ pointerEvents: 'none' }}
+        >
+          <div className="w-56 bg-gray-900/95 border border-gray-700/50 rounded-lg px-3 py-2 text-xs text-gray-300 shadow-2xl space-y-1 select-none">
+            <div className="text-white font-medium text-sm">{hoveredRegion.governorate}</div>
+            <p>
+              <span className="font-mono text-white">{(counts.get(hoveredRegion.governorate) || 0).toLocaleString()}</span> people shown here
+            </p>
+            {stats && (
+              <div className="pt-1 border-t border-gray-700/50 space-y-0.5">
+                <div className="text-gray-400">{hoveredRegion.region} reported totals</div>
+                {hoveredRegion.region === 'Gaza Strip' ? (
+                  <>
+                    <p><span className="text-red-400 font-mono">{stats.gaza.total_killed.toLocaleString()}</span> killed</p>
+                    <p><span className="text-blue-300 font-mono">{stats.gaza.children_killed.toLocaleString()}</span> children</p>
+                    <p><span className="text-pink-300 font-mono">{stats.gaza.women_killed.toLocaleString()}</span> women</p>
+                    <p><span className="text-orange-400 font-mono">{stats.gaza.total_injured.toLocaleString()}</span> injured</p>
+                  </>
+                ) : (
+                  <>
+                    <p><span className="text-red-400 font-mono">{stats.west_bank.total_killed.toLocaleString()}</span> killed</p>
+                    <p><span className="text-orange-400 font-mono">{stats.west_bank.total_injured.toLocaleString()}</span> injured</p>
+                  </>
+                )}
+                <p className="text-[10px] text-gray-500">Totals are not published per governorate</p>
+              </div>
+            )}
+          </div>
+        </Html>
+      )}
+    </group>
+  )
+}
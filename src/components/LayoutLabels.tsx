@@ -0,0 +1,45 @@
+/**
+ * Layout Labels Component
+ *
+ * Renders the axis titles, group names and counts of a formation layout at
+ * their scene positions, so they follow the particles as the camera moves.
+ * Labels never intercept the pointer; every particle stays hoverable.
+ */
+
+'use client'
+
+import { Html } from '@react-three/drei'
+
+import type { LayoutLabel } from '@/lib/layouts'
+
+interface LayoutLabelsProps {
+  /** Labels of the current formation */
+  labels: LayoutLabel[]
+}
+
+const LABEL_CLASSES: Record<LayoutLabel['kind'], string> = {
+  title: 'text-sm uppercase tracking-widest text-gray-300',
+  group: 'text-xs text-gray-400',
+  count: 'text-xs font-mono text-white'
+}
+
+export default function LayoutLabels({ labels }: LayoutLabelsProps) {
+  return (
+    <group>
+      {labels.map(label => (
+        <Html
+          key={`${label.kind}-${label.text}-${label.position.join(',')}`}
+          position={label.position}
+          center
+          // Stay below the page overlays and sidebar
+          zIndexRange={[5, 0]}
+          style={{ pointerEvents: 'none' }}
+        >
+          <div className={`whitespace-nowrap select-none ${LABEL_CLASSES[label.kind]}`}>
+            {label.text}
+          </div>
+        </Html>
+      ))}
+    </group>
+  )
+}
@@ -0,0 +1,147 @@
+/**
+ * Layout Morpher
+ *
+ * Animates particles between any two layouts on the GPU. When the target
+ * layout changes, the positions particles are currently drawn at are copied
+ * into the `morphSource` attribute and the target is written to `position`;
+ * the particle vertex shader then blends from one to the other while
+ * `morphProgress` runs from 0 to 1. A mode change costs two buffer copies and
+ * no per-frame CPU work, whatever the particle count.
+ *
+ * Each particle sets off after its own delay (`morphDelay`), spreading the
+ * departures over the `stagger` share of the transition. A morph interrupted
+ * by another starts from where the particles were drawn at that moment.
+ */
+
+'use client'
+
+import { MutableRefObject, useEffect, useMemo, useRef } from 'react'
+import { useFrame } from '@react-three/fiber'
+import * as THREE from 'three'
+
+/**
+ * Easing curve of a morph; each has a GLSL twin in `particle.vert.glsl`
+ */
+export type MorphEasing = 'linear' | 'smooth' | 'cubic' | 'expo'
+
+export const MORPH_EASINGS: Array<{ value: MorphEasing; label: string }> = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'smooth', label: 'Smooth' },
+  { value: 'cubic', label: 'Cubic' },
+  { value: 'expo', label: 'Exponential' }
+]
+
+// Index of each easing in the shader's `morphEasing` uniform
+const EASING_INDEX: Record<MorphEasing, number> = { linear: 0, smooth: 1, cubic: 2, expo: 3 }
+
+export interface MorphOptions {
+  /** Length of a morph in seconds */
+  duration: number
+  /** Easing curve applied to each particle's journey */
+  easing: MorphEasing
+  /** Share of the duration over which departures are spread (0 = all at once) */
+  stagger: number
+}
+
+function ease(t: number, easing: MorphEasing): number {
+  switch (easing) {
+    case 'smooth':
+      return t * t * (3 - 2 * t)
+    case 'cubic':
+      return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2
+    case 'expo':
+      return t >= 1 ? 1 : 1 - Math.pow(2, -10 * t)
+    default:
+      return t
+  }
+}
+
+/**
+ * Eased progress of one particle, matching the vertex shader
+ */
+function particleProgress(progress: number, delay: number, { easing, stagger }: MorphOptions): number {
+  const t = Math.min(1, Math.max(0, (progress - delay * stagger) / Math.max(1 - stagger, 1e-3)))
+  return ease(t, easing)
+}
+
+/**
+ * Drives GPU morphs of a particle geometry towards each new target layout
+ *
+ * @param {MutableRefObject<THREE.Points>} pointsRef - Points drawn with the particle material
+ * @param {THREE.BufferGeometry} geometry - Particle geometry; its `position` holds the target
+ * @param {Float32Array | null} target - Positions to morph to, `count * 3` long; null keeps the current ones
+ * @param {MorphOptions} options - Duration, easing and stagger
+ * @returns {MutableRefObject<boolean>} True while a morph is running
+ */
+export function useLayoutMorpher(
+  pointsRef: MutableRefObject<THREE.Points>,
+  geometry: THREE.BufferGeometry,
+  target: Float32Array | null,
+  options: MorphOptions
+): MutableRefObject<boolean> {
+  const progress = useRef(1)
+  const morphing = useRef(false)
+  // Options of the running morph, and the latest ones the next morph starts with
+  const optionsRef = useRef(options)
+  const latestOptions = useRef(options)
+
+  // Source buffer and per-particle delays, allocated once per geometry
+  const { source, delays } = useMemo(() => {
+    const count = geometry.getAttribute('position').count
+    const source = new THREE.BufferAttribute(new Float32Array(count * 3), 3)
+    // Golden-ratio steps give evenly spread delays with no visible pattern
+    const delays = new Float32Array(count)
+    for (let i = 0; i < count; i++) delays[i] = (i * 0.6180339887) % 1
+    geometry.setAttribute('morphSource', source)
+    geometry.setAttribute('morphDelay', new THREE.BufferAttribute(delays, 1))
+    progress.current = 1
+    return { source, delays }
+  }, [geometry])
+
+  // Declared before the morph effect so a new target is morphed with the options of the same render
+  useEffect(() => {
+    latestOptions.current = options
+  }, [options])
+
+  useEffect(() => {
+    const position = geometry.getAttribute('position') as THREE.BufferAttribute
+    const current = position.array as Float32Array
+    if (!target || target.length !== current.length) return
+
+    const from = source.array as Float32Array
+    if (progress.current < 1) {
+      // Interrupted: start from where each particle is drawn right now
+      for (let i = 0; i < delays.length; i++) {
+        const t = particleProgress(progress.current, delays[i], optionsRef.current)
+        for (let k = i * 3; k < i * 3 + 3; k++) from[k] += (current[k] - from[k]) * t
+      }
+    } else {
+      from.set(current)
+    }
+    current.set(target)
+
+    source.needsUpdate = true
+    position.needsUpdate = true
+    // Raycasting tests against the target, so its bounds must be current
+    geometry.computeBoundingSphere()
+    // Settings changed mid-morph apply from the next one, keeping the running morph continuous
+    optionsRef.current = latestOptions.current
+    progress.current = 0
+    morphing.current = true
+  }, [geometry, target, source, delays])
+
+  useFrame((_, delta) => {
+    const material = pointsRef.current?.material as THREE.ShaderMaterial | undefined
+    if (!material?.uniforms?.morphProgress) return
+
+    if (progress.current < 1) {
+      progress.current = Math.min(1, progress.current + delta / Math.max(optionsRef.current.duration, 1e-3))
+      morphing.current = progress.current < 1
+    }
+    material.uniforms.morphProgress.value = progress.current
+    material.uniforms.morphStagger.value = optionsRef.current.stagger
+    material.uniforms.morphEasing.value = EASING_INDEX[optionsRef.current.easing]
+  })
+
+  return morphing
+}
@@ -1,28 +1,64 @@
 'use client'
 
+import { StatsGrouping, VisualizationMode, isFormationMode } from '@/lib/layouts'
 import { useStore } from '@/lib/store'
 
+// Free modes all appear as 'Memorial'; each formation has its own button
+const LAYOUTS: Array<{ mode: VisualizationMode; label: string }> = [
+  { mode: 'cloud', label: 'Memorial' },
+  { mode: 'family', label: 'Families' },
+  { mode: 'stats', label: 'Statistics' },
+  { mode: 'pyramid', label: 'Age Pyramid' },
+  { mode: 'timeline', label: 'Timeline' },
+  { mode: 'map', label: 'Map' }
+]
+
+const STATS_GROUPINGS: Array<{ value: StatsGrouping; label: string }> = [
+  { value: 'age_band', label: 'Age' },
+  { value: 'gender', label: 'Gender' },
+  { value: 'type', label: 'Category' }
+]
+
 export default function ModeSelector() {
-  const { mode, setMode } = useStore()
+  const { mode, setMode, statsGrouping, setStatsGrouping } = useStore()
+  const isStats = mode === 'stats'
+
+  const buttonClass = (active: boolean) =>
+    `px-3 py-1.5 rounded text-xs text-white transition-colors ${
+      active ? 'bg-blue-500' : 'bg-gray-700 hover:bg-gray-600'
+    }`
 
   return (
-    <div className="absolute top-4 left-4 z-10 flex gap-2">
-      <button
-        onClick={() => setMode('cloud')}
-        className={`px-4 py-2 rounded text-white ${
-          mode === 'cloud' ? 'bg-blue-500' : 'bg-gray-700'
-        }`}
-      >
-        Cloud
-      </button>
-      <button
-        onClick={() => setMode('plane')}
-        className={`px-4 py-2 rounded text-white ${
-          mode === 'plane' ? 'bg-blue-500' : 'bg-gray-700'
-        }`}
-      >
-        Plane
-      </button>
+    <div className="absolute bottom-6 left-6 z-10 flex flex-col gap-2">
+      {isStats && (
+        <div className="flex gap-2" role="group" aria-label="Group by">
+          {STATS_GROUPINGS.map(grouping => (
+            <button
+              key={grouping.value}
+              onClick={() => setStatsGrouping(grouping.value)}
+              className={buttonClass(statsGrouping === grouping.value)}
+              aria-pressed={statsGrouping === grouping.value}
+            >
+              {grouping.label}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="flex gap-2">
+        {LAYOUTS.map(layout => {
+          const active = isFormationMode(layout.mode) ? mode === layout.mode : !isFormationMode(mode)
+          return (
+            <button
+              key={layout.mode}
+              onClick={() => setMode(layout.mode)}
+              className={buttonClass(active)}
+              aria-pressed={active}
+            >
+              {layout.label}
+            </button>
+          )
+        })}
+      </div>
     </div>
   )
 }
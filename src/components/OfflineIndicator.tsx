@@ -0,0 +1,45 @@
+/**
+ * Offline Indicator Component
+ *
+ * Tells visitors when the memorial is shown without connectivity, and from
+ * which data snapshot, so the numbers on screen are never mistaken for live
+ * figures.
+ */
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import { WifiOff } from 'lucide-react'
+
+interface OfflineIndicatorProps {
+  /** `DataInfo.lastUpdated` of the dataset on screen */
+  lastUpdated?: string
+}
+
+export default function OfflineIndicator({ lastUpdated }: OfflineIndicatorProps) {
+  const [isOffline, setIsOffline] = useState(false)
+
+  useEffect(() => {
+    const update = () => setIsOffline(!navigator.onLine)
+    update()
+
+    window.addEventListener('online', update)
+    window.addEventListener('offline', update)
+    return () => {
+      window.removeEventListener('online', update)
+      window.removeEventListener('offline', update)
+    }
+  }, [])
+
+  if (!isOffline) return null
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 z-30 flex items-center gap-2 px-4 py-2 rounded-full bg-gray-900/90 border border-amber-500/50 text-amber-200 text-sm backdrop-blur-sm shadow-lg"
+    >
+      <WifiOff size={14} />
+      {lastUpdated ? `Offline snapshot from ${lastUpdated}` : 'Offline'}
+    </div>
+  )
+}
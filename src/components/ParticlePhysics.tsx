@@ -0,0 +1,354 @@
+/**
+ * Particle Physics
+ *
+ * Runs the free-mode particle simulation on the GPU. Positions and velocities
+ * live in two pairs of float render targets, one texel per particle, and are
+ * stepped by `physics_velocity.frag.glsl` and `physics_position.frag.glsl`
+ * through three's GPUComputationRenderer, swapping targets every step. The
+ * particle vertex shader reads positions straight from the current target
+ * (`simulationPositions`), so no per-particle work is left on the CPU.
+ *
+ * Simulated positions are copied back into the geometry's `position` array a
+ * few times a second for the CPU consumers: the spatial grid, trails, camera
+ * focus and the start of the next morph. In turn the spatial grid supplies
+ * each particle's nearest neighbors for the flocking separation, refreshed a
+ * slice of particles per frame into `textureNeighbors`.
+ */
+
+'use client'
+
+import { MutableRefObject, useEffect, useMemo, useRef } from 'react'
+import { useFrame, useThree } from '@react-three/fiber'
+import * as THREE from 'three'
+import { GPUComputationRenderer, Variable } from 'three/examples/jsm/misc/GPUComputationRenderer.js'
+
+import { SpatialGrid, queryNearest } from '@/lib/spatialGrid'
+
+// @ts-expect-error - GLSL shader imports require special handling
+import velocityShader from '@/lib/shaders/physics_velocity.frag.glsl'
+// @ts-expect-error - GLSL shader imports require special handling
+import positionShader from '@/lib/shaders/physics_position.frag.glsl'
+
+// Must match the defines in `physics_velocity.frag.glsl`
+const MAX_FOLLOWERS = 20
+const MAX_ATTRACTIONS = 8
+const NEIGHBORS = 4
+
+// Steps per second, each as long as a 60 fps frame: the pace of the former CPU loop,
+// which stepped every other frame
+const STEP_RATE = 30
+const STEP_DELTA = 1 / 60
+// Steps run at most per frame, so a stalled tab does not fast-forward
+const MAX_STEPS_PER_FRAME = 2
+// Seconds between copies of the simulated positions back to the CPU
+const READBACK_INTERVAL = 1 / 15
+// Particles whose neighbors are looked up per frame, and seconds between uploads of them;
+// neighbors are indices, so their positions stay live while the lists age
+const NEIGHBOR_UPDATES_PER_FRAME = 500
+const NEIGHBOR_UPLOAD_INTERVAL = 0.5
+// Farthest neighbor kept: the largest separation distance of the flocking
+const NEIGHBOR_DISTANCE = 1.2
+
+/**
+ * Forces acting on the particles for one frame
+ */
+export interface PhysicsForces {
+  /** Scene time driving the noise, pulse and trail cycles (seconds) */
+  time: number
+  gravity: number
+  velocityDamping: number
+  /** Breathing radius of the sphere the particles are held to */
+  sphereRadius: number
+  sphereStrength: number
+  sphereDistortion: number
+  sphereNoise: number
+  spherePulse: number
+  separationDistance: number
+  separationStrength: number
+  noiseStrength: number
+  hoveredIndex: number | null
+  /** Every `trailStep`th particle below `trailCount` has a trail; 0 turns trails off */
+  trailStep: number
+  trailCount: number
+  mousePosition: THREE.Vector3
+  mouseInfluenceRadius: number
+  /** Indices of the particles following the mouse; the first 20 are used */
+  followers: Iterable<number>
+  /** Click attraction points at their current, faded strength; the last 8 are used */
+  attractions: Array<{ position: THREE.Vector3; strength: number }>
+}
+
+export interface ParticlePhysics {
+  /** Advances the simulation by a frame; call only while it runs */
+  step: (delta: number, forces: PhysicsForces) => void
+  /** Counts copies of simulated positions into `position`; changes when they are fresh */
+  readbacks: MutableRefObject<number>
+}
+
+interface Simulation {
+  compute: GPUComputationRenderer
+  position: Variable
+  velocity: Variable
+  neighbors: THREE.DataTexture
+  size: number
+}
+
+/**
+ * Writes xyz triples into a simulation texture, leaving unused texels at zero
+ */
+function fillTexture(texture: THREE.DataTexture, values: Float32Array | null): THREE.DataTexture {
+  const data = texture.image.data as Float32Array
+  data.fill(0)
+  if (values) {
+    for (let i = 0; i < values.length / 3; i++) {
+      data[i * 4] = values[i * 3]
+      data[i * 4 + 1] = values[i * 3 + 1]
+      data[i * 4 + 2] = values[i * 3 + 2]
+      data[i * 4 + 3] = 1
+    }
+  }
+  texture.needsUpdate = true
+  return texture
+}
+
+/**
+ * Copies the xyz of each particle's texel into a positions array
+ */
+function copyPositions(pixels: Float32Array, positions: Float32Array) {
+  for (let i = 0; i < positions.length / 3; i++) {
+    positions[i * 3] = pixels[i * 4]
+    positions[i * 3 + 1] = pixels[i * 4 + 1]
+    positions[i * 3 + 2] = pixels[i * 4 + 2]
+  }
+}
+
+/**
+ * Simulates a particle geometry on the GPU while free positions are given
+ *
+ * @param {MutableRefObject<THREE.Points>} pointsRef - Points drawn with the particle material
+ * @param {THREE.BufferGeometry} geometry - Particle geometry; receives simulated positions in `position`
+ * @param {Float32Array | null} start - Positions to (re)start the simulation from, at rest; null stops it
+ * @param {SpatialGrid} grid - Grid over the particles' CPU positions, for neighbor lookups
+ * @returns {ParticlePhysics} Stepping function and readback counter
+ */
+export function useParticlePhysics(
+  pointsRef: MutableRefObject<THREE.Points>,
+  geometry: THREE.BufferGeometry,
+  start: Float32Array | null,
+  grid: SpatialGrid
+): ParticlePhysics {
+  const { gl } = useThree()
+  // True once the current simulation has been seeded, until it stops or is replaced
+  const running = useRef(false)
+  const accumulator = useRef(0)
+  const sinceReadback = useRef(0)
+  const readbackPending = useRef(false)
+  // Bumped on every restart or stop, so late readbacks of an older run are dropped
+  const generation = useRef(0)
+  const readbacks = useRef(0)
+  const neighborCursor = useRef(0)
+  const sinceNeighborUpload = useRef(0)
+
+  const count = geometry.getAttribute('position').count
+
+  const simulation = useMemo<Simulation | null>(() => {
+    const size = Math.max(1, Math.ceil(Math.sqrt(count)))
+    const compute = new GPUComputationRenderer(size, size, gl)
+    const position = compute.addVariable('texturePosition', positionShader, fillTexture(compute.createTexture(), null))
+    const velocity = compute.addVariable('textureVelocity', velocityShader, fillTexture(compute.createTexture(), null))
+    compute.setVariableDependencies(position, [position, velocity])
+    compute.setVariableDependencies(velocity, [position, velocity])
+
+    const neighbors = new THREE.DataTexture(new Float32Array(size * size * 4).fill(-1), size, size, THREE.RGBAFormat, THREE.FloatType)
+    neighbors.needsUpdate = true
+
+    Object.assign(position.material.uniforms, {
+      particleCount: { value: count },
+      delta: { value: STEP_DELTA },
+      sphereRadius: { value: 12 },
+      trailStep: { value: 0 },
+      trailCount: { value: 0 }
+    })
+    Object.assign(velocity.material.uniforms, {
+      particleCount: { value: count },
+      time: { value: 0 },
+      delta: { value: STEP_DELTA },
+      gravity: { value: 0 },
+      velocityDamping: { value: 0.99 },
+      sphereRadius: { value: 12 },
+      sphereStrength: { value: 0.08 },
+      sphereDistortion: { value: 2.5 },
+      sphereNoise: { value: 0.8 },
+      spherePulse: { value: 0.4 },
+      separationDistance: { value: 1 },
+      separationStrength: { value: 0.002 },
+      noiseStrength: { value: 0.001 },
+      hoveredIndex: { value: -1 },
+      trailStep: { value: 0 },
+      trailCount: { value: 0 },
+      mousePosition: { value: new THREE.Vector3() },
+      mouseInfluenceRadius: { value: 8 },
+      followers: { value: new Array(MAX_FOLLOWERS).fill(-1) },
+      attractions: { value: Array.from({ length: MAX_ATTRACTIONS }, () => new THREE.Vector4()) },
+      textureNeighbors: { value: neighbors }
+    })
+
+    const error = compute.init()
+    if (error) {
+      console.warn('GPU particle physics not available, particles will rest:', error)
+      compute.dispose()
+      neighbors.dispose()
+      return null
+    }
+
+    // Texel of each particle, read by the particle vertex shader
+    const uvs = new Float32Array(count * 2)
+    for (let i = 0; i < count; i++) {
+      uvs[i * 2] = ((i % size) + 0.5) / size
+      uvs[i * 2 + 1] = (Math.floor(i / size) + 0.5) / size
+    }
+    geometry.setAttribute('simulationUv', new THREE.BufferAttribute(uvs, 2))
+
+    return { compute, position, velocity, neighbors, size }
+  }, [gl, geometry, count])
+
+  useEffect(
+    () => () => {
+      // A new geometry or count replaces the simulation before it is seeded; its
+      // still empty targets must not be copied back into the new geometry
+      running.current = false
+      simulation?.compute.dispose()
+      simulation?.neighbors.dispose()
+    },
+    [simulation]
+  )
+
+  useEffect(() => {
+    if (!simulation) return
+    generation.current++
+    readbackPending.current = false
+
+    // Leaving a simulated layout: the next morph starts from where the particles are drawn
+    if (running.current) {
+      const pixels = new Float32Array(simulation.size * simulation.size * 4)
+      gl.readRenderTargetPixels(simulation.compute.getCurrentRenderTarget(simulation.position), 0, 0, simulation.size, simulation.size, pixels)
+      copyPositions(pixels, geometry.getAttribute('position').array as Float32Array)
+    }
+
+    running.current = !!start && start.length === count * 3
+    if (!running.current) return
+
+    const { compute, position, velocity } = simulation
+    const positions = fillTexture(compute.createTexture(), start)
+    const velocities = fillTexture(compute.createTexture(), null)
+    position.renderTargets.forEach(target => compute.renderTexture(positions, target))
+    velocity.renderTargets.forEach(target => compute.renderTexture(velocities, target))
+    positions.dispose()
+    velocities.dispose()
+    accumulator.current = 0
+    sinceReadback.current = 0
+  }, [gl, geometry, count, simulation, start])
+
+  // Points the particle material at the simulation while it runs
+  useFrame(() => {
+    const material = pointsRef.current?.material as THREE.ShaderMaterial | undefined
+    if (!material?.uniforms?.useSimulation) return
+
+    const simulating = !!simulation && running.current
+    material.uniforms.useSimulation.value = simulating ? 1 : 0
+    if (simulating) {
+      material.uniforms.simulationPositions.value = simulation.compute.getCurrentRenderTarget(simulation.position).texture
+    }
+  })
+
+  const step = (delta: number, forces: PhysicsForces) => {
+    if (!simulation || !running.current) return
+    const { compute, position, velocity } = simulation
+
+    const shared = {
+      sphereRadius: forces.sphereRadius,
+      trailStep: forces.trailStep,
+      trailCount: forces.trailCount
+    }
+    Object.entries(shared).forEach(([name, value]) => {
+      position.material.uniforms[name].value = value
+      velocity.material.uniforms[name].value = value
+    })
+
+    const uniforms = velocity.material.uniforms
+    uniforms.time.value = forces.time
+    uniforms.gravity.value = forces.gravity
+    uniforms.velocityDamping.value = forces.velocityDamping
+    uniforms.sphereStrength.value = forces.sphereStrength
+    uniforms.sphereDistortion.value = forces.sphereDistortion
+    uniforms.sphereNoise.value = forces.sphereNoise
+    uniforms.spherePulse.value = forces.spherePulse
+    uniforms.separationDistance.value = forces.separationDistance
+    uniforms.separationStrength.value = forces.separationStrength
+    uniforms.noiseStrength.value = forces.noiseStrength
+    uniforms.hoveredIndex.value = forces.hoveredIndex ?? -1
+    uniforms.mousePosition.value.copy(forces.mousePosition)
+    uniforms.mouseInfluenceRadius.value = forces.mouseInfluenceRadius
+
+    const followers = uniforms.followers.value as number[]
+    followers.fill(-1)
+    let slot = 0
+    for (const index of forces.followers) {
+      if (slot >= MAX_FOLLOWERS) break
+      followers[slot++] = index
+    }
+
+    const attractions = uniforms.attractions.value as THREE.Vector4[]
+    const recent = forces.attractions.slice(-MAX_ATTRACTIONS)
+    attractions.forEach((attraction, k) => {
+      if (recent[k]) attraction.set(recent[k].position.x, recent[k].position.y, recent[k].position.z, recent[k].strength)
+      else attraction.set(0, 0, 0, 0)
+    })
+
+    // Refresh the neighbor lists of the next slice of particles
+    const neighborData = simulation.neighbors.image.data as Float32Array
+    const center = new THREE.Vector3()
+    const end = Math.min(neighborCursor.current + NEIGHBOR_UPDATES_PER_FRAME, count, grid.count)
+    for (let i = neighborCursor.current; i < end; i++) {
+      const nearest = queryNearest(grid, center.fromArray(grid.positions, i * 3), NEIGHBORS, NEIGHBOR_DISTANCE, i)
+      for (let k = 0; k < NEIGHBORS; k++) neighborData[i * 4 + k] = nearest[k] ?? -1
+    }
+    neighborCursor.current = end >= Math.min(count, grid.count) ? 0 : end
+    sinceNeighborUpload.current += delta
+    if (sinceNeighborUpload.current >= NEIGHBOR_UPLOAD_INTERVAL) {
+      sinceNeighborUpload.current = 0
+      simulation.neighbors.needsUpdate = true
+    }
+
+    accumulator.current += delta
+    let steps = 0
+    while (accumulator.current >= 1 / STEP_RATE && steps < MAX_STEPS_PER_FRAME) {
+      compute.compute()
+      accumulator.current -= 1 / STEP_RATE
+      steps++
+    }
+    accumulator.current = Math.min(accumulator.current, 1 / STEP_RATE)
+
+    // Copy positions back without stalling the frame
+    sinceReadback.current += delta
+    if (sinceReadback.current < READBACK_INTERVAL || readbackPending.current) return
+    sinceReadback.current = 0
+    readbackPending.current = true
+    const runGeneration = generation.current
+    const pixels = new Float32Array(simulation.size * simulation.size * 4)
+    gl.readRenderTargetPixelsAsync(compute.getCurrentRenderTarget(position), 0, 0, simulation.size, simulation.size, pixels)
+      .then(() => {
+        if (runGeneration !== generation.current) return
+        readbackPending.current = false
+        copyPositions(pixels, geometry.getAttribute('position').array as Float32Array)
+        geometry.computeBoundingSphere()
+        readbacks.current++
+      })
+      .catch(error => {
+        readbackPending.current = false
+        console.warn('Particle position readback failed:', error)
+      })
+  }
+
+  return { step, readbacks }
+}
@@ -0,0 +1,152 @@
+/**
+ * Particle Picker
+ *
+ * Finds the particle under the mouse without raycasting against every point.
+ * Each frame the particles are drawn offscreen, through their own vertex
+ * shader and `pick.frag.glsl`, into a small float render target centred on
+ * the mouse; every sprite writes its index as its color and the depth test
+ * keeps the nearest. The pixel under the mouse is read back asynchronously,
+ * so a pick costs the same on the CPU whatever the particle count, and
+ * matches the drawn sprites exactly, size attenuation included.
+ *
+ * Where float render targets are unavailable, picking falls back to the
+ * spatial grid over the CPU positions (see `@/lib/spatialGrid`), walked cell
+ * by cell along the mouse ray.
+ */
+
+'use client'
+
+import { MutableRefObject, useEffect, useMemo, useRef } from 'react'
+import { useFrame, useThree } from '@react-three/fiber'
+import * as THREE from 'three'
+
+import { SpatialGrid, queryRay } from '@/lib/spatialGrid'
+
+// @ts-expect-error - GLSL shader imports require special handling
+import pickFragmentShader from '@/lib/shaders/pick.frag.glsl'
+
+// Side of the pick window in pixels. Points are clipped by their centre, so
+// sprites centred outside the window cannot be picked even if they reach the mouse
+const PICK_WINDOW = 64
+// World distance from the mouse ray within which the fallback grid picks a particle
+const GRID_PICK_RADIUS = 0.5
+
+export interface PickOptions {
+  /** False stops picking and clears the pick */
+  enabled: boolean
+  /** Farthest distance from the camera a particle can be picked at */
+  maxDistance: number
+  /** Grid over the positions drawn, in the points' local space; used by the fallback */
+  getGrid: () => SpatialGrid
+}
+
+/**
+ * Picks the particle under the mouse each frame
+ *
+ * The points' material must be a ShaderMaterial whose vertex shader sets the
+ * `vParticleIndex` and `vViewDepth` varyings.
+ *
+ * @param {MutableRefObject<THREE.Points>} pointsRef - Points to pick from
+ * @param {PickOptions} options - Whether to pick, how far, and the CPU positions for the fallback
+ * @returns {MutableRefObject<number | null>} Index of the particle under the mouse, or null
+ */
+export function useParticlePicker(
+  pointsRef: MutableRefObject<THREE.Points>,
+  options: PickOptions
+): MutableRefObject<number | null> {
+  const { gl, camera, mouse, raycaster } = useThree()
+  const picked = useRef<number | null>(null)
+  const pending = useRef(false)
+  // Bumped when picking stops, so late readbacks are dropped
+  const generation = useRef(0)
+
+  const gpu = useMemo(() => {
+    if (!gl.extensions.has('EXT_color_buffer_float')) {
+      console.warn('Float render targets not available, picking particles with a spatial grid')
+      return null
+    }
+    const target = new THREE.WebGLRenderTarget(PICK_WINDOW, PICK_WINDOW, {
+      type: THREE.FloatType,
+      minFilter: THREE.NearestFilter,
+      magFilter: THREE.NearestFilter,
+      depthBuffer: true
+    })
+    const points = new THREE.Points()
+    points.matrixAutoUpdate = false
+    points.matrixWorldAutoUpdate = false
+    points.frustumCulled = false
+    const scene = new THREE.Scene()
+    scene.add(points)
+    return { target, points, scene, materials: new WeakMap<THREE.Material, THREE.ShaderMaterial>(), pixel: new Float32Array(4) }
+  }, [gl])
+
+  useEffect(() => () => gpu?.target.dispose(), [gpu])
+
+  useFrame(() => {
+    const source = pointsRef.current
+    if (!options.enabled || !source) {
+      if (picked.current !== null || pending.current) generation.current++
+      picked.current = null
+      pending.current = false
+      return
+    }
+
+    if (!gpu) {
+      raycaster.setFromCamera(mouse, camera)
+      const ray = raycaster.ray.clone().applyMatrix4(source.matrixWorld.clone().invert())
+      picked.current = queryRay(options.getGrid(), ray.origin, ray.direction, options.maxDistance, GRID_PICK_RADIUS)
+      return
+    }
+
+    if (pending.current) return
+    const material = source.material as THREE.ShaderMaterial
+    let pickMaterial = gpu.materials.get(material)
+    if (!pickMaterial) {
+      // Same vertex stage and uniforms as the drawn particles, index colors out
+      pickMaterial = new THREE.ShaderMaterial({
+        uniforms: material.uniforms,
+        vertexShader: material.vertexShader,
+        fragmentShader: pickFragmentShader,
+        blending: THREE.NoBlending
+      })
+      gpu.materials.set(material, pickMaterial)
+    }
+    gpu.points.geometry = source.geometry
+    gpu.points.material = pickMaterial
+    gpu.points.matrixWorld.copy(source.matrixWorld)
+
+    // Render only the window around the mouse, in drawing-buffer pixels like the sprites
+    const view = camera as THREE.PerspectiveCamera
+    const size = gl.getDrawingBufferSize(new THREE.Vector2())
+    const x = ((mouse.x + 1) / 2) * size.x
+    const y = ((1 - mouse.y) / 2) * size.y
+    view.setViewOffset(size.x, size.y, x - PICK_WINDOW / 2, y - PICK_WINDOW / 2, PICK_WINDOW, PICK_WINDOW)
+
+    const clearColor = gl.getClearColor(new THREE.Color())
+    const clearAlpha = gl.getClearAlpha()
+    const previousTarget = gl.getRenderTarget()
+    gl.setRenderTarget(gpu.target)
+    gl.setClearColor(0x000000, 0)
+    gl.clear()
+    gl.render(gpu.scene, view)
+    gl.setRenderTarget(previousTarget)
+    gl.setClearColor(clearColor, clearAlpha)
+    view.clearViewOffset()
+
+    pending.current = true
+    const pickGeneration = generation.current
+    gl.readRenderTargetPixelsAsync(gpu.target, PICK_WINDOW / 2, PICK_WINDOW / 2, 1, 1, gpu.pixel)
+      .then(() => {
+        if (pickGeneration !== generation.current) return
+        pending.current = false
+        const [index, depth] = gpu.pixel
+        picked.current = index > 0 && depth <= options.maxDistance ? Math.round(index) - 1 : null
+      })
+      .catch(error => {
+        pending.current = false
+        console.warn('Particle pick readback failed:', error)
+      })
+  })
+
+  return picked
+}
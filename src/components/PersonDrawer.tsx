@@ -8,6 +8,7 @@ import {
   DrawerTitle,
 } from '@/components/ui/drawer'
 import { useStore } from '@/lib/store'
+import { formatISODate, formatLocation } from '@/lib/casualtyFields'
 import { Casualty } from '@/lib/dataLoader'
 
 interface PersonDrawerProps {
@@ -33,6 +34,8 @@ export default function PersonDrawer({ data }: PersonDrawerProps) {
                 <p><strong>Age:</strong> {person.age}</p>
                 <p><strong>Gender:</strong> {person.gender}</p>
                 <p><strong>Date of Birth:</strong> {person.date_of_birth}</p>
+                <p><strong>Location:</strong> {formatLocation(person.location, person.region)}</p>
+                {person.date_of_death && <p><strong>Date of Death:</strong> {formatISODate(person.date_of_death)}</p>}
                 <p><strong>Source:</strong> {person.source}</p>
               </div>
             </>
@@ -5,12 +5,18 @@
  *
  * This component serves as the primary interface for the Gaza Souls Memorial,
  * a comprehensive interactive 3D visualization honoring the lives lost in Gaza
- * and the West Bank. It renders 63,872+ souls as individual particles that can
- * be explored through various visualization modes and filtering options.
+ * and the West Bank. It renders every soul in the memorial total as an
+ * individual particle that can be explored through various visualization modes
+ * and filtering options.
  *
  * Key Features:
  * - Interactive 3D particle system representing individual lives lost
- * - Multiple visualization layouts (sphere, cloud, plane, flock)
+ * - Multiple visualization layouts (sphere, cloud, plane, flock) and data-driven
+ *   formations (see `@/lib/layouts`): 'family' gathers shared family names into
+ *   constellations listed in the person panel, 'stats' groups every particle
+ *   into labelled bars, 'pyramid' stacks them by single-year age and gender,
+ *   'timeline' lays them out by date of death with a date scrubber, 'map'
+ *   settles them into governorates drawn from bundled GeoJSON
  * - Real-time filtering by gender, age, source, and casualty type
  * - Audio memorial playback with text-to-speech narration
  * - Camera controls and smooth transitions
@@ -24,8 +30,12 @@
  * - Custom GLSL shaders for particle effects and visual enhancements
  * - Zustand for state management
  * - Real-time audio analysis and sound-responsive particle behavior
- * - Advanced physics simulation with flocking algorithms
- * - Performance optimization for handling 25,000+ particles
+ * - Advanced physics simulation with flocking algorithms, stepped on the GPU in
+ *   ping-pong position/velocity textures (see `ParticlePhysics.tsx`)
+ * - Hover and click picking through an offscreen particle-ID pass (see `ParticlePicker.tsx`)
+ * - Spatial grid over the particles (see `@/lib/spatialGrid`) for flocking neighbors,
+ *   mouse followers and attraction, the picker's fallback and "Show neighbors"
+ * - Performance optimization for handling 60,000+ particles
  *
  * Data Sources:
  * - Tech for Palestine APIs (killed-in-gaza, press_killed, casualties_daily, etc.)
@@ -42,10 +52,24 @@ import { OrbitControls, Stars, shaderMaterial } from '@react-three/drei'
 // Canvas shader removed - was causing issues
 import { useEffect, useState, useRef, useMemo } from 'react'
 
-import { Casualty, DataInfo, loadData } from '@/lib/dataLoader'
+import { formatISODate, formatLocation } from '@/lib/casualtyFields'
+import { Casualty, DailyCasualties, DataInfo, InfrastructureDamage, MemorialStats, WestBankCasualties } from '@/lib/dataLoader'
+import type { DatasetLoad, DatasetStats, FilterResult } from '@/lib/dataService'
+import { DataService, createDataService } from '@/lib/dataServiceClient'
+import { FAMILY_MIN_SIZE, dayNumber, generateFreePositions, generateLayout, isFormationMode } from '@/lib/layouts'
+import { SpatialGrid, createSpatialGrid, queryFrustum, queryNearest, updateSpatialGrid } from '@/lib/spatialGrid'
 import { useStore } from '@/lib/store'
+import { TimeSeriesId, TimeSeriesPoint, buildTimeSeries } from '@/lib/timeseries'
 import AudioPlayback from './AudioPlayback'
 import CameraController from './CameraController'
+import GovernorateMap from './GovernorateMap'
+import LayoutLabels from './LayoutLabels'
+import { MorphEasing, useLayoutMorpher } from './LayoutMorpher'
+import { useParticlePhysics } from './ParticlePhysics'
+import { useParticlePicker } from './ParticlePicker'
+import ModeSelector from './ModeSelector'
+import TimelineScrubber from './TimelineScrubber'
+import OfflineIndicator from './OfflineIndicator'
 import UnifiedSidebar from './UnifiedSidebar'
 
 import * as THREE from 'three'
@@ -57,6 +81,9 @@ import particleVertexShader from '@/lib/shaders/particle.vert.glsl'
 // @ts-expect-error - GLSL shader imports require special handling
 import particleFragmentShader from '@/lib/shaders/particle.frag.glsl'
 
+// Reveal threshold that lights every particle
+const REVEAL_ALL = 1e9
+
 // Create custom shader material
 const ParticleMaterial = shaderMaterial(
   {
@@ -68,7 +95,15 @@ const ParticleMaterial = shaderMaterial(
     time: 0.0,
     particleSize: 0.2,
     glowIntensity: 1.0,
-    shaderMode: 0.0
+    shaderMode: 0.0,
+    revealThreshold: REVEAL_ALL,
+    // Driven by `useLayoutMorpher`
+    morphProgress: 1.0,
+    morphStagger: 0.0,
+    morphEasing: 0.0,
+    // Driven by `useParticlePhysics`
+    simulationPositions: null,
+    useSimulation: 0.0
   },
   particleVertexShader,
   particleFragmentShader
@@ -89,6 +124,7 @@ declare module '@react-three/fiber' {
       glowIntensity: number
       shaderMode: number
       filterTransitionTime: number
+      revealThreshold: number
       transparent?: boolean
       blending?: THREE.Blending
       depthWrite?: boolean
@@ -189,93 +225,15 @@ function createCrescentStarSVG(): string {
   `
 }
 
-// Seeded random function for consistent layouts
-function createSeededRandom(seed: number = 12345) {
-  let currentSeed = seed
-  return () => {
-    currentSeed = (currentSeed * 9301 + 49297) % 233280
-    return currentSeed / 233280
-  }
-}
+// Rate at which the scene turns back to face a formation (per second)
+const FORMATION_EASE_RATE = 2.5
 
-// Particle layout functions
-// Note: Currently using sphere layout as primary method, other layouts available for future use
-function generateCloudLayout(count: number): Float32Array {
-  const positions = new Float32Array(count * 3)
-  const seededRandom = createSeededRandom(12345)
-  
-  for (let i = 0; i < count; i++) {
-    const i3 = i * 3
-    const radius = 5 + seededRandom() * 10
-    const theta = seededRandom() * Math.PI * 2
-    const phi = Math.acos(2 * seededRandom() - 1)
-    
-    positions[i3] = radius * Math.sin(phi) * Math.cos(theta)
-    positions[i3 + 1] = radius * Math.sin(phi) * Math.sin(theta)
-    positions[i3 + 2] = radius * Math.cos(phi)
-  }
-  return positions
-}
-
-function generateSphereLayout(count: number): Float32Array {
-  const positions = new Float32Array(count * 3)
-  const seededRandom = createSeededRandom(54321)
-  const radius = 12
-  
-  for (let i = 0; i < count; i++) {
-    const i3 = i * 3
-    const theta = seededRandom() * Math.PI * 2
-    const phi = Math.acos(2 * seededRandom() - 1)
-    
-    positions[i3] = radius * Math.sin(phi) * Math.cos(theta)
-    positions[i3 + 1] = radius * Math.sin(phi) * Math.sin(theta)
-    positions[i3 + 2] = radius * Math.cos(phi)
-  }
-  return positions
-}
-
-function generatePlaneLayout(count: number): Float32Array {
-  const positions = new Float32Array(count * 3)
-  const cols = Math.ceil(Math.sqrt(count))
-  const spacing = 0.5
-  
-  for (let i = 0; i < count; i++) {
-    const i3 = i * 3
-    const row = Math.floor(i / cols)
-    const col = i % cols
-    
-    positions[i3] = (col - cols / 2) * spacing
-    positions[i3 + 1] = (row - Math.ceil(count / cols) / 2) * spacing
-    positions[i3 + 2] = 0
-  }
-  return positions
-}
-
-function generateFlockLayout(count: number): Float32Array {
-  const positions = new Float32Array(count * 3)
-  const seededRandom = createSeededRandom(98765)
-  const flockCount = Math.min(5, Math.ceil(count / 1000))
-  
-  for (let i = 0; i < count; i++) {
-    const i3 = i * 3
-    const flockIndex = Math.floor(i / (count / flockCount))
-    const flockAngle = (flockIndex / flockCount) * Math.PI * 2
-    const flockRadius = 8
-    
-    const flockCenterX = Math.cos(flockAngle) * flockRadius
-    const flockCenterY = Math.sin(flockAngle) * flockRadius
-    const flockCenterZ = (seededRandom() - 0.5) * 4
-    
-    const localRadius = seededRandom() * 3
-    const localTheta = seededRandom() * Math.PI * 2
-    const localPhi = seededRandom() * Math.PI
-    
-    positions[i3] = flockCenterX + localRadius * Math.sin(localPhi) * Math.cos(localTheta)
-    positions[i3 + 1] = flockCenterY + localRadius * Math.sin(localPhi) * Math.sin(localTheta)
-    positions[i3 + 2] = flockCenterZ + localRadius * Math.cos(localPhi)
-  }
-  return positions
-}
+// Spatial grid over the particles: cells as wide as the farthest flocking separation,
+// and particles refreshed per frame, so the whole grid follows within a few frames
+const GRID_CELL_SIZE = 1.2
+const GRID_UPDATES_PER_FRAME = 10000
+// People listed by "Show neighbors" in the person panel
+const NEIGHBOR_COUNT = 12
 
 function FloatingParticles({ 
   data, 
@@ -285,7 +243,9 @@ function FloatingParticles({
   onParticlePositions,
   visualSettings,
   focusedIndex,
-  filteredData
+  filteredData,
+  particleIndices,
+  onSpatialGrid
 }: { 
   data: Casualty[]
   onParticleClick: (person: Casualty, index: number) => void
@@ -312,14 +272,21 @@ function FloatingParticles({
     shaderMode?: number
     showStars?: boolean
     showCentralLight?: boolean
+    morphDuration?: number
+    morphEasing?: MorphEasing
+    morphStagger?: number
   }
   focusedIndex?: number | null
   filteredData: Casualty[]
+  /** `particleIndex` attribute values from the data worker, used without copying */
+  particleIndices?: Float32Array
+  /** Receives the spatial grid over the particles whenever it is recreated */
+  onSpatialGrid?: (grid: SpatialGrid) => void
 }) {
   const pointsRef = useRef<THREE.Points>(null!)
   const trailsRef = useRef<THREE.Group>(null!)
   const { raycaster, camera, mouse, gl } = useThree()
-  const { filters, isFiltered, focusedPerson, isAutoPlaying, setCameraTarget } = useStore()
+  const { filters, isFiltered, focusedPerson, isAutoPlaying, setCameraTarget, mode, statsGrouping, timelineDate } = useStore()
   
   // Mouse interaction for immediate hover detection
   const [lastHovered, setLastHovered] = useState<number | null>(null)
@@ -354,11 +321,8 @@ function FloatingParticles({
   
   console.log('FloatingParticles render - data length:', data.length, 'particle count:', data.length)
   
-  // Performance optimization: limit particle count for better performance
-  const maxParticles = typeof navigator !== 'undefined' && navigator.userAgent.includes('Safari') && !navigator.userAgent.includes('Chrome') 
-    ? 15000 // Safari-specific limit
-    : 25000 // Other browsers
-  const particleCount = Math.min(data.length, maxParticles) // Show all particles - each soul deserves representation
+  // Physics runs on the GPU, so every person gets a particle
+  const particleCount = data.length // Show all particles - each soul deserves representation
   
   // Initialize audio analysis for sound-responsive particles
   const initAudioAnalysis = () => {
@@ -446,13 +410,14 @@ function FloatingParticles({
     return COLORS.filtered
   }
   
-  const { positions, velocities, geometry } = useMemo(() => {
+  const { positions, geometry } = useMemo(() => {
     console.log('Creating sphere geometry with', particleCount, 'particles')
     
     // Create sphere layout
     const pos = new Float32Array(particleCount * 3)
-    const vel = new Float32Array(particleCount * 3)
-    const indices = new Float32Array(particleCount)
+    // Worker-provided indices are used as-is; subarray shares the buffer
+    const hasWorkerIndices = !!particleIndices && particleIndices.length >= particleCount
+    const indices = hasWorkerIndices ? particleIndices.subarray(0, particleCount) : new Float32Array(particleCount)
     
     // Use seeded random for consistent results
     let seed = 12345
@@ -474,20 +439,58 @@ function FloatingParticles({
       pos[i3 + 1] = radius * Math.sin(phi) * Math.sin(theta)
       pos[i3 + 2] = radius * Math.cos(phi)
       
-      // Initial velocities (small random)
-      vel[i3] = (seededRandom() - 0.5) * 0.01
-      vel[i3 + 1] = (seededRandom() - 0.5) * 0.01
-      vel[i3 + 2] = (seededRandom() - 0.5) * 0.01
-      
-      indices[i] = i
+      if (!hasWorkerIndices) indices[i] = i
     }
     
     const geom = new THREE.BufferGeometry()
     geom.setAttribute('position', new THREE.BufferAttribute(pos, 3))
     geom.setAttribute('particleIndex', new THREE.BufferAttribute(indices, 1))
     
-    return { positions: pos, velocities: vel, geometry: geom }
-  }, [particleCount])
+    return { positions: pos, geometry: geom }
+  }, [particleCount, particleIndices])
+
+  // Formation the particles settle into; null while they move freely
+  const layout = useMemo(
+    () => generateLayout(mode, data, particleCount, { statsGrouping }),
+    [mode, data, particleCount, statsGrouping]
+  )
+
+  // Reveal keys of the formation; without them every particle counts as revealed
+  useEffect(() => {
+    if (layout?.reveal) geometry.setAttribute('revealKey', new THREE.BufferAttribute(layout.reveal, 1))
+    else geometry.deleteAttribute('revealKey')
+  }, [geometry, layout])
+  const revealThreshold = layout?.reveal && timelineDate ? dayNumber(timelineDate) : REVEAL_ALL
+
+  // Particles morph on the GPU to the formation, or to a free mode's starting shape
+  const freePositions = useMemo(
+    () => (isFormationMode(mode) ? null : generateFreePositions(mode, particleCount)),
+    [mode, particleCount]
+  )
+  // Grid over the particles' CPU positions for neighbor, ray and frustum queries
+  const grid = useMemo(() => createSpatialGrid(particleCount, GRID_CELL_SIZE), [particleCount])
+  const gridCursor = useRef(0)
+  useEffect(() => {
+    gridCursor.current = 0
+    onSpatialGrid?.(grid)
+  }, [grid, onSpatialGrid])
+
+  // Free modes are simulated from their starting shape; declared before the morpher so
+  // a morph away from a free mode starts from the simulated positions
+  const physics = useParticlePhysics(pointsRef, geometry, freePositions, grid)
+  const morphTarget = layout?.positions ?? freePositions
+  const morphing = useLayoutMorpher(pointsRef, geometry, morphTarget, {
+    duration: visualSettings?.morphDuration ?? 1.6,
+    easing: visualSettings?.morphEasing ?? 'cubic',
+    stagger: visualSettings?.morphStagger ?? 0.4
+  })
+
+  // Particle under the mouse, from an offscreen ID pass
+  const picked = useParticlePicker(pointsRef, {
+    enabled: !isAutoPlaying && !focusedPerson,
+    maxDistance: 20, // Maximum distance for hover detection
+    getGrid: () => grid
+  })
 
   // Notify parent of particle positions for camera focusing
   useEffect(() => {
@@ -505,51 +508,6 @@ function FloatingParticles({
 
   // Track which particles have trails for special physics behavior
   const trailedParticleIndices = useRef<Set<number>>(new Set())
-
-  // Debug functions accessible from browser console
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      (window as any).debugTrails = () => {
-        console.log('Trail System Debug:')
-        console.log('- Trails enabled:', visualSettings?.particleTrails)
-        console.log('- Trail count:', visualSettings?.trailCount || 75)
-        console.log('- Trail length:', visualSettings?.trailLength || 25)
-        console.log('- Trailed particles:', trailedParticleIndices.current.size)
-        console.log('- Trail history length:', trailHistoryRef.current.length)
-        console.log('- Visual settings:', visualSettings)
-        return 'Trail system debug info logged'
-      }
-
-      (window as any).testFeatures = () => {
-        console.log('=== Feature Test Results ===')
-        console.log('✓ Particle Trails:', visualSettings?.particleTrails ? 'ENABLED' : 'DISABLED')
-        console.log('✓ Ambient Light:', visualSettings?.ambientLightIntensity || 0.2)
-        console.log('✓ Fog Density:', visualSettings?.fogDensity || 0)
-        console.log('✓ Color Temperature:', visualSettings?.colorTemperature || 0.5)
-        console.log('✓ Shader Mode:', visualSettings?.shaderMode || 0)
-        console.log('✓ Stars:', visualSettings?.showStars ? 'VISIBLE' : 'HIDDEN')
-        console.log('✓ Central Light:', visualSettings?.showCentralLight ? 'VISIBLE' : 'HIDDEN')
-        console.log('=== End Test ===')
-        return 'All features tested - check console for details'
-      }
-
-      (window as any).forceEnableTrails = () => {
-        if (typeof window !== 'undefined' && (window as any).updateVisualSettings) {
-          (window as any).updateVisualSettings({
-            particleTrails: true,
-            trailCount: 75,
-            trailLength: 25,
-            trailColor: '#e6f3ff'
-          })
-          console.log('Forced trail enable - refresh the page to see changes')
-        } else {
-          console.log('Visual settings update function not available')
-        }
-      }
-
-
-    }
-  }, [visualSettings])
   
   const updateTrails = (currentPositions: Float32Array, trailLength: number, trailColor: string, trailCount: number) => {
     if (!visualSettings?.particleTrails || !trailsRef.current) {
@@ -640,22 +598,20 @@ function FloatingParticles({
     }
   }
   
-  // Performance optimization: reduce frame rate for physics calculations
-  const frameSkipCount = useRef(0)
   const [currentTime, setCurrentTime] = useState(0)
+  const trailReadbacks = useRef(0)
   
   // Advanced physics useFrame callback with flocking, trails, and dynamic sphere distortion
   useFrame((state, delta) => {
     if (pointsRef.current) {
-      // Update frame counter and time
-      frameSkipCount.current++
       setCurrentTime(state.clock.elapsedTime)
       
-      // Skip physics calculations on some frames for better performance
-      const skipPhysics = frameSkipCount.current % 2 === 0 // Run physics every other frame
-      
       const currentPositions = pointsRef.current.geometry.attributes.position.array as Float32Array
       
+      // Keep the spatial grid following the particles, a slice per frame
+      updateSpatialGrid(grid, currentPositions, gridCursor.current, gridCursor.current + GRID_UPDATES_PER_FRAME)
+      gridCursor.current = gridCursor.current + GRID_UPDATES_PER_FRAME >= particleCount ? 0 : gridCursor.current + GRID_UPDATES_PER_FRAME
+      
       // Physics settings from controls
       const gravity = visualSettings?.gravity || 0.0
       const velocityDamping = visualSettings?.velocityDamping || 0.99
@@ -675,322 +631,47 @@ function FloatingParticles({
       // Dynamic flock behavior parameters that vary over time for swarm-like behavior
       const timeVariation = Math.sin(time * 0.02) * 0.5 + 1.0 // 5-minute variation cycle
       const separationDistance = 0.8 + timeVariation * 0.4 // 0.8 to 1.2
-      const alignmentDistance = 2.0 + timeVariation * 1.0 // 2.0 to 3.0
-      const cohesionDistance = 3.0 + timeVariation * 1.0 // 3.0 to 4.0
       
       // Vary flocking strengths to create more organic, less uniform behavior
       const separationStrength = 0.002 + Math.sin(time * 0.03 + 1) * 0.001 // 0.001 to 0.003
-      const alignmentStrength = 0.0003 + Math.sin(time * 0.025 + 2) * 0.0002 // 0.0001 to 0.0005
-      const cohesionStrength = 0.0002 + Math.sin(time * 0.035 + 3) * 0.0002 // 0.0000 to 0.0004
       const noiseStrength = 0.001 + Math.sin(time * 0.04 + 4) * 0.002 // -0.001 to 0.003 (can be negative for variety)
       
-      // Apply physics to each particle (skip on some frames for performance)
-      if (!skipPhysics) {
-        for (let i = 0; i < particleCount; i++) {
-        const i3 = i * 3
-        
-        // Current position and velocity
-        let x = currentPositions[i3]
-        let y = currentPositions[i3 + 1]
-        let z = currentPositions[i3 + 2]
-        
-        let vx = velocities[i3]
-        let vy = velocities[i3 + 1]
-        let vz = velocities[i3 + 2]
-        
-        // Individual particle characteristics for varied behavior
-        const particleSeed = i * 0.001 // Unique seed for each particle
-        const speedMultiplier = 0.7 + Math.sin(particleSeed * 100) * 0.6 // 0.1 to 1.3 speed variation
-        const directionBias = {
-          x: Math.sin(particleSeed * 200) * 0.02,
-          y: Math.cos(particleSeed * 150) * 0.015,
-          z: Math.sin(particleSeed * 250) * 0.02
-        }
-        
-        // Apply individual direction bias for swarm-like behavior
-        vx += directionBias.x * speedMultiplier
-        vy += directionBias.y * speedMultiplier
-        vz += directionBias.z * speedMultiplier
-        
-          // Special behavior for trailed particles and hovered particles
-          const hasTrail = trailedParticleIndices.current.has(i)
-        const isHovered = hoveredIndex !== null && i === hoveredIndex
-          
-          if (hasTrail) {
-            // Trailed particles cycle through ascension and return phases
-            const time = state.clock.elapsedTime
-            const cycleTime = 120 // 2 minute cycle to prevent permanent disappearance
-            const cycleProgress = (time + i * 10) % cycleTime / cycleTime // Offset each particle's cycle
-            
-            if (cycleProgress < 0.7) {
-              // Ascension phase (70% of cycle)
-              const heavenDriftStrength = 0.03 * (1 + Math.sin(cycleProgress * Math.PI * 2) * 0.3)
-              const ascensionBoost = Math.sin(time * 0.3 + i * 0.05) * 0.015
-              vy += heavenDriftStrength * (1.2 + Math.sin(time * 0.5 + i * 0.1)) + ascensionBoost
-              
-              // Graceful spiral movement
-              const spiralRadius = 0.4 + Math.sin(time * 0.2 + i * 0.1) * 0.25
-              const spiralSpeed = time * 0.6 + i * 0.25
-              const spiralX = Math.sin(spiralSpeed) * spiralRadius * 0.015
-              const spiralZ = Math.cos(spiralSpeed) * spiralRadius * 0.015
-              
-              vx += spiralX
-              vz += spiralZ
-            } else {
-              // Return phase (30% of cycle) - gentle return to sphere
-              const returnStrength = 0.02 * (cycleProgress - 0.7) / 0.3 // Gradually increase return force
-              const centerDistance = Math.sqrt(x * x + y * y + z * z)
-              if (centerDistance > 0) {
-                vx -= (x / centerDistance) * returnStrength
-                vy -= (y / centerDistance) * returnStrength * 1.5 // Stronger downward return
-                vz -= (z / centerDistance) * returnStrength
-              }
-            }
-            
-            // Add gentle floating motion throughout cycle
-            const floatStrength = 0.008
-            vx += Math.sin(time * 1.1 + i * 0.4) * floatStrength
-            vz += Math.cos(time * 0.9 + i * 0.6) * floatStrength
-          }
-          
-        if (isHovered) {
-          // Dampen the hovered particle's movement for stability
-          vx *= 0.8
-          vy *= 0.8
-          vz *= 0.8
-        }
-        
-          // Simplified flocking behavior
-        let sepX = 0, sepY = 0, sepZ = 0
-          let sepCount = 0
-        
-          // Check nearby particles (reduced for performance)
-          const sampleSize = Math.min(20, particleCount)
-        const step = Math.max(1, Math.floor(particleCount / sampleSize))
-        
-        for (let j = 0; j < particleCount; j += step) {
-          if (i === j) continue
-          
-          const j3 = j * 3
-          const dx = currentPositions[j3] - x
-          const dy = currentPositions[j3 + 1] - y
-          const dz = currentPositions[j3 + 2] - z
-          const distance = Math.sqrt(dx * dx + dy * dy + dz * dz)
-          
-            if (distance > 0 && distance < separationDistance) {
-              sepX -= dx / distance
-              sepY -= dy / distance
-              sepZ -= dz / distance
-              sepCount++
-            }
-          }
-          
-          // Apply separation forces
-        if (sepCount > 0) {
-            const flockReduction = isHovered ? 0.2 : 1.0
-          vx += (sepX / sepCount) * separationStrength * flockReduction
-          vy += (sepY / sepCount) * separationStrength * flockReduction
-          vz += (sepZ / sepCount) * separationStrength * flockReduction
-        }
-        
-        // Add subtle noise for organic movement
-          const noiseTime = state.clock.elapsedTime
-          vx += Math.sin(noiseTime * 0.5 + i * 0.1) * noiseStrength
-          vy += Math.cos(noiseTime * 0.3 + i * 0.2) * noiseStrength
-          vz += Math.sin(noiseTime * 0.7 + i * 0.15) * noiseStrength
-        
-        // Force field effect: push particles away from hovered particle
-        if (hoveredIndex !== null && hoveredIndex !== i) {
-          const hoveredI3 = hoveredIndex * 3
-          const hoveredX = currentPositions[hoveredI3]
-          const hoveredY = currentPositions[hoveredI3 + 1]
-          const hoveredZ = currentPositions[hoveredI3 + 2]
-          
-          const dx = x - hoveredX
-          const dy = y - hoveredY
-          const dz = z - hoveredZ
-          const distance = Math.sqrt(dx * dx + dy * dy + dz * dz)
-          
-            const forceRadius = 4.0
-            const forceStrength = 0.15
-          
-          if (distance > 0 && distance < forceRadius) {
-            const nx = dx / distance
-            const ny = dy / distance
-            const nz = dz / distance
-            
-            const normalizedDistance = distance / forceRadius
-            const forceMagnitude = forceStrength * Math.pow(1 - normalizedDistance, 2)
-            
-            vx += nx * forceMagnitude
-            vy += ny * forceMagnitude
-            vz += nz * forceMagnitude
-          }
-        }
-        
-          // Apply gravity
-        vy -= gravity * delta
-        
-          // Apply dynamic sphere constraint with distortion
-          const sphereDistance = Math.sqrt(x * x + y * y + z * z)
-          if (sphereDistance > 0) {
-          let targetDistance = sphereRadius * sphereDistortion
-          
-            // Add complex noise-based distortion for highly organic, abstract shapes
-          if (sphereNoise > 0) {
-              // Multi-layered noise for complex organic forms
-              const noiseX1 = Math.sin(x * 0.08 + noiseTime * 0.4) * sphereNoise
-              const noiseY1 = Math.cos(y * 0.12 + noiseTime * 0.6) * sphereNoise
-              const noiseZ1 = Math.sin(z * 0.1 + noiseTime * 0.8) * sphereNoise
-              
-              // Second layer of noise for more complexity
-              const noiseX2 = Math.sin(x * 0.2 + noiseTime * 1.2 + i * 0.01) * sphereNoise * 0.5
-              const noiseY2 = Math.cos(y * 0.15 + noiseTime * 0.9 + i * 0.02) * sphereNoise * 0.5
-              const noiseZ2 = Math.sin(z * 0.18 + noiseTime * 1.1 + i * 0.015) * sphereNoise * 0.5
-              
-              // Combine noise layers for highly irregular surface
-            targetDistance += (noiseX1 + noiseY1 + noiseZ1) * 3.5 + (noiseX2 + noiseY2 + noiseZ2) * 2
-          }
-          
-          // Add complex pulsing effect for living, breathing appearance
-          if (spherePulse > 0) {
-              // Multi-frequency pulsing for organic, heart-like rhythm
-              const pulse1 = Math.sin(noiseTime * 1.8) * spherePulse
-              const pulse2 = Math.sin(noiseTime * 3.2 + i * 0.05) * spherePulse * 0.6
-              const pulse3 = Math.cos(noiseTime * 0.9 + x * 0.1) * spherePulse * 0.4
-              
-              // Combine pulses for complex breathing motion
-            targetDistance += (pulse1 + pulse2 + pulse3) * 4
-          }
-          
-            // Trailed particles can break free and ascend to heaven
-            if (hasTrail) {
-              // Much larger freedom for trailed particles
-              targetDistance *= 4.0 // Increased from 2.5
-              
-              // Add time-based expansion to simulate breaking free and ascending
-              const expansionFactor = 1 + Math.sin(noiseTime * 0.3 + i * 0.2) * 0.8
-              targetDistance *= expansionFactor
-              
-              // Allow unlimited upward movement (heaven-bound)
-              if (y > sphereRadius * 2) {
-                targetDistance = Math.max(targetDistance, Math.abs(y) * 1.5)
-              }
-            }
-            
-            const difference = targetDistance - sphereDistance
-            let constraintStrength = sphereStrength
-            if (hasTrail) {
-              constraintStrength *= 0.1 // Much weaker constraint for trailed particles (reduced from 0.3)
-            }
-            
-            const forceStrength = difference * constraintStrength
-            const constraintThreshold = hasTrail ? 3.0 : 0.1 // Much higher threshold for trailed particles
-            
-            if (Math.abs(difference) > constraintThreshold) {
-              const nx = x / sphereDistance
-              const ny = y / sphereDistance
-              const nz = z / sphereDistance
-          
-          vx += nx * forceStrength * delta
-          vy += ny * forceStrength * delta
-          vz += nz * forceStrength * delta
-            }
-        }
-        
-        // Mouse following behavior for selected particles
-        if (mouseFollowers.has(i)) {
-          const mouseX = mousePosition3D.current.x
-          const mouseY = mousePosition3D.current.y
-          const mouseZ = mousePosition3D.current.z
-          
-          const dx = mouseX - x
-          const dy = mouseY - y
-          const dz = mouseZ - z
-          const distance = Math.sqrt(dx * dx + dy * dy + dz * dz)
-          
-          if (distance > 0.5 && distance < mouseInfluenceRadius) {
-            // Gentle attraction to mouse with some randomness
-            const attractionStrength = 0.02 * (1 - distance / mouseInfluenceRadius)
-            const randomness = 0.005
-            
-            vx += (dx / distance) * attractionStrength + (Math.random() - 0.5) * randomness
-            vy += (dy / distance) * attractionStrength + (Math.random() - 0.5) * randomness
-            vz += (dz / distance) * attractionStrength + (Math.random() - 0.5) * randomness
-          }
-        }
-        
-        // Attraction point effects (click-based particle attraction)
-        attractionPoints.forEach(attraction => {
-          const elapsed = Date.now() - attraction.startTime
-          if (elapsed < attraction.duration) {
-            const dx = attraction.position.x - x
-            const dy = attraction.position.y - y
-            const dz = attraction.position.z - z
-            const distance = Math.sqrt(dx * dx + dy * dy + dz * dz)
-            
-            if (distance > 0.1 && distance < 10) {
-              // Fade strength over time
-              const fadeProgress = elapsed / attraction.duration
-              const currentStrength = attraction.strength * (1 - fadeProgress * fadeProgress)
-              const forceStrength = currentStrength / (distance * distance + 1) // Inverse square law with offset
-              
-              vx += (dx / distance) * forceStrength * 0.05
-              vy += (dy / distance) * forceStrength * 0.05
-              vz += (dz / distance) * forceStrength * 0.05
-            }
-          }
+      // Trailed particles, chosen as in updateTrails, break free and ascend
+      const trailCount = visualSettings?.trailCount || 75
+      const trailStep = visualSettings?.particleTrails ? Math.max(1, Math.floor(particleCount / trailCount)) : 0
+      
+      // Click attraction points fade out over their duration
+      const now = Date.now()
+      const attractions = attractionPoints
+        .filter(attraction => now - attraction.startTime < attraction.duration)
+        .map(attraction => {
+          const fadeProgress = (now - attraction.startTime) / attraction.duration
+          return { position: attraction.position, strength: attraction.strength * (1 - fadeProgress * fadeProgress) }
         })
-        
-        // Apply velocity damping with individual variation
-          const baseDampingFactor = hasTrail ? 0.98 : velocityDamping
-          const individualDamping = baseDampingFactor * (0.95 + Math.sin(particleSeed * 300) * 0.1) // 0.85 to 1.05 variation
-          vx *= individualDamping
-          vy *= individualDamping
-          vz *= individualDamping
-          
-          // Limit velocity for stability with individual variation
-          const baseMaxVelocity = hasTrail ? 0.3 : 0.1
-          const maxVelocity = baseMaxVelocity * speedMultiplier
-        const velocityMagnitude = Math.sqrt(vx * vx + vy * vy + vz * vz)
-        if (velocityMagnitude > maxVelocity) {
-          const scale = maxVelocity / velocityMagnitude
-          vx *= scale
-          vy *= scale
-          vz *= scale
-        }
-        
-          // Update positions with individual speed variation
-          const baseSpeedMultiplier = hasTrail ? 15 : 10
-          const finalSpeedMultiplier = baseSpeedMultiplier * speedMultiplier
-          x += vx * delta * finalSpeedMultiplier
-          y += vy * delta * finalSpeedMultiplier
-          z += vz * delta * finalSpeedMultiplier
-        
-        // Long-term stability: prevent particles from drifting too far from center
-        const maxDistance = sphereRadius * 3 // Allow particles to go 3x sphere radius
-        const currentDistance = Math.sqrt(x * x + y * y + z * z)
-        if (currentDistance > maxDistance) {
-          // Gently pull back towards center
-          const pullStrength = (currentDistance - maxDistance) / maxDistance * 0.1
-          x -= (x / currentDistance) * pullStrength
-          y -= (y / currentDistance) * pullStrength
-          z -= (z / currentDistance) * pullStrength
-        }
-        
-        // Store updated values
-        currentPositions[i3] = x
-        currentPositions[i3 + 1] = y
-        currentPositions[i3 + 2] = z
-        
-        velocities[i3] = vx
-        velocities[i3 + 1] = vy
-        velocities[i3 + 2] = vz
-        }
-      }
       
-      // Update geometry
-      pointsRef.current.geometry.attributes.position.needsUpdate = true
+      // Step the GPU simulation in free modes; formations hold their layout
+      if (!layout) {
+        physics.step(delta, {
+          time,
+          gravity,
+          velocityDamping,
+          sphereRadius,
+          sphereStrength,
+          sphereDistortion,
+          sphereNoise,
+          spherePulse,
+          separationDistance,
+          separationStrength,
+          noiseStrength,
+          hoveredIndex,
+          trailStep,
+          trailCount,
+          mousePosition: mousePosition3D.current,
+          mouseInfluenceRadius,
+          followers: mouseFollowers,
+          attractions
+        })
+      }
     
       // Update mouse position for particle following
       updateMouse3D()
@@ -1002,96 +683,56 @@ function FloatingParticles({
         const timeVariation = Math.sin(time * 0.01) * 0.5 + 1.0 // Vary count over time
         const numFollowers = Math.min(20, Math.floor(baseFollowerCount * timeVariation))
         
-        // Select particles with some bias towards those near the mouse
-        for (let i = 0; i < numFollowers; i++) {
-          let randomIndex
-          if (Math.random() < 0.3) {
-            // 30% chance to select particles closer to mouse position
-            const attempts = 5
-            let bestIndex = Math.floor(Math.random() * particleCount)
-            let bestDistance = Infinity
-            
-            for (let attempt = 0; attempt < attempts; attempt++) {
-              const testIndex = Math.floor(Math.random() * particleCount)
-              const testI3 = testIndex * 3
-              const dx = currentPositions[testI3] - mousePosition3D.current.x
-              const dy = currentPositions[testI3 + 1] - mousePosition3D.current.y
-              const dz = currentPositions[testI3 + 2] - mousePosition3D.current.z
-              const distance = Math.sqrt(dx * dx + dy * dy + dz * dz)
-              
-              if (distance < bestDistance) {
-                bestDistance = distance
-                bestIndex = testIndex
-              }
-            }
-            randomIndex = bestIndex
-          } else {
-            // 70% chance for completely random selection
-            randomIndex = Math.floor(Math.random() * particleCount)
-          }
-          newFollowers.add(randomIndex)
+        // 30% are the particles nearest the mouse, the rest random particles in view
+        const localMouse = pointsRef.current.worldToLocal(mousePosition3D.current.clone())
+        queryNearest(grid, localMouse, Math.round(numFollowers * 0.3), mouseInfluenceRadius).forEach(index => newFollowers.add(index))
+        
+        const frustum = new THREE.Frustum().setFromProjectionMatrix(
+          new THREE.Matrix4().multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse).multiply(pointsRef.current.matrixWorld)
+        )
+        const visible = queryFrustum(grid, frustum)
+        for (let attempt = 0; newFollowers.size < numFollowers && attempt < numFollowers * 2; attempt++) {
+          newFollowers.add(visible.length > 0 ? visible[Math.floor(Math.random() * visible.length)] : Math.floor(Math.random() * particleCount))
         }
         
         setMouseFollowers(newFollowers)
       }
     
-      // Update trails if enabled
-      if (visualSettings?.particleTrails) {
-      updateTrails(
-        currentPositions, 
-          visualSettings.trailLength || 25, 
-          visualSettings.trailColor || '#e6f3ff', 
-          visualSettings.trailCount || 75
-        )
+      // Update trails whenever fresh simulated positions arrive
+      if (visualSettings?.particleTrails && !layout && !morphing.current) {
+        if (physics.readbacks.current !== trailReadbacks.current) {
+          trailReadbacks.current = physics.readbacks.current
+          updateTrails(
+            currentPositions,
+            visualSettings.trailLength || 25,
+            visualSettings.trailColor || '#e6f3ff',
+            trailCount
+          )
+        }
+      } else if ((layout || morphing.current) && trailHistoryRef.current.length > 0) {
+        // Formations hold still and morphs jump the simulated positions; drop the trails
+        trailsRef.current?.clear()
+        trailHistoryRef.current = []
+        trailedParticleIndices.current.clear()
       }
     
-                  // Hover detection using raycasting for immediate red color feedback
-      if (!isAutoPlaying && !focusedPerson) {
-        raycaster.setFromCamera(mouse, camera)
-        const intersects = raycaster.intersectObject(pointsRef.current)
-
-        if (intersects.length > 0) {
-          const intersection = intersects[0]
-          if (intersection.index !== undefined) {
-            // Check distance threshold - only allow hover on particles within reasonable distance
-            const maxHoverDistance = 20 // Maximum distance for hover detection (increased for better responsiveness)
-            const particleDistance = intersection.distance
-            
-            if (particleDistance <= maxHoverDistance) {
-              const newCandidate = intersection.index
-            
-            // Set hover immediately for instant red color feedback
-            if (newCandidate !== lastHovered) {
-              setLastHovered(newCandidate)
-              setHoveredIndex(newCandidate)
-              
-              // Only auto-focus camera during memorial playback, not in free-flow mode
-              // In free-flow mode, just show the hover effect without camera movement
-            }
-      } else {
-              // Particle is too far - no hover
-              if (lastHovered !== null) {
-                setLastHovered(null)
+      // Hover detection from the picking pass for immediate red color feedback
+      if (morphing.current) {
+        // Particles in flight are drawn away from their simulated positions; hover resumes when they land
+        if (lastHovered !== null) {
+          setLastHovered(null)
           setHoveredIndex(null)
-              }
-            }
-        }
-      } else {
-          // Clear hover immediately when not intersecting any particle
-          if (lastHovered !== null) {
-            setLastHovered(null)
-          setHoveredIndex(null)
-            // No camera reset in free-flow mode - let user control camera freely
-          }
         }
+      } else if (!isAutoPlaying && !focusedPerson && picked.current !== lastHovered) {
+        // In free-flow mode, just show the hover effect without camera movement
+        setLastHovered(picked.current)
+        setHoveredIndex(picked.current)
       }
     }
   })
   
   // Mouse interaction and particle selection
-  const handleClick = (event: any) => {
-    event.stopPropagation?.()
-    
+  const handleClick = () => {
     // Only allow particle clicks when not in auto-playback mode
     if (!focusedPerson && hoveredIndex !== null && hoveredIndex < data.length) {
       onParticleClick(data[hoveredIndex], hoveredIndex)
@@ -1099,36 +740,49 @@ function FloatingParticles({
   }
   
   // Mouse press handlers for attraction effects
-  const handleMouseDown = (event: any) => {
-    event.stopPropagation?.()
+  const handleMouseDown = () => {
+    // Presses only attract particles when they land on one
+    if (hoveredIndex === null) return
     setIsMousePressed(true)
     
-    // Create attraction point at mouse position
-    if (camera && mouse) {
-      raycaster.setFromCamera(mouse, camera)
-      const distance = 12
-      const attractionPos = new THREE.Vector3()
-      attractionPos.copy(raycaster.ray.direction).multiplyScalar(distance).add(raycaster.ray.origin)
-      
-      const newAttraction = {
-        position: attractionPos,
-        strength: 0.8,
-        startTime: Date.now(),
-        duration: 3000 // 3 seconds
-      }
-      
-      setAttractionPoints(prev => [...prev, newAttraction])
-      
-      // Remove attraction point after duration
-      setTimeout(() => {
-        setAttractionPoints(prev => prev.filter(p => p !== newAttraction))
-      }, newAttraction.duration)
+    // Create attraction point at the pressed particle, where the spatial grid last saw it
+    const newAttraction = {
+      position: new THREE.Vector3().fromArray(grid.positions, hoveredIndex * 3),
+      strength: 0.8,
+      startTime: Date.now(),
+      duration: 3000 // 3 seconds
     }
+    
+    setAttractionPoints(prev => [...prev, newAttraction])
+    
+    // Remove attraction point after duration
+    setTimeout(() => {
+      setAttractionPoints(prev => prev.filter(p => p !== newAttraction))
+    }, newAttraction.duration)
   }
   
   const handleMouseUp = () => {
     setIsMousePressed(false)
   }
+
+  // The points are picked by `useParticlePicker`, not raycast by R3F events, so
+  // presses and clicks are taken from the canvas itself
+  const pointerHandlers = useRef({ handleClick, handleMouseDown, handleMouseUp })
+  pointerHandlers.current = { handleClick, handleMouseDown, handleMouseUp }
+  useEffect(() => {
+    const canvas = gl.domElement
+    const onClick = () => pointerHandlers.current.handleClick()
+    const onPointerDown = () => pointerHandlers.current.handleMouseDown()
+    const onPointerUp = () => pointerHandlers.current.handleMouseUp()
+    canvas.addEventListener('click', onClick)
+    canvas.addEventListener('pointerdown', onPointerDown)
+    canvas.addEventListener('pointerup', onPointerUp)
+    return () => {
+      canvas.removeEventListener('click', onClick)
+      canvas.removeEventListener('pointerdown', onPointerDown)
+      canvas.removeEventListener('pointerup', onPointerUp)
+    }
+  }, [gl])
   
   // Update mouse position in 3D space for particle following
   const updateMouse3D = () => {
@@ -1146,12 +800,12 @@ function FloatingParticles({
         {/* Trail lines will be added here dynamically */}
       </group>
       
+      {/* Axis titles, group names and counts of the current formation */}
+      {layout && layout.labels.length > 0 && <LayoutLabels labels={layout.labels} />}
+
       {/* Main particles */}
       <points 
         ref={pointsRef} 
-        onClick={handleClick}
-        onPointerDown={handleMouseDown}
-        onPointerUp={handleMouseUp}
         geometry={geometry}
       >
         <particleMaterial
@@ -1165,6 +819,7 @@ function FloatingParticles({
           glowIntensity={visualSettings?.glowIntensity || 1.0}
           shaderMode={visualSettings?.shaderMode || 0}
           filterTransitionTime={0.0}
+          revealThreshold={revealThreshold}
 
           transparent={true}
           blending={THREE.NormalBlending}
@@ -1185,7 +840,10 @@ function MemorialScene({
   onParticlePositions,
   visualSettings,
   focusedIndex,
-  filteredData
+  filteredData,
+  particleIndices,
+  stats,
+  onSpatialGrid
 }: { 
   data: Casualty[]
   onParticleClick: (person: Casualty, index: number) => void
@@ -1212,16 +870,25 @@ function MemorialScene({
   }
   focusedIndex?: number | null
   filteredData: Casualty[]
+  particleIndices?: Float32Array
+  stats?: MemorialStats
+  onSpatialGrid?: (grid: SpatialGrid) => void
 }) {
   const groupRef = useRef<THREE.Group>(null!)
-  const { isAutoPlaying } = useStore()
+  const { isAutoPlaying, mode } = useStore()
   
   console.log('MemorialScene render - data length:', data.length)
   
-  useFrame((state) => {
-    // Slow rotation of the entire scene (only when not auto-playing and enabled)
-    if (groupRef.current && !isAutoPlaying && visualSettings?.enableSceneRotation) {
-      groupRef.current.rotation.y = state.clock.elapsedTime * 0.05
+  useFrame((state, delta) => {
+    if (!groupRef.current) return
+    if (isFormationMode(mode)) {
+      // Formations are read head-on; turn back to the nearest full rotation
+      const rotation = groupRef.current.rotation.y
+      const facing = Math.round(rotation / (Math.PI * 2)) * Math.PI * 2
+      groupRef.current.rotation.y += (facing - rotation) * (1 - Math.exp(-delta * FORMATION_EASE_RATE))
+    } else if (!isAutoPlaying && visualSettings?.enableSceneRotation) {
+      // Slow rotation of the entire scene (only when not auto-playing and enabled)
+      groupRef.current.rotation.y += delta * 0.05
     }
   })
   
@@ -1250,8 +917,12 @@ function MemorialScene({
         visualSettings={visualSettings}
         focusedIndex={focusedIndex}
         filteredData={filteredData}
+        particleIndices={particleIndices}
+        onSpatialGrid={onSpatialGrid}
       />
       
+      {/* Governorate outlines behind the map layout */}
+      {mode === 'map' && <GovernorateMap data={filteredData} stats={stats} />}
       
       {/* Central memorial light */}
       {/* Central memorial light - hidden for cleaner appearance */}
@@ -1281,19 +952,24 @@ function MemorialScene({
 export default function SceneCanvas() {
   const [data, setData] = useState<Casualty[]>([])
   const [dataInfo, setDataInfo] = useState<DataInfo | null>(null)
+  const [datasetLoad, setDatasetLoad] = useState<DatasetLoad | null>(null)
+  const [filterResult, setFilterResult] = useState<FilterResult | null>(null)
+  const [datasetStats, setDatasetStats] = useState<DatasetStats | null>(null)
+  const dataServiceRef = useRef<DataService | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [loadingProgress, setLoadingProgress] = useState<string>('Initializing...')
   const [backgroundLoading, setBackgroundLoading] = useState(false)
-  const [westBankData, setWestBankData] = useState<any[]>([])
+  const [westBankData, setWestBankData] = useState<WestBankCasualties[]>([])
   const [showWestBankHistory, setShowWestBankHistory] = useState(false)
-  const [infrastructureData, setInfrastructureData] = useState<any[]>([])
+  const [infrastructureData, setInfrastructureData] = useState<InfrastructureDamage[]>([])
   const [showInfrastructureDetails, setShowInfrastructureDetails] = useState(false)
-  const [gazaDailyData, setGazaDailyData] = useState<any[]>([])
-  const [loadingStartTime, setLoadingStartTime] = useState<number>(0)
+  const [gazaDailyData, setGazaDailyData] = useState<DailyCasualties[]>([])
   const [selectedPerson, setSelectedPerson] = useState<Casualty | null>(null)
   const [hoveredIndex, setHoveredIndex] = useState<number | null>(null)
   const [particlePositions, setParticlePositions] = useState<Float32Array | null>(null)
+  const [spatialGrid, setSpatialGrid] = useState<SpatialGrid | null>(null)
+  const [showNeighbors, setShowNeighbors] = useState(false)
   
   // Audio settings
   const [audioSettings, setAudioSettings] = useState({
@@ -1302,130 +978,6 @@ export default function SceneCanvas() {
     musicVolume: 0.3
   })
 
-  // Debug functions - available immediately
-  const loadWestBankDataOnly = async () => {
-    console.log('🔄 Loading West Bank data only...')
-    try {
-      const response = await fetch('https://data.techforpalestine.org/api/v2/west_bank_daily.json')
-      if (response.ok) {
-        const wbData = await response.json()
-        setWestBankData(wbData)
-        console.log(`✅ Loaded ${wbData.length} West Bank records`)
-        return wbData
-      } else {
-        console.log(`❌ Failed to load West Bank data: ${response.status}`)
-      }
-    } catch (error) {
-      console.log(`❌ Error loading West Bank data: ${error}`)
-    }
-  }
-
-  const loadInfrastructureDataOnly = async () => {
-    console.log('🏗️ Loading Infrastructure data only...')
-    try {
-      const response = await fetch('https://data.techforpalestine.org/api/v3/infrastructure-damaged.json')
-      if (response.ok) {
-        const infraData = await response.json()
-        setInfrastructureData(infraData)
-        console.log(`✅ Loaded ${infraData.length} Infrastructure records`)
-
-        // Show summary of latest data
-        const latest = infraData[infraData.length - 1]
-        console.log('🏗️ Latest Infrastructure Damage Summary:')
-        console.log(`   Schools Destroyed: ${latest?.educational_buildings?.ext_destroyed || latest?.educational_buildings?.destroyed || 0}`)
-        console.log(`   Schools Damaged: ${latest?.educational_buildings?.ext_damaged || latest?.educational_buildings?.damaged || 0}`)
-        console.log(`   Mosques Destroyed: ${latest?.places_of_worship?.ext_mosques_destroyed || latest?.places_of_worship?.mosques_destroyed || 0}`)
-        console.log(`   Homes Destroyed: ${latest?.residential?.ext_destroyed || latest?.residential?.destroyed || 0}`)
-
-        return infraData
-      } else {
-        console.log(`❌ Failed to load Infrastructure data: ${response.status}`)
-      }
-    } catch (error) {
-      console.log(`❌ Error loading Infrastructure data: ${error}`)
-    }
-  }
-
-  const loadPreviewDataNow = async () => {
-    console.log('🔄 Loading preview data manually...')
-
-    try {
-      // Load West Bank data
-      console.log('Loading West Bank data...')
-      const wbResponse = await fetch('https://data.techforpalestine.org/api/v2/west_bank_daily.json')
-      if (wbResponse.ok) {
-        const wbData = await wbResponse.json()
-        setWestBankData(wbData)
-        console.log(`✅ West Bank: ${wbData.length} records loaded`)
-      }
-
-      // Load Infrastructure data
-      console.log('Loading Infrastructure data...')
-      const infraResponse = await fetch('https://data.techforpalestine.org/api/v3/infrastructure-damaged.json')
-      if (infraResponse.ok) {
-        const infraData = await infraResponse.json()
-        setInfrastructureData(infraData)
-        console.log(`✅ Infrastructure: ${infraData.length} records loaded`)
-      }
-
-      console.log('🎉 Preview data loading complete!')
-    } catch (error) {
-      console.error('❌ Error loading preview data:', error)
-    }
-  }
-
-  const testAPIsNow = async () => {
-    console.log('🧪 Testing API connectivity...')
-    const apis = [
-      'https://data.techforpalestine.org/api/v2/killed-in-gaza.min.json',
-      'https://data.techforpalestine.org/api/v2/casualties_daily.min.json',
-      'https://data.techforpalestine.org/api/v2/press_killed_in_gaza.json',
-      'https://data.techforpalestine.org/api/v2/west_bank_daily.json',
-      'https://data.techforpalestine.org/api/v3/infrastructure-damaged.json'
-    ]
-
-    for (const api of apis) {
-      try {
-        console.log(`Testing ${api}...`)
-        const response = await fetch(api, { method: 'HEAD' })
-        console.log(`✅ ${api}: ${response.status} ${response.statusText}`)
-      } catch (error) {
-        console.log(`❌ ${api}: Failed - ${error}`)
-      }
-    }
-    console.log('🧪 API test complete')
-  }
-
-  const testCSVNow = async () => {
-    console.log('🧪 Testing CSV fallback functionality...')
-    const csvFiles = [
-      'killed-in-gaza.csv',
-      'casualties_daily.csv',
-      'press_killed_in_gaza.csv',
-      'west_bank_daily.csv',
-      'infrastructure-damaged.csv'
-    ]
-
-    for (const csvFile of csvFiles) {
-      try {
-        console.log(`Testing CSV: ${csvFile}...`)
-        const response = await fetch(`/${csvFile}`)
-        if (response.ok) {
-          const text = await response.text()
-          const lines = text.trim().split('\n')
-          console.log(`✅ ${csvFile}: ${lines.length} lines loaded`)
-        } else {
-          console.log(`❌ ${csvFile}: ${response.status} ${response.statusText}`)
-        }
-      } catch (error) {
-        console.log(`❌ ${csvFile}: Failed - ${error}`)
-      }
-    }
-    console.log('🧪 CSV test complete')
-  }
-
-
-  
   // Background music ref
   const backgroundMusicRef = useRef<HTMLAudioElement | null>(null)
   
@@ -1464,247 +1016,132 @@ export default function SceneCanvas() {
     glowIntensity: 1.0, // Enhanced glow for ethereal effect
     colorTemperature: 0.7, // Color temperature for warm/cool effects (0 to 1 range)
     shaderMode: 0, // 0=default, 1=ethereal, 2=cosmic, 3=aurora, 4=plasma
+    // Layout transitions
+    morphDuration: 1.6, // Seconds for particles to reach a new layout
+    morphEasing: 'cubic' as MorphEasing,
+    morphStagger: 0.4, // Share of the transition over which departures are spread
     // Canvas shader effects removed for better performance
   })
 
-  const { filters, setCameraTarget, setFocusedPerson, setFocusedParticleIndex, isAutoPlaying, focusedParticleIndex } = useStore()
+  const { filters, setCameraTarget, setFocusedPerson, setFocusedParticleIndex, isAutoPlaying, focusedParticleIndex, mode } = useStore()
 
-  const filteredData = useMemo(() => {
-    // Performance optimization: early return if no filters applied
-    if (filters.gender === 'all' && 
-        filters.source === 'all' && 
-        filters.type === 'all' && 
-        filters.ageRange[0] === 0 && 
-        filters.ageRange[1] === 120 && 
-        filters.nameSearch.trim() === '') {
-      return data
+  // Loading and filtering run in the data worker; created on first use, stopped on unmount
+  const getDataService = () => {
+    if (!dataServiceRef.current) dataServiceRef.current = createDataService()
+    return dataServiceRef.current
+  }
+
+  useEffect(() => () => {
+    dataServiceRef.current?.terminate()
+    dataServiceRef.current = null
+  }, [])
+
+  useEffect(() => {
+    if (data.length === 0) return
+    let cancelled = false
+    getDataService()
+      .filter(filters)
+      .then(result => {
+        if (!cancelled) setFilterResult(result)
+      })
+      .catch(error => console.error('❌ Filtering failed:', error))
+    return () => {
+      cancelled = true
     }
-    
-    const result = data.filter(d => {
-      // Early exit optimizations - check cheapest conditions first
-      if (filters.gender !== 'all' && d.gender !== filters.gender) return false
-      if (filters.type !== 'all' && d.type !== filters.type) return false
-      if (filters.source !== 'all' && d.source !== filters.source) return false
-      if (d.age < filters.ageRange[0] || d.age > filters.ageRange[1]) return false
-      
-      // Name search (most expensive, do last)
-      if (filters.nameSearch.trim() !== '') {
-        const searchLower = filters.nameSearch.toLowerCase()
-        if (!d.name_en.toLowerCase().includes(searchLower) && 
-            !d.name_ar.includes(filters.nameSearch)) {
-          return false
-        }
-      }
-      
-      return true
-    })
-    return result
   }, [data, filters])
 
+  const filteredData = useMemo(() => {
+    // Until the worker answers, show every record
+    if (!filterResult) return data
+    return Array.from(filterResult.indices, position => data[position]).filter(Boolean)
+  }, [data, filterResult])
+
+  // Single source of truth for every displayed memorial total
+  const memorialTotal = dataInfo?.memorialTotal ?? data.length
+
+  // Latest day of the series shown on the loading screen cards
+  const latestDays = useMemo(() => {
+    const series = { daily: gazaDailyData, westBank: westBankData, infrastructure: infrastructureData }
+    const latest = (id: TimeSeriesId): TimeSeriesPoint | undefined => buildTimeSeries(id, series).points.slice(-1)[0]
+    return {
+      gazaKilled: latest('gaza.killed'),
+      gazaInjured: latest('gaza.injured'),
+      westBankKilled: latest('west_bank.killed'),
+      westBankInjured: latest('west_bank.injured')
+    }
+  }, [gazaDailyData, westBankData, infrastructureData])
+
+  // Reported cumulative deaths, shown against the timeline scrubber
+  const reportedKilled = useMemo(() => {
+    const series = { daily: gazaDailyData, westBank: westBankData, infrastructure: infrastructureData }
+    return [buildTimeSeries('gaza.killed', series), buildTimeSeries('west_bank.killed', series)]
+  }, [gazaDailyData, westBankData, infrastructureData])
+
+  // Clicking a constellation in the family layout lists everyone in it
+  const familyMembers = useMemo(() => {
+    if (mode !== 'family' || !selectedPerson?.family_name) return []
+    const members = filteredData.filter(person => person.family_name === selectedPerson.family_name)
+    return members.length >= FAMILY_MIN_SIZE ? members : []
+  }, [mode, selectedPerson, filteredData])
+
+  // The people drawn closest to the selected person in the current layout
+  const neighbors = useMemo(() => {
+    if (!showNeighbors || !spatialGrid || !selectedPerson) return []
+    const index = filteredData.indexOf(selectedPerson)
+    if (index < 0 || index >= spatialGrid.count) return []
+    const center = new THREE.Vector3().fromArray(spatialGrid.positions, index * 3)
+    return queryNearest(spatialGrid, center, NEIGHBOR_COUNT, Infinity, index).map(i => filteredData[i])
+  }, [showNeighbors, spatialGrid, selectedPerson, filteredData])
+
+  // Shows a dataset from the data service: loading cards, particles and sidebar counts
+  const applyDataset = (load: DatasetLoad) => {
+    const { dataInfo } = load
+    // Daily updates for the loading cards arrive with the same server payload
+    setGazaDailyData(dataInfo.daily)
+    setWestBankData(dataInfo.westBank)
+    setInfrastructureData(dataInfo.infrastructure)
+    setData(dataInfo.casualties)
+    // Its positions index the previous dataset; show every record until the new filter answers
+    setFilterResult(null)
+    setDataInfo(dataInfo)
+    setDatasetLoad(load)
+    getDataService().stats().then(setDatasetStats).catch(error => console.error('❌ Dataset stats failed:', error))
+  }
+
     const fetchData = async () => {
     setLoading(true)
     setError(null)
     setLoadingProgress('Initializing memorial space...')
-    
-    // Record loading start time for minimum 5-second display
-    const startTime = Date.now()
-    setLoadingStartTime(startTime)
 
       try {
         console.log('SceneCanvas: Starting data fetch...')
 
-      // Set up fallback timeout
-      const fallbackTimeout = setTimeout(() => {
-        console.log('⏰ 15-second timeout reached, falling back to CSV data...')
-        loadCSVFallbackData()
-      }, 15000)
-
-      // First, try to load preview data quickly for display during loading
-      setLoadingProgress('Loading daily updates from Gaza, West Bank, and infrastructure...')
-      console.log('🔄 Starting preview data loading...')
-
-      try {
-        const [gazaDailyResponse, westBankResponse, infrastructureResponse] = await Promise.allSettled([
-          fetch('https://data.techforpalestine.org/api/v2/casualties_daily.json'),
-          fetch('https://data.techforpalestine.org/api/v2/west_bank_daily.json'),
-          fetch('https://data.techforpalestine.org/api/v3/infrastructure-damaged.json')
-        ])
-
-        console.log('Gaza Daily response:', gazaDailyResponse)
-        console.log('West Bank response:', westBankResponse)
-        console.log('Infrastructure response:', infrastructureResponse)
-
-        if (gazaDailyResponse.status === 'fulfilled' && gazaDailyResponse.value.ok) {
-          const gazaData = await gazaDailyResponse.value.json()
-          console.log('✅ Gaza Daily data loaded:', gazaData.length, 'records')
-          console.log('Sample Gaza Daily data:', gazaData[gazaData.length - 1])
-          setGazaDailyData(gazaData)
-        } else {
-          console.error('❌ Gaza Daily API failed:', gazaDailyResponse)
-        }
-
-        console.log('West Bank response:', westBankResponse)
-        console.log('Infrastructure response:', infrastructureResponse)
-
-        if (westBankResponse.status === 'fulfilled' && westBankResponse.value.ok) {
-          const wbData = await westBankResponse.value.json()
-          console.log('✅ West Bank data loaded:', wbData.length, 'records')
-          console.log('Sample West Bank data:', wbData[wbData.length - 1])
-          setWestBankData(wbData)
-        } else {
-          console.error('❌ West Bank API failed:', westBankResponse)
-        }
-
-        if (infrastructureResponse.status === 'fulfilled' && infrastructureResponse.value.ok) {
-          const infraData = await infrastructureResponse.value.json()
-          console.log('✅ Infrastructure data loaded:', infraData.length, 'records')
-          console.log('Sample Infrastructure data:', infraData[infraData.length - 1])
-          setInfrastructureData(infraData)
-        } else {
-          console.error('❌ Infrastructure API failed:', infrastructureResponse)
-        }
-      } catch (previewError) {
-        console.error('🚨 Preview data loading error:', previewError)
-      }
-
-      setLoadingProgress('Loading memorial data from Tech for Palestine APIs...')
-
-        const dataResult = await loadData()
-        console.log('SceneCanvas: Data loaded successfully:', dataResult.casualties.length, 'records')
+      setLoadingProgress('Loading memorial data...')
 
-      // Clear the fallback timeout since we succeeded
-      clearTimeout(fallbackTimeout)
+        // Answers from the browser cache when it can; newer data arrives through onUpdate
+        const result = await getDataService().load()
+        console.log('SceneCanvas: Data loaded successfully:', result.dataInfo.casualties.length, 'records', result.cachedAt ? '(cached)' : '')
 
       setLoadingProgress('Processing memorial data...')
-        setData(dataResult.casualties)
-        setDataInfo(dataResult)
+        applyDataset(result)
         setError(null)
       
-      // Ensure minimum 5-second loading time for users to see data sources and daily updates
-      const elapsedTime = Date.now() - startTime
-      const minimumLoadingTime = 5000 // 5 seconds
-      const remainingTime = minimumLoadingTime - elapsedTime
-      
-      if (remainingTime > 0) {
-        setLoadingProgress('Preparing memorial visualization...')
-        console.log(`⏰ Waiting ${remainingTime}ms more to meet minimum loading time`)
-        await new Promise(resolve => setTimeout(resolve, remainingTime))
-      }
-      
       setLoadingProgress('Gaza Souls Memorial space ready')
       } catch (err) {
         console.error('SceneCanvas: Error loading data:', err)
       setError(err instanceof Error ? err.message : 'Unknown error occurred while loading data')
       setLoadingProgress('Failed to load data - using fallback')
-      
-      // Still enforce minimum loading time even on error
-      const elapsedTime = Date.now() - startTime
-      const minimumLoadingTime = 5000
-      const remainingTime = minimumLoadingTime - elapsedTime
-      
-      if (remainingTime > 0) {
-        console.log(`⏰ Waiting ${remainingTime}ms more even after error`)
-        await new Promise(resolve => setTimeout(resolve, remainingTime))
-      }
       } finally {
         console.log('SceneCanvas: Setting loading to false')
         setLoading(false)
       }
     }
-    
-  // Make functions globally available after fetchData is declared
-  if (typeof window !== 'undefined') {
-    ;(window as any).loadPreviewData = loadPreviewDataNow
-    ;(window as any).loadWestBankOnly = loadWestBankDataOnly
-    ;(window as any).loadInfrastructureOnly = loadInfrastructureDataOnly
-    ;(window as any).testAPIs = testAPIsNow
-    ;(window as any).testCSV = testCSVNow
-    ;(window as any).retryDataLoad = fetchData
-
-    console.log('🔧 Debug functions loaded! Available commands:')
-    console.log('   loadPreviewData() - Load both datasets')
-    console.log('   loadWestBankOnly() - Load West Bank data only')
-    console.log('   loadInfrastructureOnly() - Load infrastructure data only')
-    console.log('   testAPIs() - Test API connectivity')
-    console.log('   testCSV() - Test CSV file access')
-    console.log('   retryDataLoad() - Retry full data loading')
-  }
-
-  const loadCSVFallbackData = async () => {
-    console.log('🔄 Loading CSV fallback data...')
-    setLoadingProgress('Loading backup data from CSV files...')
-
-    try {
-      // Load West Bank CSV data
-      const wbCSVResponse = await fetch('/west_bank_daily.csv')
-      if (wbCSVResponse.ok) {
-        const wbCSVText = await wbCSVResponse.text()
-        const wbLines = wbCSVText.trim().split('\n')
-        const wbHeaders = wbLines[0].split(',')
-        const wbData = []
-
-        for (let i = 1; i < wbLines.length; i++) {
-          const values = wbLines[i].split(',')
-          const row: any = {}
-          wbHeaders.forEach((header, index) => {
-            const value = values[index]?.trim() || ''
-            const numValue = parseFloat(value)
-            row[header] = isNaN(numValue) ? value : numValue
-          })
-          wbData.push(row)
-        }
-
-        console.log(`✅ Loaded ${wbData.length} West Bank records from CSV`)
-        setWestBankData(wbData)
-      }
 
-      // Load Infrastructure CSV data
-      const infraCSVResponse = await fetch('/infrastructure-damaged.csv')
-      if (infraCSVResponse.ok) {
-        const infraCSVText = await infraCSVResponse.text()
-        const infraLines = infraCSVText.trim().split('\n')
-        const infraHeaders = infraLines[0].split(',')
-        const infraData = []
-
-        for (let i = 1; i < infraLines.length; i++) {
-          const values = infraLines[i].split(',')
-          const row: any = {}
-
-          infraHeaders.forEach((header, index) => {
-            const value = values[index]?.trim() || ''
-            const numValue = parseFloat(value)
-            row[header] = isNaN(numValue) ? value : numValue
-          })
-
-          // Convert flattened CSV back to nested structure
-          const infraRecord = {
-            report_date: row.report_date,
-            educational_buildings: {
-              destroyed: row.schools_destroyed,
-              damaged: row.schools_damaged
-            },
-            places_of_worship: {
-              mosques_destroyed: row.mosques_destroyed
-            },
-            residential: {
-              destroyed: row.homes_destroyed
-            }
-          }
-
-          infraData.push(infraRecord)
-        }
-
-        console.log(`✅ Loaded ${infraData.length} Infrastructure records from CSV`)
-        setInfrastructureData(infraData)
-      }
-
-      setLoadingProgress('Backup data loaded successfully!')
-      console.log('🎉 CSV fallback loading complete!')
-    } catch (error) {
-      console.error('❌ CSV fallback loading failed:', error)
-      setLoadingProgress('Failed to load backup data')
-    }
-  }
+  // Newer data found while revalidating the cache replaces the scene without a reload
+  useEffect(() => getDataService().onUpdate(update => {
+    console.log(`🔄 Memorial dataset updated: ${update.dataInfo.totalCount} souls`)
+    applyDataset(update)
+  }), [])
     
   useEffect(() => {
     fetchData()
@@ -1959,14 +1396,14 @@ export default function SceneCanvas() {
                         <div className="text-gray-300 text-xs mb-3 font-mono">Latest Update: {latest?.report_date}</div>
                         <div className="grid grid-cols-2 gap-4">
                           <div className="text-center">
-                            <div className="text-2xl font-bold text-red-400 font-mono">{latest?.killed_cum?.toLocaleString() || 0}</div>
+                            <div className="text-2xl font-bold text-red-400 font-mono">{latestDays.gazaKilled?.cumulative.toLocaleString() || 0}</div>
                             <div className="text-xs text-gray-400">Total Killed</div>
-                            <div className="text-xs text-red-300 font-mono">+{latest?.killed || 0} today</div>
+                            <div className="text-xs text-red-300 font-mono">+{latestDays.gazaKilled?.delta || 0} today</div>
                           </div>
                           <div className="text-center">
-                            <div className="text-2xl font-bold text-orange-400 font-mono">{latest?.injured_cum?.toLocaleString() || 0}</div>
+                            <div className="text-2xl font-bold text-orange-400 font-mono">{latestDays.gazaInjured?.cumulative.toLocaleString() || 0}</div>
                             <div className="text-xs text-gray-400">Total Injured</div>
-                            <div className="text-xs text-orange-300 font-mono">+{latest?.injured || 0} today</div>
+                            <div className="text-xs text-orange-300 font-mono">+{latestDays.gazaInjured?.delta || 0} today</div>
                           </div>
                         </div>
                       </div>
@@ -2006,14 +1443,14 @@ export default function SceneCanvas() {
                         <div className="text-gray-300 text-xs mb-3 font-medium">Latest Update: {latest?.report_date}</div>
                         <div className="grid grid-cols-2 gap-3">
                           <div className="text-center">
-                            <div className="text-2xl font-bold text-red-400">{latest?.killed_cum || 0}</div>
+                            <div className="text-2xl font-bold text-red-400">{latestDays.westBankKilled?.cumulative || 0}</div>
                             <div className="text-xs text-gray-400">Total Killed</div>
-                            <div className="text-xs text-red-300">+{latest?.killed || 0} today</div>
+                            <div className="text-xs text-red-300">+{latestDays.westBankKilled?.delta || 0} today</div>
                           </div>
                           <div className="text-center">
-                            <div className="text-2xl font-bold text-orange-400">{latest?.injured_cum || 0}</div>
+                            <div className="text-2xl font-bold text-orange-400">{latestDays.westBankInjured?.cumulative || 0}</div>
                             <div className="text-xs text-gray-400">Total Injured</div>
-                            <div className="text-xs text-orange-300">+{latest?.injured || 0} today</div>
+                            <div className="text-xs text-orange-300">+{latestDays.westBankInjured?.delta || 0} today</div>
                           </div>
                         </div>
                         <div className="mt-3 pt-3 border-t border-gray-700/50">
@@ -2033,7 +1470,7 @@ export default function SceneCanvas() {
                   {/* History View */}
                   {showWestBankHistory && (
                     <div className="mt-4 max-h-40 overflow-y-auto space-y-2 bg-gray-900/50 rounded-lg p-2">
-                      {westBankData.slice(-6).reverse().map((day: any, index: number) => (
+                      {westBankData.slice(-6).reverse().map((day, index) => (
                         <div key={index} className="flex justify-between text-xs bg-gray-800/50 rounded px-3 py-2 hover:bg-gray-700/50 transition-colors">
                           <span className="text-gray-400 font-mono">{day.report_date}</span>
                           <div className="flex gap-3">
@@ -2106,7 +1543,7 @@ export default function SceneCanvas() {
                   {/* Detailed View */}
                   {showInfrastructureDetails && (
                     <div className="mt-4 max-h-40 overflow-y-auto space-y-2 bg-gray-900/50 rounded-lg p-2">
-                      {infrastructureData.slice(-5).reverse().map((day: any, index: number) => (
+                      {infrastructureData.slice(-5).reverse().map((day, index) => (
                         <div key={index} className="text-xs bg-gray-800/50 rounded px-3 py-2 hover:bg-gray-700/50 transition-colors">
                           <div className="text-gray-400 mb-2 font-mono">{day.report_date}</div>
                           <div className="grid grid-cols-2 gap-2">
@@ -2138,7 +1575,7 @@ export default function SceneCanvas() {
               <button
                 onClick={() => {
                   console.log('🔄 Manual data reload triggered')
-                  loadPreviewDataNow()
+                  fetchData()
                 }}
                 className="px-8 py-3 bg-gradient-to-r from-gray-900/90 to-black/90 backdrop-blur-sm hover:from-gray-800/90 hover:to-gray-900/90 text-white rounded-lg font-light transition-all duration-300 border border-gray-700/50 hover:border-gray-600/50"
               >
@@ -2254,19 +1691,24 @@ export default function SceneCanvas() {
       {!isAutoPlaying && (
         <UnifiedSidebar 
           data={data}
-          casualtyCount={dataInfo?.stats ? 
-            (dataInfo.stats.gaza.total_killed + dataInfo.stats.west_bank.total_killed) :
-            data.length
-          }
+          casualtyCount={memorialTotal}
+          filteredCount={filteredData.length}
+          stats={datasetStats}
           uiSettings={uiSettings}
           onUISettingsChange={handleUISettingsChange}
           visualSettings={visualSettings}
           onVisualSettingsChange={handleVisualSettingsChange}
           audioSettings={audioSettings}
           onAudioSettingsChange={handleAudioSettingsChange}
+          datasetLoad={datasetLoad}
+          onRetryLoad={fetchData}
+          loading={loading}
         />
       )}
 
+      {/* Offline snapshot notice - shown whenever the connection drops */}
+      <OfflineIndicator lastUpdated={dataInfo?.lastUpdated} />
+
       {/* Memorial info overlay - Hidden during memorial playback */}
       {!isAutoPlaying && uiSettings.showMemorialInfo && (
         <div className="absolute top-6 left-6 z-10 text-white max-w-md">
@@ -2280,7 +1722,7 @@ export default function SceneCanvas() {
               {/* Total Memorial Count Display */}
               <div>
                 <p className="text-2xl font-mono font-bold">
-                  63,872 souls
+                  {memorialTotal > 0 ? `${memorialTotal.toLocaleString()} souls` : 'Memorial total unavailable'}
                 </p>
                 <p className="text-gray-300 text-sm italic">Each light represents a life lost</p>
                 {dataInfo?.stats && (
@@ -2364,6 +1806,14 @@ export default function SceneCanvas() {
         </div>
       )}
       
+      {/* Layout picker - Hidden during memorial playback */}
+      {!isAutoPlaying && <ModeSelector />}
+
+      {/* Date scrubber of the timeline layout */}
+      {!isAutoPlaying && mode === 'timeline' && (
+        <TimelineScrubber data={filteredData} reported={reportedKilled} />
+      )}
+
       {/* Instructions - Hidden during memorial playback */}
       {!isAutoPlaying && uiSettings.showInstructions && (
         <div className="absolute bottom-6 right-6 z-10 text-white">
@@ -2386,6 +1836,13 @@ export default function SceneCanvas() {
               <span className="text-gray-600">•</span>
               <span className="capitalize">{data[hoveredIndex].gender}</span>
             </div>
+            {(data[hoveredIndex].location || data[hoveredIndex].date_of_death) && (
+              <div className="flex items-center justify-center gap-2 mt-1 text-xs text-gray-400">
+                {data[hoveredIndex].location && <span>{data[hoveredIndex].location}</span>}
+                {data[hoveredIndex].location && data[hoveredIndex].date_of_death && <span className="text-gray-600">•</span>}
+                {data[hoveredIndex].date_of_death && <span>{formatISODate(data[hoveredIndex].date_of_death)}</span>}
+              </div>
+            )}
             <p className="text-xs text-gray-500 mt-2 italic">Click to see details</p>
           </div>
         </div>
@@ -2406,6 +1863,9 @@ export default function SceneCanvas() {
           visualSettings={visualSettings}
           focusedIndex={focusedParticleIndex}
           filteredData={filteredData}
+          particleIndices={filterResult?.particleIndices}
+          stats={dataInfo?.stats}
+          onSpatialGrid={setSpatialGrid}
         />
       </Canvas>
 
@@ -2501,9 +1961,21 @@ export default function SceneCanvas() {
                 
                 <div className="flex justify-between items-center py-3 border-b border-gray-700 border-opacity-50">
                   <span className="text-gray-400 text-sm uppercase tracking-wider">Location</span>
-                  <span className="text-white text-lg font-medium">Gaza, Palestine</span>
+                  <span className="text-white text-lg font-medium">
+                    {formatLocation(selectedPerson.location, selectedPerson.region)}
+                  </span>
                 </div>
                 
+                {selectedPerson.date_of_death && (
+                  <div className="flex justify-between items-center py-3 border-b border-gray-700 border-opacity-50">
+                    <span className="text-gray-400 text-sm uppercase tracking-wider">Died</span>
+                    <span className="text-white text-lg font-medium">
+                      {formatISODate(selectedPerson.date_of_death)}
+                      {selectedPerson.id.startsWith('stat_') && <span className="ml-2 text-xs text-gray-400">(estimated)</span>}
+                    </span>
+                  </div>
+                )}
+                
                 <div className="flex justify-between items-center py-3 border-b border-gray-700 border-opacity-50">
                   <span className="text-gray-400 text-sm uppercase tracking-wider">Born</span>
                   <span className="text-white text-lg font-medium">{selectedPerson.date_of_birth}</span>
@@ -2516,6 +1988,53 @@ export default function SceneCanvas() {
                   </span>
                 </div>
               </div>
+
+              {/* Family constellation */}
+              {familyMembers.length > 0 && (
+                <div className="mt-6">
+                  <p className="text-gray-400 text-sm uppercase tracking-wider mb-2">
+                    {selectedPerson.family_name} family • {familyMembers.length.toLocaleString()} shown
+                  </p>
+                  <div className="max-h-48 overflow-y-auto rounded-lg border border-gray-700 border-opacity-50 divide-y divide-gray-700/50">
+                    {familyMembers.map(member => (
+                      <button
+                        key={member.id}
+                        onClick={() => setSelectedPerson(member)}
+                        className={`w-full flex justify-between gap-4 px-3 py-2 text-left text-sm transition-colors ${
+                          member.id === selectedPerson.id ? 'bg-gray-700/60 text-white' : 'text-gray-300 hover:bg-gray-700/40'
+                        }`}
+                      >
+                        <span className="truncate">{member.name_en}</span>
+                        <span className="text-gray-400 shrink-0">{member.age > 0 ? member.age : 'Age unknown'}</span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Nearest particles in the current layout */}
+              <div className="mt-6">
+                <button
+                  onClick={() => setShowNeighbors(!showNeighbors)}
+                  className="text-gray-400 hover:text-white text-sm uppercase tracking-wider transition-colors"
+                >
+                  {showNeighbors ? 'Hide neighbors' : 'Show neighbors'}
+                </button>
+                {neighbors.length > 0 && (
+                  <div className="mt-2 max-h-48 overflow-y-auto rounded-lg border border-gray-700 border-opacity-50 divide-y divide-gray-700/50">
+                    {neighbors.map(neighbor => (
+                      <button
+                        key={neighbor.id}
+                        onClick={() => setSelectedPerson(neighbor)}
+                        className="w-full flex justify-between gap-4 px-3 py-2 text-left text-sm text-gray-300 hover:bg-gray-700/40 transition-colors"
+                      >
+                        <span className="truncate">{neighbor.name_en}</span>
+                        <span className="text-gray-400 shrink-0">{neighbor.age > 0 ? neighbor.age : 'Age unknown'}</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
             </div>
             
             {/* Footer */}
@@ -0,0 +1,24 @@
+/**
+ * Service Worker Registration
+ *
+ * Registers `public/sw.js`, which keeps the memorial and the blog available
+ * offline. Only production builds register it: in development a caching worker
+ * would serve stale bundles instead of hot-reloaded ones.
+ */
+
+'use client'
+
+import { useEffect } from 'react'
+
+export default function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return
+
+    navigator.serviceWorker
+      .register('/sw.js')
+      .then(registration => console.log('✅ Offline support enabled:', registration.scope))
+      .catch(error => console.warn('⚠️ Service worker registration failed:', error))
+  }, [])
+
+  return null
+}
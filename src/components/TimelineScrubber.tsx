@@ -0,0 +1,131 @@
+/**
+ * Timeline Scrubber Component
+ *
+ * Moves the 'timeline' layout through the dates of death. Particles up to the
+ * chosen date are lit, later ones stay faint, and the count of people lit is
+ * shown next to the cumulative toll reported by that date.
+ */
+
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { Pause, Play } from 'lucide-react'
+
+import { formatISODate } from '@/lib/casualtyFields'
+import type { Casualty } from '@/lib/dataLoader'
+import { buildDeathCalendar, countDeathsBy, dayNumber } from '@/lib/layouts'
+import { useStore } from '@/lib/store'
+import type { TimeSeries } from '@/lib/timeseries'
+
+interface TimelineScrubberProps {
+  /** People shown, as laid out on the timeline */
+  data: Casualty[]
+  /** Reported cumulative killed series, summed for the reported toll */
+  reported: TimeSeries[]
+}
+
+/** Playback runs through the whole timeline in roughly this many steps */
+const PLAYBACK_STEPS = 400
+const PLAYBACK_INTERVAL_MS = 50
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const fromDay = (day: number) => new Date(day * DAY_MS).toISOString().slice(0, 10)
+
+/**
+ * Cumulative value of a series on a date, from its latest point on or before it
+ */
+function reportedBy(series: TimeSeries, date: string): number {
+  let value = 0
+  for (const point of series.points) {
+    if (point.date > date) break
+    value = point.cumulative
+  }
+  return value
+}
+
+export default function TimelineScrubber({ data, reported }: TimelineScrubberProps) {
+  const { timelineDate, setTimelineDate } = useStore()
+  const [isPlaying, setIsPlaying] = useState(false)
+
+  const calendar = useMemo(() => buildDeathCalendar(data), [data])
+  const firstDay = calendar.dates.length > 0 ? dayNumber(calendar.dates[0]) : 0
+  const lastDay = calendar.dates.length > 0 ? dayNumber(calendar.dates[calendar.dates.length - 1]) : 0
+  const day = timelineDate ? Math.min(lastDay, Math.max(firstDay, dayNumber(timelineDate))) : lastDay
+  const date = fromDay(day)
+
+  useEffect(() => {
+    if (!isPlaying) return
+    const step = Math.max(1, Math.ceil((lastDay - firstDay) / PLAYBACK_STEPS))
+    const timer = setInterval(() => {
+      const { timelineDate: current } = useStore.getState()
+      const currentDay = current ? dayNumber(current) : firstDay
+      if (currentDay >= lastDay) {
+        setIsPlaying(false)
+        setTimelineDate(null)
+        return
+      }
+      setTimelineDate(fromDay(Math.min(lastDay, currentDay + step)))
+    }, PLAYBACK_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [isPlaying, firstDay, lastDay, setTimelineDate])
+
+  if (calendar.dates.length === 0) {
+    return (
+      <div className="absolute bottom-24 left-1/2 -translate-x-1/2 z-10 px-4 py-2 rounded-lg bg-gray-900/90 border border-gray-700/50 text-xs text-gray-400">
+        No dates of death are recorded for the people shown
+      </div>
+    )
+  }
+
+  const togglePlayback = () => {
+    // Playing from the end starts over from the first day
+    if (!isPlaying && (!timelineDate || day >= lastDay)) setTimelineDate(fromDay(firstDay))
+    setIsPlaying(!isPlaying)
+  }
+
+  const reportedToll = reported.reduce((sum, series) => sum + reportedBy(series, date), 0)
+
+  return (
+    <div className="absolute bottom-24 left-1/2 -translate-x-1/2 z-10 w-[min(36rem,90vw)] text-white">
+      <div className="bg-gradient-to-br from-gray-900/90 to-black/90 backdrop-blur-sm border border-gray-700/50 px-4 py-3 rounded-xl shadow-2xl space-y-2">
+        <div className="flex items-center gap-3">
+          <button
+            onClick={togglePlayback}
+            className="p-1.5 rounded-full bg-gray-700 hover:bg-gray-600 transition-colors"
+            aria-label={isPlaying ? 'Pause timeline' : 'Play timeline'}
+          >
+            {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          </button>
+          <input
+            type="range"
+            min={firstDay}
+            max={lastDay}
+            value={day}
+            onChange={event => {
+              setIsPlaying(false)
+              const selected = Number(event.target.value)
+              setTimelineDate(selected >= lastDay ? null : fromDay(selected))
+            }}
+            className="flex-1 accent-red-500"
+            aria-label="Date of death"
+            aria-valuetext={formatISODate(date)}
+          />
+        </div>
+        <div className="flex items-baseline justify-between gap-4 text-xs">
+          <span className="text-gray-200">{formatISODate(date)}</span>
+          <span className="text-gray-400">
+            <span className="font-mono text-white">{countDeathsBy(calendar, date).toLocaleString()}</span> of {calendar.dates.length.toLocaleString()} lit
+            {reportedToll > 0 && (
+              <span> • <span className="font-mono text-red-400">{reportedToll.toLocaleString()}</span> reported killed by this date</span>
+            )}
+          </span>
+        </div>
+        {calendar.undated > 0 && (
+          <p className="text-[11px] text-gray-500">
+            {calendar.undated.toLocaleString()} people without a recorded date of death are shown apart and stay lit
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -10,6 +10,7 @@
  * - UI Customization: Panel visibility, tooltips, information display
  * - Data Filtering: Search, filter, and navigate through casualty data
  * - Social Sharing: Export and share the memorial experience
+ * - Status: How the dataset was loaded, per source, for support volunteers
  * - Real-time Preview: Live updates of all visualization changes
  *
  * The sidebar is designed to be collapsible and responsive, ensuring it doesn't
@@ -48,19 +49,28 @@ import {
   Link as LinkIcon,
   Mail,
   MessageCircle,
-  Linkedin
+  Linkedin,
+  Activity,
+  MapPin,
+  Shuffle
 } from 'lucide-react'
 import { useStore } from '@/lib/store'
+import { GAZA_GOVERNORATES, Governorate, WEST_BANK_GOVERNORATES } from '@/lib/casualtyFields'
 import { Casualty } from '@/lib/dataLoader'
+import type { DatasetLoad, DatasetStats } from '@/lib/dataService'
 import { useMemo } from 'react'
 import {
   Select,
   SelectContent,
+  SelectGroup,
   SelectItem,
+  SelectLabel,
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
 import { Slider } from '@/components/ui/slider'
+import DiagnosticsPanel from './DiagnosticsPanel'
+import { MORPH_EASINGS, MorphEasing } from './LayoutMorpher'
 
 /**
  * Props for the UnifiedSidebar component
@@ -70,6 +80,10 @@ interface UnifiedSidebarProps {
   data: Casualty[]
   /** Total number of casualties in current view */
   casualtyCount: number
+  /** Number of casualties matching the active filters */
+  filteredCount: number
+  /** Counts over all casualties from the data worker (computed locally until available) */
+  stats?: DatasetStats | null
   /** UI visibility settings */
   uiSettings: {
     /** Show memorial information panel */
@@ -131,6 +145,12 @@ interface UnifiedSidebarProps {
     colorTemperature: number
     /** Shader mode selector (0=normal, 1=ethereal, 2=cosmic, 3=aurora, 4=plasma) */
     shaderMode: number
+    /** Seconds for particles to reach a new layout */
+    morphDuration: number
+    /** Easing of layout transitions */
+    morphEasing: MorphEasing
+    /** Share of a transition over which particle departures are spread (0-0.9) */
+    morphStagger: number
     /** Canvas shader properties removed */
   }
   /** Callback to update visual settings */
@@ -146,6 +166,12 @@ interface UnifiedSidebarProps {
   }
   /** Callback to update audio settings */
   onAudioSettingsChange: (settings: Partial<UnifiedSidebarProps['audioSettings']>) => void
+  /** The loaded dataset and where it came from, shown in the Status tab */
+  datasetLoad: DatasetLoad | null
+  /** Callback to reload the dataset */
+  onRetryLoad: () => void
+  /** True while the dataset is loading */
+  loading?: boolean
 }
 
 /**
@@ -187,6 +213,7 @@ function getShaderModeName(mode: number): string {
  * 4. **Data Filtering**: Search and filter casualty data
  * 5. **UI Customization**: Panel visibility and display options
  * 6. **Social Sharing**: Export and share functionality
+ * 7. **Status**: Data loading diagnostics (see `DiagnosticsPanel`)
  *
  * @param props - Component configuration
  * @returns React component for the unified control sidebar
@@ -194,21 +221,27 @@ function getShaderModeName(mode: number): string {
 export default function UnifiedSidebar({
   data,
   casualtyCount,
+  filteredCount,
+  stats,
   uiSettings,
   onUISettingsChange,
   visualSettings,
   onVisualSettingsChange,
   audioSettings,
-  onAudioSettingsChange
+  onAudioSettingsChange,
+  datasetLoad,
+  onRetryLoad,
+  loading
 }: UnifiedSidebarProps) {
   const { filters, setFilters, isFiltered } = useStore()
   const [isExpanded, setIsExpanded] = useState(false)
-  const [activeTab, setActiveTab] = useState<'filters' | 'settings' | 'audio' | 'share'>('filters')
+  const [activeTab, setActiveTab] = useState<'filters' | 'settings' | 'audio' | 'share' | 'status'>('filters')
   const [expandedSections, setExpandedSections] = useState({
     // Filters sections
     gender: true,
     age: true,
     source: true,
+    location: true,
     statistics: false,
     // Settings sections
     display: true,
@@ -233,6 +266,13 @@ export default function UnifiedSidebar({
   }, [data])
 
   const statistics = useMemo(() => {
+    if (stats) {
+      return {
+        male: stats.gender.male || 0,
+        female: stats.gender.female || 0,
+        ...stats.ageGroups
+      }
+    }
     if (data.length === 0) return { male: 0, female: 0, children: 0, adults: 0, elderly: 0 }
     
     const male = data.filter(d => d.gender === 'male').length
@@ -242,7 +282,7 @@ export default function UnifiedSidebar({
     const elderly = data.filter(d => d.age >= 60).length
     
     return { male, female, children, adults, elderly }
-  }, [data])
+  }, [data, stats])
 
   const toggleSection = (section: keyof typeof expandedSections) => {
     setExpandedSections(prev => ({
@@ -257,7 +297,8 @@ export default function UnifiedSidebar({
       ageRange: [ageStats.min, ageStats.max], 
       source: 'all',
       nameSearch: '',
-      type: 'all'
+      type: 'all',
+      location: 'all'
     })
   }
 
@@ -284,7 +325,10 @@ export default function UnifiedSidebar({
       trailCount: 100,
       trailColor: '#ffffff',
       glowIntensity: 0.8,
-      colorTemperature: 0.5
+      colorTemperature: 0.5,
+      morphDuration: 1.6,
+      morphEasing: 'cubic',
+      morphStagger: 0.4
     })
   }
 
@@ -357,7 +401,8 @@ export default function UnifiedSidebar({
   const tabs = [
     { id: 'filters' as const, label: 'Filters', icon: Filter, active: isFiltered() },
     { id: 'settings' as const, label: 'Settings', icon: Settings, active: false },
-    { id: 'share' as const, label: 'Share', icon: Share2, active: false }
+    { id: 'share' as const, label: 'Share', icon: Share2, active: false },
+    { id: 'status' as const, label: 'Status', icon: Activity, active: datasetLoad?.dataInfo.loadReport.origin === 'fallback' }
   ]
 
   return (
@@ -372,6 +417,7 @@ export default function UnifiedSidebar({
           {activeTab === 'settings' && <Settings size={20} />}
           {activeTab === 'audio' && <Volume2 size={20} />}
           {activeTab === 'share' && <Share2 size={20} />}
+          {activeTab === 'status' && <Activity size={20} />}
           {isFiltered() && activeTab === 'filters' && (
             <div className="w-2 h-2 bg-blue-400 rounded-full"></div>
           )}
@@ -477,30 +523,7 @@ export default function UnifiedSidebar({
                       </div>
                       <div>
                         <span className="text-gray-400">Filtered:</span>
-                        <span className="text-white ml-2">{(() => {
-                          // Performance optimization: calculate filtered count efficiently
-                          if (filters.gender === 'all' && 
-                              filters.source === 'all' && 
-                              filters.type === 'all' && 
-                              filters.ageRange[0] === 0 && 
-                              filters.ageRange[1] === 120 && 
-                              !filters.nameSearch.trim()) {
-                            return data.length.toLocaleString()
-                          }
-                          
-                          let count = 0
-                          for (const d of data) {
-                            if (filters.gender !== 'all' && d.gender !== filters.gender) continue
-                            if (filters.type !== 'all' && d.type !== filters.type) continue
-                            if (filters.source !== 'all' && d.source !== filters.source) continue
-                            if (d.age < filters.ageRange[0] || d.age > filters.ageRange[1]) continue
-                            if (filters.nameSearch.trim() && 
-                                !d.name_en.toLowerCase().includes(filters.nameSearch.toLowerCase()) && 
-                                !d.name_ar.includes(filters.nameSearch)) continue
-                            count++
-                          }
-                          return count.toLocaleString()
-                        })()}</span>
+                        <span className="text-white ml-2">{filteredCount.toLocaleString()}</span>
                       </div>
                     </div>
                     
@@ -509,7 +532,7 @@ export default function UnifiedSidebar({
                       <p className="text-xs text-gray-400 mb-2 font-medium">DATA SOURCES</p>
                       <div className="space-y-1 text-xs">
                         {sources.slice(1).map((source) => {
-                          const count = data.filter(d => d.source === source).length
+                          const count = stats ? stats.source[source] || 0 : data.filter(d => d.source === source).length
                           return (
                             <div key={source} className="flex justify-between">
                               <span className="text-gray-300 truncate">{source}</span>
@@ -525,7 +548,7 @@ export default function UnifiedSidebar({
                       <p className="text-xs text-gray-400 mb-2 font-medium">ROLES</p>
                       <div className="space-y-1 text-xs">
                         {['civilian', 'press', 'medical', 'civil_defense'].map((type) => {
-                          const count = data.filter(d => d.type === type).length
+                          const count = stats ? stats.type[type] || 0 : data.filter(d => d.type === type).length
                           if (count === 0) return null
                           return (
                             <div key={type} className="flex justify-between">
@@ -691,6 +714,55 @@ export default function UnifiedSidebar({
                   )}
                 </div>
 
+                {/* Location Filter */}
+                <div className="space-y-3">
+                  <button
+                    onClick={() => toggleSection('location')}
+                    className="flex items-center justify-between w-full text-left"
+                  >
+                    <div className="flex items-center gap-2 text-white font-medium">
+                      <MapPin size={16} />
+                      Governorate
+                    </div>
+                    {expandedSections.location ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+                  </button>
+
+                  {expandedSections.location && (
+                    <div className="space-y-3">
+                      <Select
+                        value={filters.location}
+                        onValueChange={(value) => setFilters({ location: value as 'all' | Governorate })}
+                      >
+                        <SelectTrigger className="bg-gray-800 border-gray-600 text-white">
+                          <SelectValue placeholder="Select governorate" />
+                        </SelectTrigger>
+                        <SelectContent className="bg-gray-800 text-white border-gray-600">
+                          <SelectItem value="all">All Governorates</SelectItem>
+                          <SelectGroup>
+                            <SelectLabel>Gaza Strip</SelectLabel>
+                            {GAZA_GOVERNORATES.map((governorate) => (
+                              <SelectItem key={governorate} value={governorate}>
+                                {governorate}
+                              </SelectItem>
+                            ))}
+                          </SelectGroup>
+                          <SelectGroup>
+                            <SelectLabel>West Bank</SelectLabel>
+                            {WEST_BANK_GOVERNORATES.map((governorate) => (
+                              <SelectItem key={governorate} value={governorate}>
+                                {governorate}
+                              </SelectItem>
+                            ))}
+                          </SelectGroup>
+                        </SelectContent>
+                      </Select>
+                      <div className="text-xs text-gray-400">
+                        Only people with a recorded governorate match
+                      </div>
+                    </div>
+                  )}
+                </div>
+
                 {/* Color Legend */}
                 {isFiltered() && (
                   <div className="space-y-3">
@@ -966,6 +1038,67 @@ export default function UnifiedSidebar({
                   </div>
                 </div>
 
+                {/* Layout Transitions */}
+                <div className="space-y-3">
+                  <div className="flex items-center gap-2 text-white font-medium">
+                    <Shuffle size={16} />
+                    Layout Transitions
+                  </div>
+
+                  <div>
+                    <label className="block text-sm text-gray-300 mb-2">
+                      Duration: {visualSettings.morphDuration.toFixed(1)}s
+                    </label>
+                    <input
+                      type="range"
+                      min="0.2"
+                      max="4"
+                      step="0.1"
+                      value={visualSettings.morphDuration}
+                      onChange={(e) => onVisualSettingsChange({ morphDuration: parseFloat(e.target.value) })}
+                      className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm text-gray-300 mb-2">Easing</label>
+                    <Select
+                      value={visualSettings.morphEasing}
+                      onValueChange={(value) => onVisualSettingsChange({ morphEasing: value as MorphEasing })}
+                    >
+                      <SelectTrigger className="bg-gray-800 border-gray-600 text-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-gray-800 text-white border-gray-600">
+                        {MORPH_EASINGS.map((easing) => (
+                          <SelectItem key={easing.value} value={easing.value}>
+                            {easing.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm text-gray-300 mb-2">
+                      Stagger: {Math.round(visualSettings.morphStagger * 100)}%
+                    </label>
+                    <input
+                      type="range"
+                      min="0"
+                      max="0.9"
+                      step="0.05"
+                      value={visualSettings.morphStagger}
+                      onChange={(e) => onVisualSettingsChange({ morphStagger: parseFloat(e.target.value) })}
+                      className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                    />
+                    <div className="flex justify-between text-xs text-gray-500 mt-1">
+                      <span>Together</span>
+                      <span>One by One</span>
+                    </div>
+                  </div>
+                </div>
+
                 {/* Display Settings */}
                 <div className="space-y-3">
                   <button
@@ -1413,6 +1546,16 @@ export default function UnifiedSidebar({
                 </div>
               </div>
             )}
+
+            {/* Status Tab */}
+            {activeTab === 'status' && (
+              <div className="p-6 space-y-6">
+                <p className="text-sm text-gray-400">
+                  How the memorial data was loaded
+                </p>
+                <DiagnosticsPanel dataLoad={datasetLoad} onRetry={onRetryLoad} loading={loading} />
+              </div>
+            )}
           </div>
         </div>
       </div>
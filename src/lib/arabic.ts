@@ -0,0 +1,59 @@
+/**
+ * Arabic Name Normalization
+ *
+ * Arabic names are written inconsistently across sources: the same name can
+ * appear with or without diacritics, with different hamza seats, with taa
+ * marbuta or haa, and with decorative tatweel. Comparing names therefore
+ * requires an orthographic normal form rather than the raw string.
+ *
+ * Normalization Rules:
+ * - Diacritics (harakat, tanween, shadda, sukun, dagger alef) are removed
+ * - Tatweel (ـ) is removed
+ * - Hamza seats أ إ آ ٱ become ا; ؤ becomes و; ئ becomes ي; a bare ء is removed
+ * - Taa marbuta ة becomes ه; alef maqsura ى becomes ي
+ * - "عبد ال..." compounds are joined ("عبد الله" and "عبدالله" match)
+ * - Whitespace is collapsed
+ *
+ * @author Palestine Memorial Project
+ * @version 1.0.0
+ * @since 2024
+ */
+
+const DIACRITICS = /[\u064B-\u065F\u0670]/g
+const TATWEEL = /\u0640/g
+
+/**
+ * Converts Arabic text to its orthographic normal form
+ *
+ * @param {string} text - Arabic text (other scripts pass through unchanged)
+ * @returns {string} Normalized text
+ *
+ * @example
+ * normalizeArabic('أحمَد') === normalizeArabic('احمد') // true
+ * normalizeArabic('فاطمة') === normalizeArabic('فاطمه') // true
+ */
+export function normalizeArabic(text: string): string {
+  return text
+    .replace(DIACRITICS, '')
+    .replace(TATWEEL, '')
+    .replace(/[أإآٱ]/g, 'ا')
+    .replace(/ؤ/g, 'و')
+    .replace(/ئ/g, 'ي')
+    .replace(/ء/g, '')
+    .replace(/ة/g, 'ه')
+    .replace(/ى/g, 'ي')
+    .replace(/عبد\s+ال/g, 'عبدال')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Splits a normalized Arabic name into its parts
+ *
+ * @param {string} name - Arabic name (normalized or raw)
+ * @returns {string[]} Name parts, e.g. given name, father, grandfather, family
+ */
+export function arabicNameTokens(name: string): string[] {
+  const normalized = normalizeArabic(name)
+  return normalized ? normalized.split(' ') : []
+}
@@ -0,0 +1,257 @@
+/**
+ * Gaza Memorial Casualty Fields
+ *
+ * Normalized and derived casualty fields shared by data sources, the
+ * extrapolation and the visualization: ISO dates of death, governorate-level
+ * locations with their region, age bands and family names.
+ *
+ * Locations:
+ * `Casualty.location` is one of the five Gaza Strip or eleven West Bank
+ * governorates. None of the named lists publishes a location or date of
+ * death, so today both are only set on statistical souls (see
+ * `extrapolation.ts`). Spellings of governorate names vary (e.g. "Khan Yunis",
+ * "Deir el-Balah", "Al-Khalil"); `normalizeGovernorate` resolves them, as for
+ * the names in the bundled GeoJSON.
+ *
+ * Age Bands:
+ * Five-year bands up to `80+`. An age of 0 means unknown in the memorial
+ * data model (see `Casualty`), so it falls into the `unknown` band.
+ *
+ * Family Names:
+ * Names are recorded in full with the family name last, so the family name is
+ * the last word of `name_en` (or of `name_ar` when there is no English name).
+ * It is normalized so spelling variants of the same family group together:
+ * "Al-Masri", "al-masri" and "El-Masri" all become "Masri".
+ *
+ * @author Palestine Memorial Project
+ * @version 1.0.0
+ * @since 2024
+ */
+
+/**
+ * Governorates of the Gaza Strip, north to south
+ */
+export const GAZA_GOVERNORATES = ['North Gaza', 'Gaza City', 'Deir al-Balah', 'Khan Younis', 'Rafah'] as const
+
+/**
+ * Governorates of the West Bank, north to south
+ */
+export const WEST_BANK_GOVERNORATES = [
+  'Jenin',
+  'Tubas',
+  'Tulkarm',
+  'Nablus',
+  'Qalqilya',
+  'Salfit',
+  'Ramallah and al-Bireh',
+  'Jericho',
+  'Jerusalem',
+  'Bethlehem',
+  'Hebron'
+] as const
+
+export type GazaGovernorate = typeof GAZA_GOVERNORATES[number]
+export type WestBankGovernorate = typeof WEST_BANK_GOVERNORATES[number]
+export type Governorate = GazaGovernorate | WestBankGovernorate
+
+/**
+ * Territory a casualty was killed in
+ */
+export type Region = 'Gaza Strip' | 'West Bank'
+
+/**
+ * Approximate population share of each governorate within its region
+ *
+ * Statistical souls are assigned a governorate in these proportions, as the
+ * daily figures are not broken down by governorate. Based on PCBS mid-2023
+ * population estimates, rounded.
+ */
+export const GOVERNORATE_POPULATION_SHARES: { [R in Region]: Array<[Governorate, number]> } = {
+  'Gaza Strip': [
+    ['North Gaza', 0.19],
+    ['Gaza City', 0.35],
+    ['Deir al-Balah', 0.15],
+    ['Khan Younis', 0.19],
+    ['Rafah', 0.12]
+  ],
+  'West Bank': [
+    ['Jenin', 0.11],
+    ['Tubas', 0.02],
+    ['Tulkarm', 0.06],
+    ['Nablus', 0.13],
+    ['Qalqilya', 0.04],
+    ['Salfit', 0.03],
+    ['Ramallah and al-Bireh', 0.11],
+    ['Jericho', 0.02],
+    ['Jerusalem', 0.14],
+    ['Bethlehem', 0.07],
+    ['Hebron', 0.27]
+  ]
+}
+
+/**
+ * Alternative spellings of governorate names, by normalized key
+ */
+const GOVERNORATE_ALIASES: Record<string, Governorate> = {
+  'north gaza': 'North Gaza',
+  'northern gaza': 'North Gaza',
+  'shamal gaza': 'North Gaza',
+  'gaza': 'Gaza City',
+  'gaza city': 'Gaza City',
+  'deir al balah': 'Deir al-Balah',
+  'deir el balah': 'Deir al-Balah',
+  'dayr al balah': 'Deir al-Balah',
+  'middle area': 'Deir al-Balah',
+  'khan younis': 'Khan Younis',
+  'khan yunis': 'Khan Younis',
+  'khan younes': 'Khan Younis',
+  'rafah': 'Rafah',
+  'jenin': 'Jenin',
+  'tubas': 'Tubas',
+  'tulkarm': 'Tulkarm',
+  'tulkarem': 'Tulkarm',
+  'nablus': 'Nablus',
+  'qalqilya': 'Qalqilya',
+  'qalqiliya': 'Qalqilya',
+  'salfit': 'Salfit',
+  'ramallah': 'Ramallah and al-Bireh',
+  'ramallah and al bireh': 'Ramallah and al-Bireh',
+  'al bireh': 'Ramallah and al-Bireh',
+  'jericho': 'Jericho',
+  'ariha': 'Jericho',
+  'jerusalem': 'Jerusalem',
+  'east jerusalem': 'Jerusalem',
+  'al quds': 'Jerusalem',
+  'bethlehem': 'Bethlehem',
+  'hebron': 'Hebron',
+  'al khalil': 'Hebron'
+}
+
+/**
+ * Resolves an upstream location to a governorate
+ *
+ * @param {string | undefined} value - Location as published upstream
+ * @returns {Governorate | undefined} The governorate, undefined when unrecognized
+ *
+ * @example
+ * normalizeGovernorate('Khan Yunis') // 'Khan Younis'
+ * normalizeGovernorate('Al-Khalil') // 'Hebron'
+ */
+export function normalizeGovernorate(value: string | undefined): Governorate | undefined {
+  if (!value) return undefined
+  const key = value.toLowerCase().replace(/governorate/g, '').replace(/[^a-z]+/g, ' ').trim()
+  return GOVERNORATE_ALIASES[key]
+}
+
+/**
+ * Returns the region a governorate belongs to
+ *
+ * @param {Governorate} governorate - Governorate
+ * @returns {Region} Gaza Strip or West Bank
+ */
+export function getRegion(governorate: Governorate): Region {
+  return (GAZA_GOVERNORATES as readonly string[]).includes(governorate) ? 'Gaza Strip' : 'West Bank'
+}
+
+/**
+ * Describes where a casualty died, as precisely as is known
+ *
+ * @param {Governorate} [location] - Governorate of death
+ * @param {Region} [region] - Territory of death
+ * @returns {string} e.g. "Khan Younis, Gaza Strip", "Gaza Strip" or "Palestine"
+ */
+export function formatLocation(location?: Governorate, region?: Region): string {
+  const territory = region || (location && getRegion(location))
+  if (location && territory) return `${location}, ${territory}`
+  return territory || 'Palestine'
+}
+
+/**
+ * Formats an ISO date for display, in the visitor's locale
+ *
+ * @param {string} date - ISO date (`YYYY-MM-DD`)
+ * @returns {string} e.g. "7 October 2023"
+ */
+export function formatISODate(date: string): string {
+  // Parsed and formatted as UTC so the day never shifts with the visitor's time zone
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    timeZone: 'UTC'
+  })
+}
+
+/**
+ * Width of an age band in years
+ */
+export const AGE_BAND_SIZE = 5
+
+/**
+ * Age of the open-ended oldest band
+ */
+const OLDEST_BAND_AGE = 80
+
+/**
+ * Every age band, youngest first, followed by `unknown`
+ */
+export const AGE_BANDS = [
+  ...Array.from({ length: OLDEST_BAND_AGE / AGE_BAND_SIZE }, (_, band) =>
+    `${band * AGE_BAND_SIZE}-${band * AGE_BAND_SIZE + AGE_BAND_SIZE - 1}`),
+  `${OLDEST_BAND_AGE}+`,
+  'unknown'
+] as const
+
+/**
+ * Five-year age band such as `25-29`, `80+` or `unknown`
+ */
+export type AgeBand = string
+
+/**
+ * Returns the age band of an age
+ *
+ * @param {number} age - Age at death (0 for unknown)
+ * @returns {AgeBand} The age band
+ *
+ * @example
+ * getAgeBand(7) // '5-9'
+ * getAgeBand(0) // 'unknown'
+ */
+export function getAgeBand(age: number): AgeBand {
+  if (!(age > 0)) return 'unknown'
+  if (age >= OLDEST_BAND_AGE) return `${OLDEST_BAND_AGE}+`
+  const start = Math.floor(age / AGE_BAND_SIZE) * AGE_BAND_SIZE
+  return `${start}-${start + AGE_BAND_SIZE - 1}`
+}
+
+/**
+ * Leading Arabic article of romanized family names ("Al-", "El-")
+ */
+const ARTICLE_PREFIX = /^(al|el)-/
+
+/**
+ * Arabic diacritics and tatweel, which vary between spellings of one name
+ */
+const ARABIC_MARKS = /[\u0640\u064B-\u065F\u0670]/g
+
+/**
+ * Derives the normalized family name of a person from their names
+ *
+ * @param {string} nameEn - English name
+ * @param {string} nameAr - Arabic name
+ * @returns {string | undefined} Family name, undefined for single-word or missing names
+ *
+ * @example
+ * getFamilyName('Mohammed Ahmad Al-Masri', 'محمد أحمد المصري') // 'Masri'
+ * getFamilyName('Unknown', 'محمد أحمد المصري') // 'المصري'
+ */
+export function getFamilyName(nameEn: string, nameAr: string): string | undefined {
+  const english = (nameEn || '').trim().split(/\s+/)
+  if (english.length > 1) {
+    const family = english[english.length - 1].toLowerCase().replace(ARTICLE_PREFIX, '').replace(/[^a-z-]/g, '')
+    if (family) return family.replace(/(^|-)([a-z])/g, (_, separator: string, letter: string) => separator + letter.toUpperCase())
+  }
+
+  const arabic = (nameAr || '').replace(ARABIC_MARKS, '').trim().split(/\s+/)
+  return arabic.length > 1 ? arabic[arabic.length - 1] : undefined
+}
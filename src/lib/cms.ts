@@ -38,12 +38,33 @@ export interface SiteSettings {
     googleAnalyticsId?: string
   }
   memorial: {
-    totalCasualties: number
+    // Admin override for the memorial total; null uses the data-driven total
+    totalCasualtiesOverride: number | null
     lastUpdated: string
     dataSources: string[]
   }
 }
 
+/**
+ * Stands for the memorial total in post content, with the space after it;
+ * filled in by `fillMemorialTotal` when a post is rendered
+ */
+const MEMORIAL_TOTAL_PLACEHOLDER = /\{\{memorialTotal\}\} ?/g
+
+/**
+ * Replaces the `{{memorialTotal}}` placeholder with the current total
+ *
+ * @param {string} text - Text containing `{{memorialTotal}}`
+ * @param {number | null} total - Memorial total, null when unknown
+ * @returns {string} The text with the total, or with the placeholder dropped when unknown
+ *
+ * @example
+ * fillMemorialTotal('the {{memorialTotal}} souls', 64000) // 'the 64,000 souls'
+ * fillMemorialTotal('the {{memorialTotal}} souls', null) // 'the souls'
+ */
+export const fillMemorialTotal = (text: string, total: number | null): string =>
+  text.replace(MEMORIAL_TOTAL_PLACEHOLDER, total ? `${total.toLocaleString('en-US')} ` : '')
+
 // Mock data store - in production, this would be a database
 const blogPosts: BlogPost[] = [
   {
@@ -53,11 +74,11 @@ const blogPosts: BlogPost[] = [
     excerpt: 'Learn about the creation of this interactive memorial that honors the memory of over 63,000 lives lost in Gaza through innovative data visualization.',
     content: `# Introducing the Gaza Souls Memorial
 
-**In memory of the 63,872 souls lost in Gaza** — The Gaza Souls Memorial represents each life as a point of light in an interactive 3D visualization, creating a space for remembrance, reflection, and understanding of the human cost of conflict.
+**In memory of the {{memorialTotal}} souls lost in Gaza** — The Gaza Souls Memorial represents each life as a point of light in an interactive 3D visualization, creating a space for remembrance, reflection, and understanding of the human cost of conflict.
 
 ## A Memorial Born from Data and Compassion
 
-The Gaza Souls Memorial emerged from a simple yet profound belief: every life lost deserves to be remembered, honored, and never forgotten. In an age where numbers can become abstract, we sought to create something that would restore the humanity behind the statistics — a digital space where each of the 63,872 documented casualties becomes a individual point of light, a soul that once lived, loved, and dreamed.
+The Gaza Souls Memorial emerged from a simple yet profound belief: every life lost deserves to be remembered, honored, and never forgotten. In an age where numbers can become abstract, we sought to create something that would restore the humanity behind the statistics — a digital space where each of the {{memorialTotal}} documented casualties becomes a individual point of light, a soul that once lived, loved, and dreamed.
 
 This interactive memorial uses cutting-edge web technology to transform data into a living, breathing tribute. Each particle in our 3D visualization represents a real person — with a name, an age, a story. When you hover over a particle, you see their details. When you click, you learn about their life. This is not just data visualization; it's human visualization.
 
@@ -73,7 +94,7 @@ Built using Three.js and WebGL, the memorial runs entirely in web browsers, maki
 
 ## More Than Statistics: Restoring Humanity
 
-In conflicts, it's easy for casualties to become mere numbers in news reports. The Gaza Souls Memorial fights against this dehumanization by presenting each loss as an individual story. When you see 63,872 particles floating in space, each one pulsing with its own light, the scale of loss becomes viscerally apparent in a way that numbers alone cannot convey.
+In conflicts, it's easy for casualties to become mere numbers in news reports. The Gaza Souls Memorial fights against this dehumanization by presenting each loss as an individual story. When you see {{memorialTotal}} particles floating in space, each one pulsing with its own light, the scale of loss becomes viscerally apparent in a way that numbers alone cannot convey.
 
 The memorial includes detailed information about each person when available: their name in both Arabic and English, their age, their location, and the date of their passing. For children, we show their young age. For parents, we honor their role. For journalists and medical workers, we acknowledge their service. Each life is presented with the dignity it deserves.
 
@@ -102,7 +123,7 @@ We've designed the experience to be respectful and non-exploitative. The visual
     excerpt: 'Discover how we used cutting-edge web technologies to create an immersive 3D memorial experience that runs in any web browser.',
     content: `# The Technology Behind the Memorial
 
-Building a memorial that honors 63,872 individual lives required innovative technology that could handle massive datasets while maintaining the dignity and respect each soul deserves. Here's how we built it.
+Building a memorial that honors {{memorialTotal}} individual lives required innovative technology that could handle massive datasets while maintaining the dignity and respect each soul deserves. Here's how we built it.
 
 ## The Technical Challenge
 
@@ -174,7 +195,7 @@ let siteSettings: SiteSettings = {
     googleAnalyticsId: 'GA-XXXXXXXXX'
   },
   memorial: {
-    totalCasualties: 63872,
+    totalCasualtiesOverride: null,
     lastUpdated: '2024-01-15',
     dataSources: [
       'Tech for Palestine',
@@ -0,0 +1,380 @@
+/**
+ * Gaza Memorial CSV Parser
+ *
+ * RFC 4180-compliant, streaming CSV parser used for the fallback data files in
+ * `public/`. It works in both the browser and on the server, and never guesses
+ * column types: every column is a string unless the per-file column type map
+ * declares it numeric, so identifiers and dates are never turned into numbers.
+ *
+ * Supported Syntax:
+ * - Quoted fields containing commas, line breaks and escaped quotes (`""`)
+ * - CRLF, LF and CR line endings (mixed within one file)
+ * - A leading UTF-8 byte order mark
+ * - Input split into arbitrary chunks, including mid-field and mid-CRLF
+ *
+ * Nested Records:
+ * Nested objects such as `InfrastructureDamage.educational_buildings` are
+ * stored as dotted-path columns (`educational_buildings.ext_destroyed`).
+ * `serializeCSV` flattens records into those columns and `unflattenRecord`
+ * rebuilds the original nesting, so API data survives a CSV round trip.
+ *
+ * @author Palestine Memorial Project
+ * @version 1.0.0
+ * @since 2024
+ */
+
+/**
+ * Value type a CSV column is converted to
+ */
+export type CSVColumnType = 'string' | 'number'
+
+/**
+ * A parsed CSV row keyed by header
+ *
+ * Empty numeric cells are omitted rather than converted to zero.
+ */
+export type CSVRecord = Record<string, string | number>
+
+/**
+ * Options controlling how CSV cells are converted
+ *
+ * @interface CSVParseOptions
+ * @property {Record<string, CSVColumnType>} [columnTypes] - Type of specific columns by header
+ * @property {CSVColumnType} [defaultType] - Type of columns missing from `columnTypes` (default: 'string')
+ * @property {Record<string, string>} [columnAliases] - Renames legacy headers before conversion
+ */
+export interface CSVParseOptions {
+  columnTypes?: Record<string, CSVColumnType>
+  defaultType?: CSVColumnType
+  columnAliases?: Record<string, string>
+}
+
+/**
+ * Incremental parser returned by `createCSVParser`
+ *
+ * @interface CSVParser
+ * @property {function} write - Feeds the next chunk of CSV text
+ * @property {function} end - Flushes the final row; throws on an unterminated quoted field
+ */
+export interface CSVParser {
+  write: (chunk: string) => void
+  end: () => void
+}
+
+/**
+ * Column types for every fallback file in `public/`
+ *
+ * Daily series are numeric apart from their date and source columns; casualty
+ * lists are text apart from `age`, so `id` always stays a string.
+ */
+export const FALLBACK_CSV_OPTIONS: Record<string, CSVParseOptions> = {
+  'killed-in-gaza.csv': {
+    columnTypes: { age: 'number' }
+  },
+  'press_killed_in_gaza.csv': {},
+  'casualties_daily.csv': {
+    defaultType: 'number',
+    columnTypes: { report_date: 'string', report_source: 'string' }
+  },
+  'west_bank_daily.csv': {
+    defaultType: 'number',
+    columnTypes: { report_date: 'string', flash_source: 'string' }
+  },
+  'infrastructure-damaged.csv': {
+    defaultType: 'number',
+    columnTypes: { report_date: 'string' },
+    // Flat headers written before the file used dotted-path columns
+    columnAliases: {
+      schools_destroyed: 'educational_buildings.destroyed',
+      schools_damaged: 'educational_buildings.damaged',
+      mosques_destroyed: 'places_of_worship.mosques_destroyed',
+      churches_destroyed: 'places_of_worship.churches_destroyed',
+      homes_destroyed: 'residential.destroyed',
+      government_destroyed: 'civic_buildings.destroyed'
+    }
+  }
+}
+
+/**
+ * Creates an incremental RFC 4180 tokenizer
+ *
+ * Rows are emitted as arrays of raw field strings as soon as their line ends.
+ * Blank lines are skipped.
+ *
+ * @param {function} onRow - Called with the fields of each completed row
+ * @returns {CSVParser} Parser accepting chunks of text
+ *
+ * @example
+ * const parser = createCSVParser(fields => rows.push(fields))
+ * parser.write('name,notes\r\n"Al-Salhi, M",')
+ * parser.write('"said ""hello"""\r\n')
+ * parser.end()
+ */
+export function createCSVParser(onRow: (fields: string[]) => void): CSVParser {
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+  let quotePending = false // Saw `"` inside a quoted field: either an escape or the closing quote
+  let fieldQuoted = false
+  let skipLineFeed = false // Previous chunk ended on `\r`
+  let atStart = true
+
+  const endField = () => {
+    row.push(field)
+    field = ''
+    fieldQuoted = false
+  }
+
+  const endRow = () => {
+    endField()
+    if (row.length > 1 || row[0] !== '') onRow(row)
+    row = []
+  }
+
+  return {
+    write(chunk: string) {
+      let start = 0
+      if (atStart) {
+        atStart = false
+        if (chunk.charCodeAt(0) === 0xfeff) start = 1
+      }
+
+      for (let i = start; i < chunk.length; i++) {
+        const char = chunk[i]
+
+        if (skipLineFeed) {
+          skipLineFeed = false
+          if (char === '\n') continue
+        }
+
+        if (inQuotes) {
+          if (quotePending) {
+            quotePending = false
+            if (char === '"') {
+              field += '"'
+              continue
+            }
+            inQuotes = false
+            // Closing quote consumed; handle this character as unquoted below
+          } else if (char === '"') {
+            quotePending = true
+            continue
+          } else {
+            field += char
+            continue
+          }
+        }
+
+        if (char === '"' && field === '' && !fieldQuoted) {
+          inQuotes = true
+          fieldQuoted = true
+        } else if (char === ',') {
+          endField()
+        } else if (char === '\n' || char === '\r') {
+          endRow()
+          skipLineFeed = char === '\r'
+        } else {
+          field += char
+        }
+      }
+    },
+
+    end() {
+      if (inQuotes && !quotePending) {
+        throw new Error('Unterminated quoted field at end of CSV input')
+      }
+      inQuotes = false
+      quotePending = false
+      if (field !== '' || fieldQuoted || row.length > 0) endRow()
+    }
+  }
+}
+
+/**
+ * Converts raw row fields into a typed record using the header row
+ *
+ * Numeric cells that do not hold a number are kept as text so schema
+ * validation can report them instead of them silently becoming zero.
+ */
+function toRecord(headers: string[], fields: string[], options: CSVParseOptions): CSVRecord {
+  const record: CSVRecord = {}
+  const defaultType = options.defaultType || 'string'
+
+  headers.forEach((header, index) => {
+    const value = fields[index] ?? ''
+    const type = options.columnTypes?.[header] || defaultType
+
+    if (type === 'number') {
+      const trimmed = value.trim()
+      if (trimmed === '') return
+      const numValue = Number(trimmed)
+      record[header] = isNaN(numValue) ? value : numValue
+    } else {
+      record[header] = value
+    }
+  })
+
+  return record
+}
+
+/**
+ * Creates a parser that emits typed records keyed by the header row
+ *
+ * @param {function} onRecord - Called with each parsed record
+ * @param {CSVParseOptions} [options] - Column type options
+ * @returns {CSVParser} Parser accepting chunks of text
+ */
+export function createCSVRecordParser(
+  onRecord: (record: CSVRecord) => void,
+  options: CSVParseOptions = {}
+): CSVParser {
+  let headers: string[] | null = null
+
+  return createCSVParser(fields => {
+    if (!headers) {
+      headers = fields.map(header => {
+        const name = header.trim()
+        return options.columnAliases?.[name] || name
+      })
+      return
+    }
+    onRecord(toRecord(headers, fields, options))
+  })
+}
+
+/**
+ * Parses a complete CSV document
+ *
+ * @param {string} text - CSV text including the header row
+ * @param {CSVParseOptions} [options] - Column type options
+ * @returns {CSVRecord[]} Parsed records
+ *
+ * @example
+ * const rows = parseCSV(text, FALLBACK_CSV_OPTIONS['casualties_daily.csv'])
+ * rows[0].report_date // '2023-10-07'
+ */
+export function parseCSV(text: string, options: CSVParseOptions = {}): CSVRecord[] {
+  const records: CSVRecord[] = []
+  const parser = createCSVRecordParser(record => records.push(record), options)
+  parser.write(text)
+  parser.end()
+  return records
+}
+
+/**
+ * Parses CSV text arriving as a stream of chunks
+ *
+ * Records are yielded as soon as each chunk has been tokenized, so large files
+ * never need to be held in memory as a single string.
+ *
+ * @param {AsyncIterable<string>} chunks - Decoded text chunks (e.g. a `fs` read stream with an encoding)
+ * @param {CSVParseOptions} [options] - Column type options
+ * @yields {CSVRecord} Parsed records in file order
+ */
+export async function* parseCSVStream(
+  chunks: AsyncIterable<string>,
+  options: CSVParseOptions = {}
+): AsyncGenerator<CSVRecord> {
+  let pending: CSVRecord[] = []
+  const parser = createCSVRecordParser(record => pending.push(record), options)
+
+  for await (const chunk of chunks) {
+    parser.write(chunk)
+    if (pending.length > 0) {
+      yield* pending
+      pending = []
+    }
+  }
+
+  parser.end()
+  yield* pending
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Flattens a nested record into dotted-path keys
+ *
+ * @param {Record<string, unknown>} record - Record with nested objects
+ * @returns {Record<string, unknown>} Record keyed by dotted paths
+ *
+ * @example
+ * flattenRecord({ report_date: '2024-01-01', residential: { ext_destroyed: 5 } })
+ * // { report_date: '2024-01-01', 'residential.ext_destroyed': 5 }
+ */
+export function flattenRecord(record: Record<string, unknown>, prefix = ''): Record<string, unknown> {
+  const flat: Record<string, unknown> = {}
+
+  for (const [key, value] of Object.entries(record)) {
+    if (isPlainObject(value)) {
+      Object.assign(flat, flattenRecord(value, `${prefix}${key}.`))
+    } else {
+      flat[prefix + key] = value
+    }
+  }
+
+  return flat
+}
+
+/**
+ * Rebuilds nested objects from dotted-path keys
+ *
+ * The inverse of `flattenRecord`; keys without a dot are copied unchanged.
+ *
+ * @param {Record<string, unknown>} flat - Record keyed by dotted paths
+ * @returns {Record<string, unknown>} Record with nested objects
+ */
+export function unflattenRecord(flat: Record<string, unknown>): Record<string, unknown> {
+  const record: Record<string, unknown> = {}
+
+  for (const [key, value] of Object.entries(flat)) {
+    const parts = key.split('.')
+    let target = record
+
+    for (const part of parts.slice(0, -1)) {
+      if (!isPlainObject(target[part])) target[part] = {}
+      target = target[part] as Record<string, unknown>
+    }
+    target[parts[parts.length - 1]] = value
+  }
+
+  return record
+}
+
+/**
+ * Quotes a cell when it contains a delimiter, quote, line break or edge whitespace
+ */
+function formatCell(value: unknown): string {
+  if (value === undefined || value === null) return ''
+  const text = String(value)
+  return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Serializes records to RFC 4180 CSV text with dotted-path columns
+ *
+ * Nested objects are flattened with `flattenRecord`. Columns default to every
+ * key in first-seen order across all records, so fields that only appear in
+ * later records (such as newly added `ext_*` totals) are never dropped.
+ *
+ * @param {object[]} records - Records to serialize
+ * @param {string[]} [columns] - Explicit column order
+ * @returns {string} CSV text with a header row and a trailing newline
+ *
+ * @example
+ * const text = serializeCSV(infrastructureDamage)
+ * parseCSV(text, FALLBACK_CSV_OPTIONS['infrastructure-damaged.csv']).map(unflattenRecord) // round-trips
+ */
+export function serializeCSV(records: object[], columns?: string[]): string {
+  const rows = records.map(record => flattenRecord(record as Record<string, unknown>))
+  const headers = columns || Array.from(new Set(rows.flatMap(row => Object.keys(row))))
+
+  const lines = [
+    headers.map(formatCell).join(','),
+    ...rows.map(row => headers.map(header => formatCell(row[header])).join(','))
+  ]
+
+  return lines.join('\n') + '\n'
+}
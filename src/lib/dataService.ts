@@ -0,0 +1,258 @@
+/**
+ * Gaza Memorial Data Service
+ *
+ * Loading, parsing and filtering the full casualty list is too heavy for the
+ * main thread: it causes visible frame drops on the loading screen and on
+ * every filter change. The data service does this work in a Web Worker (see
+ * `dataWorker.ts` and `dataServiceClient.ts`) and answers with compact,
+ * transferable index buffers instead of record copies.
+ *
+ * Protocol:
+ * Every request carries an `id`; the response carries the same `id` and
+ * either the request's `type` or `error`.
+ * - `load` - load the dataset and its search index; returns `DataInfo`
+ * - `filter` - resolve `Filters`; returns record positions and particle indices
+ * - `search` - rank records by name only; returns the best positions and scores
+ * - `stats` - count records per gender, type, source and age group
+ * - `update` - sent unrequested, with id 0, when newer data replaced the cached copy
+ *
+ * Caching:
+ * `load` answers from the IndexedDB cache (see `datasetCache.ts`) when it holds
+ * a dataset, then revalidates it against the route's ETag in the background.
+ * Only when the route has newer data is it downloaded, cached and announced
+ * with `update`. Without a cached copy, `load` waits for the download.
+ *
+ * Buffers:
+ * Positions are `Uint32Array`s into `DataInfo.casualties`, which the main
+ * thread keeps. `particleIndices` is the `Float32Array` that `FloatingParticles`
+ * uses as its `particleIndex` attribute directly. All buffers are transferred,
+ * never copied.
+ *
+ * The handler has no dependency on the worker environment, so the client runs
+ * it in-process where Web Workers are unavailable.
+ *
+ * @author Palestine Memorial Project
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import { Casualty, DataInfo, fetchDataset, getFallbackData } from './dataLoader'
+import { CachedDataset, readCachedDataset, writeCachedDataset } from './datasetCache'
+import { describeLoadError } from './loadReport'
+import { SearchIndex, querySearchIndex, resolveSearchIndex } from './searchIndex'
+import type { Filters } from './store'
+
+/**
+ * Filters that match every record
+ */
+export const NO_FILTERS: Filters = {
+  gender: 'all',
+  ageRange: [0, 120],
+  source: 'all',
+  nameSearch: '',
+  type: 'all',
+  location: 'all'
+}
+
+/**
+ * Records matching a filter
+ *
+ * @interface FilterResult
+ * @property {Uint32Array} indices - Positions in `DataInfo.casualties`, in display order
+ * @property {Float32Array} particleIndices - Particle index per matching record, for the `particleIndex` attribute
+ */
+export interface FilterResult {
+  indices: Uint32Array
+  particleIndices: Float32Array
+}
+
+/**
+ * Best name matches
+ *
+ * @interface SearchResult
+ * @property {Uint32Array} indices - Positions in `DataInfo.casualties`, best first
+ * @property {Float32Array} scores - Match score per position
+ */
+export interface SearchResult {
+  indices: Uint32Array
+  scores: Float32Array
+}
+
+/**
+ * Record counts for a filter
+ *
+ * @interface DatasetStats
+ * @property {number} count - Matching records
+ * @property {Record<string, number>} gender - Matching records per gender
+ * @property {Record<string, number>} type - Matching records per type
+ * @property {Record<string, number>} source - Matching records per source
+ * @property {Record<'children' | 'adults' | 'elderly', number>} ageGroups - Under 18, 18-59 and 60+
+ */
+export interface DatasetStats {
+  count: number
+  gender: Record<string, number>
+  type: Record<string, number>
+  source: Record<string, number>
+  ageGroups: Record<'children' | 'adults' | 'elderly', number>
+}
+
+/**
+ * A loaded dataset and where it came from
+ *
+ * @interface DatasetLoad
+ * @property {DataInfo} dataInfo - The dataset (without its search index, which stays in the service)
+ * @property {number | null} cachedAt - When the cached copy was downloaded; null when freshly downloaded
+ */
+export interface DatasetLoad {
+  dataInfo: DataInfo
+  cachedAt: number | null
+}
+
+/**
+ * Request payloads, without the request id
+ */
+export type DataServiceRequestBody =
+  | { type: 'load' }
+  | { type: 'filter'; filters: Filters }
+  | { type: 'search'; query: string; limit: number }
+  | { type: 'stats'; filters: Filters }
+
+/**
+ * Response payloads, without the request id
+ */
+export type DataServiceResponseBody =
+  | { type: 'load'; result: DatasetLoad }
+  | { type: 'update'; result: DatasetLoad }
+  | { type: 'filter'; result: FilterResult }
+  | { type: 'search'; result: SearchResult }
+  | { type: 'stats'; stats: DatasetStats }
+  | { type: 'error'; message: string }
+
+export type DataServiceRequest = DataServiceRequestBody & { id: number }
+export type DataServiceResponse = DataServiceResponseBody & { id: number }
+
+/**
+ * Handles one request; resolves with the response and the buffers to transfer
+ */
+export type DataServiceHandler = (
+  request: DataServiceRequest
+) => Promise<{ response: DataServiceResponse; transfer: Transferable[] }>
+
+function countBy(counts: Record<string, number>, value: string | undefined): void {
+  if (value === undefined) return
+  counts[value] = (counts[value] || 0) + 1
+}
+
+function computeStats(records: Casualty[], indices: Uint32Array): DatasetStats {
+  const stats: DatasetStats = {
+    count: indices.length,
+    gender: {},
+    type: {},
+    source: {},
+    ageGroups: { children: 0, adults: 0, elderly: 0 }
+  }
+
+  indices.forEach(position => {
+    const record = records[position]
+    countBy(stats.gender, record.gender)
+    countBy(stats.type, record.type)
+    countBy(stats.source, record.source)
+    if (record.age < 18) stats.ageGroups.children++
+    else if (record.age < 60) stats.ageGroups.adults++
+    else stats.ageGroups.elderly++
+  })
+
+  return stats
+}
+
+/**
+ * Downloads the dataset and caches it; falls back to placeholder data, uncached, when unreachable
+ */
+async function downloadDataset(): Promise<DataInfo> {
+  try {
+    const result = await fetchDataset()
+    if (result.status !== 'fresh') throw new Error('Unconditional dataset request answered with 304')
+    await writeCachedDataset(result.dataInfo, result.validators)
+    return result.dataInfo
+  } catch (error) {
+    console.error('Error loading memorial data:', error)
+    return getFallbackData(`Dataset route failed: ${describeLoadError(error)}`)
+  }
+}
+
+/**
+ * Creates a stateful request handler holding the loaded dataset and its index
+ *
+ * @param {(body: DataServiceResponseBody) => void} [onUpdate] - Receives `update` messages
+ * @returns {DataServiceHandler} Request handler
+ */
+export function createDataServiceHandler(onUpdate?: (body: DataServiceResponseBody) => void): DataServiceHandler {
+  let records: Casualty[] = []
+  let index: SearchIndex | null = null
+
+  const respond = (
+    id: number,
+    body: DataServiceResponseBody,
+    transfer: Transferable[] = []
+  ): { response: DataServiceResponse; transfer: Transferable[] } => ({ response: { ...body, id }, transfer })
+
+  // The index stays here; the main thread only needs the records
+  const applyDataset = (dataInfo: DataInfo, cachedAt: number | null): DatasetLoad => {
+    records = dataInfo.casualties
+    index = resolveSearchIndex(records, dataInfo.searchIndex)
+    return { dataInfo: { ...dataInfo, searchIndex: null }, cachedAt }
+  }
+
+  const revalidate = async (cached: CachedDataset) => {
+    try {
+      const result = await fetchDataset(cached.validators)
+      if (result.status === 'not-modified') {
+        console.log('✅ Cached memorial dataset is up to date')
+        return
+      }
+      await writeCachedDataset(result.dataInfo, result.validators)
+      console.log(`🔄 Newer memorial dataset downloaded: ${result.dataInfo.totalCount} souls`)
+      onUpdate?.({ type: 'update', result: applyDataset(result.dataInfo, null) })
+    } catch (error) {
+      console.warn('⚠️ Could not revalidate cached memorial dataset:', error)
+    }
+  }
+
+  return async request => {
+    try {
+      if (request.type === 'load') {
+        const cached = await readCachedDataset()
+        if (cached) {
+          console.log(`✅ Memorial dataset loaded from cache (${new Date(cached.cachedAt).toISOString()})`)
+          const result = applyDataset(cached.dataInfo, cached.cachedAt)
+          void revalidate(cached)
+          return respond(request.id, { type: 'load', result })
+        }
+        return respond(request.id, { type: 'load', result: applyDataset(await downloadDataset(), null) })
+      }
+      if (!index) throw new Error('Dataset not loaded')
+
+      if (request.type === 'filter') {
+        const { indices } = querySearchIndex(index, records, request.filters)
+        const particleIndices = Float32Array.from(indices, (_, particle) => particle)
+        return respond(
+          request.id,
+          { type: 'filter', result: { indices, particleIndices } },
+          [indices.buffer, particleIndices.buffer]
+        )
+      }
+
+      if (request.type === 'search') {
+        const matches = querySearchIndex(index, records, { ...NO_FILTERS, nameSearch: request.query })
+        const indices = matches.indices.slice(0, request.limit)
+        const scores = matches.scores.slice(0, request.limit)
+        return respond(request.id, { type: 'search', result: { indices, scores } }, [indices.buffer, scores.buffer])
+      }
+
+      const { indices } = querySearchIndex(index, records, request.filters)
+      return respond(request.id, { type: 'stats', stats: computeStats(records, indices) })
+    } catch (error) {
+      return respond(request.id, { type: 'error', message: error instanceof Error ? error.message : String(error) })
+    }
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * Gaza Memorial Data Service Client
+ *
+ * Main-thread side of the data service (see `dataService.ts`). Requests are
+ * posted to the data worker and resolved when the response with the same id
+ * arrives; unrequested `update` messages go to `onUpdate` listeners.
+ *
+ * Fallback:
+ * Where Web Workers are unavailable, or the worker fails to start, requests
+ * are handled in-process by the same handler the worker runs. When the worker
+ * fails, the in-process handler first loads the dataset (from the cache the
+ * worker wrote, where it got that far); requests still pending are replayed
+ * once it holds the data, and pending loads receive that load.
+ *
+ * @author Palestine Memorial Project
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import {
+  DataServiceHandler,
+  DataServiceRequest,
+  DataServiceRequestBody,
+  DataServiceResponse,
+  DatasetLoad,
+  DatasetStats,
+  FilterResult,
+  NO_FILTERS,
+  SearchResult,
+  createDataServiceHandler
+} from './dataService'
+import type { Filters } from './store'
+
+/**
+ * Promise-based access to the data service
+ *
+ * @interface DataService
+ * @property {() => Promise<DatasetLoad>} load - Loads the dataset, from cache when possible; must resolve before other requests
+ * @property {(filters: Filters) => Promise<FilterResult>} filter - Resolves filters to record positions
+ * @property {(query: string, limit?: number) => Promise<SearchResult>} search - Best name matches
+ * @property {(filters?: Filters) => Promise<DatasetStats>} stats - Record counts, for all records by default
+ * @property {(listener: (update: DatasetLoad) => void) => () => void} onUpdate - Subscribes to newer datasets replacing the loaded one; returns the unsubscribe function
+ * @property {() => void} terminate - Stops the worker; pending requests are rejected
+ */
+export interface DataService {
+  load: () => Promise<DatasetLoad>
+  filter: (filters: Filters) => Promise<FilterResult>
+  search: (query: string, limit?: number) => Promise<SearchResult>
+  stats: (filters?: Filters) => Promise<DatasetStats>
+  onUpdate: (listener: (update: DatasetLoad) => void) => () => void
+  terminate: () => void
+}
+
+/**
+ * Default number of search results
+ */
+const DEFAULT_SEARCH_LIMIT = 50
+
+interface PendingRequest {
+  request: DataServiceRequest
+  resolve: (response: DataServiceResponse) => void
+  reject: (error: Error) => void
+}
+
+function startWorker(): Worker | null {
+  if (typeof Worker === 'undefined') return null
+  try {
+    return new Worker(new URL('./dataWorker.ts', import.meta.url))
+  } catch (error) {
+    console.warn('⚠️ Data worker unavailable, filtering on the main thread:', error)
+    return null
+  }
+}
+
+/**
+ * Creates the data service, backed by a Web Worker where available
+ *
+ * @returns {DataService} Data service client
+ *
+ * @example
+ * const service = createDataService()
+ * const dataInfo = await service.load()
+ * const { indices } = await service.filter(filters)
+ */
+export function createDataService(): DataService {
+  const pending = new Map<number, PendingRequest>()
+  const listeners = new Set<(update: DatasetLoad) => void>()
+  let nextId = 1
+
+  const settle = (response: DataServiceResponse) => {
+    if (response.type === 'update') {
+      listeners.forEach(listener => listener(response.result))
+      return
+    }
+    const entry = pending.get(response.id)
+    if (!entry) return
+    pending.delete(response.id)
+    if (response.type === 'error') entry.reject(new Error(response.message))
+    else entry.resolve(response)
+  }
+
+  const createFallback = () => createDataServiceHandler(body => settle({ ...body, id: 0 }))
+  let worker = startWorker()
+  let fallback: DataServiceHandler | null = worker ? null : createFallback()
+  // Settles once the in-process handler holds a dataset after the worker failed
+  let recovery: Promise<void> = Promise.resolve()
+
+  const runInProcess = (request: DataServiceRequest) =>
+    fallback!(request).then(({ response }) => settle(response))
+
+  const handleInProcess = (request: DataServiceRequest) => {
+    void recovery.then(() => runInProcess(request))
+  }
+
+  if (worker) {
+    worker.onmessage = (event: MessageEvent<DataServiceResponse>) => settle(event.data)
+    worker.onerror = event => {
+      console.warn('⚠️ Data worker failed, filtering on the main thread:', event.message)
+      worker?.terminate()
+      worker = null
+      fallback = createFallback()
+      // The in-process handler has no dataset yet, even when the worker had finished loading
+      const replay = Array.from(pending.values(), ({ request }) => request)
+      recovery = fallback({ type: 'load', id: 0 }).then(({ response: loaded }) => {
+        replay.forEach(request => {
+          if (request.type === 'load') settle({ ...loaded, id: request.id })
+          else void runInProcess(request)
+        })
+      })
+    }
+  }
+
+  const send = <T extends DataServiceResponse['type']>(body: DataServiceRequestBody) =>
+    new Promise<Extract<DataServiceResponse, { type: T }>>((resolve, reject) => {
+      const request = { ...body, id: nextId++ } as DataServiceRequest
+      pending.set(request.id, {
+        request,
+        resolve: response => resolve(response as Extract<DataServiceResponse, { type: T }>),
+        reject
+      })
+      if (worker) worker.postMessage(request)
+      else handleInProcess(request)
+    })
+
+  return {
+    load: async () => (await send<'load'>({ type: 'load' })).result,
+    filter: async filters => (await send<'filter'>({ type: 'filter', filters })).result,
+    search: async (query, limit = DEFAULT_SEARCH_LIMIT) =>
+      (await send<'search'>({ type: 'search', query, limit })).result,
+    stats: async (filters = NO_FILTERS) => (await send<'stats'>({ type: 'stats', filters })).stats,
+    onUpdate: listener => {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+    terminate: () => {
+      worker?.terminate()
+      worker = null
+      pending.forEach(({ reject }) => reject(new Error('Data service terminated')))
+      pending.clear()
+    }
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Gaza Memorial Data Source Registry
+ *
+ * Every upstream dataset the memorial draws on is declared as a `DataSource`:
+ * how to fetch and parse it, the schema its records must satisfy, how to
+ * normalize them, which bundled CSV to fall back to, and whose work it is.
+ * The server orchestrator (`memorialDataset.ts`) loads whatever is registered,
+ * so a new source never requires editing it.
+ *
+ * Kinds:
+ * - `casualties` - named individuals; every registered list is loaded and
+ *   merged (see `reconciliation.ts`), lower `priority` first
+ * - `gazaDaily`, `westBankDaily`, `infrastructure` - time series; the first
+ *   source by `priority` that delivers records is used
+ * - `summary` - headline figures, kept for logging
+ *
+ * Adding a Source:
+ * Declare a `DataSource` (see `techForPalestineSources.ts` for examples), e.g.
+ * a West Bank named list or our own community submissions, and register it
+ * at the bottom of this file. Its attribution then appears on the About page,
+ * its load status in the diagnostics panel and its CSV in the fallback
+ * refresh automatically.
+ *
+ * @author Palestine Memorial Project
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import type { Casualty, DailyCasualties, InfrastructureDamage, WestBankCasualties } from './dataLoader'
+import type { LoadOrigin } from './loadReport'
+import { TECH_FOR_PALESTINE_SOURCES } from './techForPalestineSources'
+import type { RecordSchema } from './validation'
+
+/**
+ * What a source contributes to the dataset
+ */
+export type DataSourceKind = 'casualties' | 'gazaDaily' | 'westBankDaily' | 'infrastructure' | 'summary'
+
+/**
+ * Normalized record type produced by each kind of source
+ */
+export interface DataSourceRecords {
+  casualties: Casualty
+  gazaDaily: DailyCasualties
+  westBankDaily: WestBankCasualties
+  infrastructure: InfrastructureDamage
+  summary: Record<string, unknown>
+}
+
+/**
+ * Who publishes a source and on what terms
+ *
+ * @interface DataSourceAttribution
+ * @property {string} publisher - Organization credited for the data
+ * @property {string} url - Where the data is published
+ * @property {string} license - License or terms of use
+ * @property {string} [licenseUrl] - Full license text
+ * @property {string} description - What the source documents and where it comes from
+ */
+export interface DataSourceAttribution {
+  publisher: string
+  url: string
+  license: string
+  licenseUrl?: string
+  description: string
+}
+
+/**
+ * An upstream dataset
+ *
+ * @interface DataSource
+ * @template K - Kind of records the source contributes
+ * @template Raw - Record shape as received, after schema validation
+ * @property {string} id - Unique identifier, used in logs and load and validation reports
+ * @property {string} name - Human-readable name
+ * @property {K} kind - What the source contributes
+ * @property {number} priority - Lower loads first; for `casualties` the earlier record wins a merge
+ * @property {number} timeout - Per-attempt fetch timeout in milliseconds
+ * @property {string} [fallbackFile] - CSV in `public/` used when the fetch fails (see `FALLBACK_CSV_OPTIONS`)
+ * @property {boolean} [essential] - The memorial cannot do without it; a failed validation keeps the dataset out of the offline snapshot
+ * @property {RecordSchema} schema - Schema every raw record must satisfy
+ * @property {DataSourceAttribution} attribution - Credit and license, listed on the About page
+ */
+export interface DataSource<K extends DataSourceKind = DataSourceKind, Raw = unknown> {
+  id: string
+  name: string
+  kind: K
+  priority: number
+  timeout: number
+  fallbackFile?: string
+  essential?: boolean
+  schema: RecordSchema
+  attribution: DataSourceAttribution
+  /** Requests the source; rejects when it is unavailable */
+  fetch(timeout: number): Promise<Response>
+  /** Extracts the raw records from a successful response */
+  parse(response: Response): Promise<unknown>
+  /** Converts a validated record; `index` is its position among valid records */
+  normalize(record: Raw, index: number, origin: LoadOrigin): DataSourceRecords[K]
+}
+
+const registry = new Map<string, DataSource>()
+
+/**
+ * Adds a source to the registry
+ *
+ * @param {DataSource} source - Source to register
+ * @throws {Error} When a source with the same id is already registered
+ */
+export function registerDataSource(source: DataSource): void {
+  if (registry.has(source.id)) {
+    throw new Error(`Data source "${source.id}" is already registered`)
+  }
+  registry.set(source.id, source)
+}
+
+/**
+ * Lists registered sources, lowest priority first
+ *
+ * @param {K} [kind] - Only list sources of this kind
+ * @returns {DataSource<K>[]} Registered sources
+ */
+export function getDataSources<K extends DataSourceKind = DataSourceKind>(kind?: K): DataSource<K>[] {
+  return Array.from(registry.values())
+    .filter((source): source is DataSource<K> => !kind || source.kind === kind)
+    .sort((a, b) => a.priority - b.priority)
+}
+
+TECH_FOR_PALESTINE_SOURCES.forEach(registerDataSource)
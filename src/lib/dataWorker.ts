@@ -0,0 +1,21 @@
+/**
+ * Gaza Memorial Data Worker
+ *
+ * Web Worker entry point for the data service: fetches and parses the dataset,
+ * holds the search index, and answers filter, search and stats requests off
+ * the main thread. See `dataService.ts` for the message protocol.
+ *
+ * @author Palestine Memorial Project
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import { DataServiceRequest, createDataServiceHandler } from './dataService'
+
+// Unrequested updates use id 0, which no request has
+const handle = createDataServiceHandler(body => self.postMessage({ ...body, id: 0 }))
+
+self.onmessage = async (event: MessageEvent<DataServiceRequest>) => {
+  const { response, transfer } = await handle(event.data)
+  self.postMessage(response, { transfer })
+}
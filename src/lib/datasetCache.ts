@@ -0,0 +1,117 @@
+/**
+ * Gaza Memorial Dataset Cache (IndexedDB)
+ *
+ * Keeps the last downloaded `DataInfo`, including its precomputed search index,
+ * in IndexedDB so that returning visitors see the memorial immediately instead
+ * of downloading several megabytes first. The cached copy is revalidated in the
+ * background with the HTTP validators stored alongside it.
+ *
+ * Versioning:
+ * The database version is `DATASET_CACHE_VERSION`. Bump it whenever the shape
+ * of `DataInfo` changes; the upgrade drops every entry written in an older
+ * format, so a stale shape is never rendered.
+ *
+ * Every function resolves to a harmless value (null or nothing) when IndexedDB
+ * is unavailable or fails, e.g. in private browsing; the cache is an
+ * optimization, never a requirement.
+ *
+ * @author Palestine Memorial Project
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import type { DataInfo, DatasetValidators } from './dataLoader'
+
+/**
+ * Cache format version; bump when `DataInfo` changes shape
+ */
+export const DATASET_CACHE_VERSION = 4
+
+const DATABASE_NAME = 'gaza-memorial'
+const STORE_NAME = 'datasets'
+const ENTRY_KEY = 'current'
+
+/**
+ * A cached dataset with the validators of the response it came from
+ *
+ * @interface CachedDataset
+ * @property {DataInfo} dataInfo - The cached dataset
+ * @property {DatasetValidators} validators - Validators for revalidation
+ * @property {number} cachedAt - When the dataset was downloaded (ms since epoch)
+ */
+export interface CachedDataset {
+  dataInfo: DataInfo
+  validators: DatasetValidators
+  cachedAt: number
+}
+
+/**
+ * Wraps an IndexedDB request in a promise
+ */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') return Promise.resolve(null)
+
+  const request = indexedDB.open(DATABASE_NAME, DATASET_CACHE_VERSION)
+  request.onupgradeneeded = () => {
+    const database = request.result
+    // Entries from older versions have an outdated shape; start over
+    if (database.objectStoreNames.contains(STORE_NAME)) database.deleteObjectStore(STORE_NAME)
+    database.createObjectStore(STORE_NAME)
+  }
+  return promisify(request)
+}
+
+/**
+ * Runs `operation` on the dataset store and closes the database afterwards
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | null> {
+  let database: IDBDatabase | null = null
+  try {
+    database = await openDatabase()
+    if (!database) return null
+    return await promisify(operation(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME)))
+  } catch (error) {
+    console.warn('⚠️ Dataset cache unavailable:', error)
+    return null
+  } finally {
+    database?.close()
+  }
+}
+
+/**
+ * Reads the cached dataset
+ *
+ * @returns {Promise<CachedDataset | null>} The cached dataset, or null when there is none
+ */
+export async function readCachedDataset(): Promise<CachedDataset | null> {
+  const entry = await withStore<CachedDataset | undefined>('readonly', store => store.get(ENTRY_KEY))
+  return entry ?? null
+}
+
+/**
+ * Stores a downloaded dataset, replacing the previous one
+ *
+ * @param {DataInfo} dataInfo - Dataset to cache
+ * @param {DatasetValidators} validators - Validators of the response it came from
+ */
+export async function writeCachedDataset(dataInfo: DataInfo, validators: DatasetValidators): Promise<void> {
+  const entry: CachedDataset = { dataInfo, validators, cachedAt: Date.now() }
+  await withStore('readwrite', store => store.put(entry, ENTRY_KEY))
+}
+
+/**
+ * Removes the cached dataset
+ */
+export async function clearCachedDataset(): Promise<void> {
+  await withStore('readwrite', store => store.delete(ENTRY_KEY))
+}
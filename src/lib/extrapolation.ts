@@ -0,0 +1,336 @@
+/**
+ * Gaza Memorial Statistical Extrapolation
+ *
+ * Generates the "statistical souls" that represent people killed whose names
+ * are not (yet) in the named casualty lists, so the memorial shows the full
+ * scope of loss.
+ *
+ * Model:
+ * Every soul is derived only from the seed, its index N and the target ratios.
+ * Soul N draws from its own seeded stream `hashSeed(seed, N)` in a fixed order:
+ * 1. Region - West Bank when the draw is below `ratios.westBank`, else Gaza Strip
+ * 2. Demographic - child below `children`, woman below `children + women`, otherwise man
+ * 3. Gender - children are male or female with equal probability
+ * 4. Age - children 1-18, adults 18-77, uniformly
+ * 5. Category - press, medical or civil defense by their ratios, otherwise civilian
+ * 6. Date of death - a day of the region's daily series, weighted by the deaths
+ *    reported that day (see `buildDeathTimeline`)
+ * 7. Governorate - weighted by population share within the region
+ *
+ * Consequences:
+ * - `stat_N` is the same person on every load with the same inputs
+ * - Generating more souls appends new ones; existing souls are unchanged
+ * - A small change in a ratio only moves the souls whose draw sits between
+ *   the old and new threshold, never reshuffles the rest
+ *
+ * Demographic ratios come from the Gaza figures and are applied to West Bank
+ * souls as well, as the West Bank series does not break deaths down by sex.
+ * Neither series is broken down by governorate, so governorates are assigned
+ * by population; dates and governorates are therefore estimates for the
+ * distribution as a whole, not facts about any one soul.
+ *
+ * @author Palestine Memorial Project
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import { GOVERNORATE_POPULATION_SHARES, Governorate, Region, getAgeBand } from './casualtyFields'
+import type { Casualty, MemorialStats } from './dataLoader'
+import { createSeededRandom, hashSeed } from './random'
+
+/**
+ * Seed for the published extrapolation; changing it changes every statistical soul
+ */
+export const EXTRAPOLATION_SEED = 20231007
+
+/**
+ * Target proportions the extrapolation reproduces
+ *
+ * @interface ExtrapolationRatios
+ * @property {number} children - Share of souls who are children
+ * @property {number} women - Share of souls who are adult women
+ * @property {number} westBank - Share of souls from the West Bank
+ * @property {number} press - Share of souls who were journalists
+ * @property {number} medical - Share of souls who were medical personnel
+ * @property {number} civilDefense - Share of souls who were civil defense personnel
+ */
+export interface ExtrapolationRatios {
+  children: number
+  women: number
+  westBank: number
+  press: number
+  medical: number
+  civilDefense: number
+}
+
+/**
+ * Generated distribution compared with the target ratios
+ *
+ * @interface ExtrapolationReport
+ * @property {number} seed - Seed used for generation
+ * @property {number} count - Number of souls generated
+ * @property {ExtrapolationRatios} target - Ratios the model aimed for
+ * @property {ExtrapolationRatios} actual - Ratios in the generated souls
+ * @property {number} maxDeviation - Largest absolute difference between target and actual
+ */
+export interface ExtrapolationReport {
+  seed: number
+  count: number
+  target: ExtrapolationRatios
+  actual: ExtrapolationRatios
+  maxDeviation: number
+}
+
+/**
+ * Ratios used when the statistics provide no usable totals
+ */
+export const DEFAULT_EXTRAPOLATION_RATIOS: ExtrapolationRatios = {
+  children: 0.4,
+  women: 0.3,
+  westBank: 0,
+  press: 0.01,
+  medical: 0.01,
+  civilDefense: 0.005
+}
+
+/**
+ * Derives target ratios from the latest memorial statistics
+ *
+ * @param {MemorialStats} stats - Latest memorial statistics
+ * @returns {ExtrapolationRatios} Target ratios, falling back to defaults for missing totals
+ */
+export function getExtrapolationRatios(stats: MemorialStats): ExtrapolationRatios {
+  const gazaTotal = stats.gaza.total_killed
+  const westBankTotal = stats.west_bank.total_killed
+  const share = (value: number, total: number, fallback: number) =>
+    total > 0 && value > 0 ? value / total : fallback
+
+  return {
+    children: share(stats.gaza.children_killed, gazaTotal, DEFAULT_EXTRAPOLATION_RATIOS.children),
+    women: share(stats.gaza.women_killed, gazaTotal, DEFAULT_EXTRAPOLATION_RATIOS.women),
+    westBank: share(westBankTotal, gazaTotal + westBankTotal, DEFAULT_EXTRAPOLATION_RATIOS.westBank),
+    press: share(stats.gaza.press_killed, gazaTotal, DEFAULT_EXTRAPOLATION_RATIOS.press),
+    medical: share(stats.gaza.medical_killed, gazaTotal, DEFAULT_EXTRAPOLATION_RATIOS.medical),
+    civilDefense: share(stats.gaza.civil_defense_killed, gazaTotal, DEFAULT_EXTRAPOLATION_RATIOS.civilDefense)
+  }
+}
+
+/**
+ * Deaths per day of one region, as a cumulative distribution
+ *
+ * @interface DeathTimeline
+ * @property {string[]} dates - ISO report dates, ascending
+ * @property {number[]} cumulative - Deaths reported up to and including each date
+ */
+export interface DeathTimeline {
+  dates: string[]
+  cumulative: number[]
+}
+
+/**
+ * Death timelines per region; a region without one leaves `date_of_death` unset
+ */
+export type DeathTimelines = Partial<Record<Region, DeathTimeline>>
+
+/**
+ * Builds a death timeline from a cumulative daily series
+ *
+ * Each day is weighted by the rise in its cumulative killed figure, preferring
+ * the extended `ext_killed_cum` series. Downward corrections count as zero.
+ *
+ * @param series - Daily reports with cumulative killed figures
+ * @returns {DeathTimeline | null} The timeline, or null when the series reports no deaths
+ *
+ * @example
+ * const timelines = { 'Gaza Strip': buildDeathTimeline(dailyData) ?? undefined }
+ */
+export function buildDeathTimeline(
+  series: Array<{ report_date: string; killed_cum?: number; ext_killed_cum?: number }>
+): DeathTimeline | null {
+  const reports = series
+    .filter(report => /^\d{4}-\d{2}-\d{2}/.test(report.report_date))
+    .sort((a, b) => a.report_date.localeCompare(b.report_date))
+
+  const timeline: DeathTimeline = { dates: [], cumulative: [] }
+  let previous = 0
+  let total = 0
+  for (const report of reports) {
+    const killed = report.ext_killed_cum ?? report.killed_cum
+    if (killed === undefined || killed <= previous) continue
+    total += killed - previous
+    previous = killed
+    timeline.dates.push(report.report_date.slice(0, 10))
+    timeline.cumulative.push(total)
+  }
+
+  return total > 0 ? timeline : null
+}
+
+/**
+ * Returns the date at quantile `draw` of a timeline
+ */
+function drawDate(timeline: DeathTimeline, draw: number): string {
+  const target = draw * timeline.cumulative[timeline.cumulative.length - 1]
+  let low = 0
+  let high = timeline.cumulative.length - 1
+  while (low < high) {
+    const middle = (low + high) >> 1
+    if (timeline.cumulative[middle] > target) high = middle
+    else low = middle + 1
+  }
+  return timeline.dates[low]
+}
+
+/**
+ * Returns the governorate at quantile `draw` of a region's population
+ */
+function drawGovernorate(region: Region, draw: number): Governorate {
+  const shares = GOVERNORATE_POPULATION_SHARES[region]
+  const total = shares.reduce((sum, [, share]) => sum + share, 0)
+  let threshold = draw * total
+  for (const [governorate, share] of shares) {
+    threshold -= share
+    if (threshold < 0) return governorate
+  }
+  return shares[shares.length - 1][0]
+}
+
+/**
+ * Draws soul N and the demographic group it was drawn into
+ *
+ * The group is returned alongside the soul because ages overlap at 18, so it
+ * cannot be recovered from the soul itself.
+ */
+function drawSoul(
+  index: number,
+  ratios: ExtrapolationRatios,
+  timelines: DeathTimelines,
+  seed: number
+): { soul: Casualty; group: 'child' | 'woman' | 'man' } {
+  const random = createSeededRandom(hashSeed(seed, index))
+
+  const isWestBank = random() < ratios.westBank
+
+  const demographic = random()
+  const genderDraw = random()
+  const ageDraw = random()
+  let group: 'child' | 'woman' | 'man'
+  let gender: 'male' | 'female'
+  let age: number
+  if (demographic < ratios.children) {
+    group = 'child'
+    gender = genderDraw < 0.5 ? 'male' : 'female'
+    age = Math.floor(ageDraw * 18) + 1
+  } else if (demographic < ratios.children + ratios.women) {
+    group = 'woman'
+    gender = 'female'
+    age = Math.floor(ageDraw * 60) + 18
+  } else {
+    group = 'man'
+    gender = 'male'
+    age = Math.floor(ageDraw * 60) + 18
+  }
+
+  const category = random()
+  let type: Casualty['type'] = 'civilian'
+  if (category < ratios.press) type = 'press'
+  else if (category < ratios.press + ratios.medical) type = 'medical'
+  else if (category < ratios.press + ratios.medical + ratios.civilDefense) type = 'civil_defense'
+
+  // Drawn after every earlier field so adding them left existing souls unchanged
+  const region: Region = isWestBank ? 'West Bank' : 'Gaza Strip'
+  const dateDraw = random()
+  const timeline = timelines[region]
+  const location = drawGovernorate(region, random())
+
+  const soul: Casualty = {
+    id: `stat_${index}`,
+    name_en: `Soul ${index}`,
+    name_ar: `روح ${index}`,
+    age,
+    age_band: getAgeBand(age),
+    gender,
+    date_of_birth: '',
+    source: 'Statistical Extrapolation',
+    sources: ['Statistical Extrapolation'],
+    data_source: isWestBank ? 'West Bank Statistics' : 'Gaza Statistics',
+    type,
+    region,
+    location,
+    date_of_death: timeline ? drawDate(timeline, dateDraw) : undefined
+  }
+
+  return { soul, group }
+}
+
+/**
+ * Generates statistical soul N
+ *
+ * @param {number} index - 1-based soul index; the soul's id is `stat_<index>`
+ * @param {ExtrapolationRatios} ratios - Target ratios
+ * @param {DeathTimelines} [timelines] - Death timelines the date of death is drawn from
+ * @param {number} [seed] - Extrapolation seed
+ * @returns {Casualty} The statistical soul
+ */
+export function generateStatisticalSoul(
+  index: number,
+  ratios: ExtrapolationRatios,
+  timelines: DeathTimelines = {},
+  seed: number = EXTRAPOLATION_SEED
+): Casualty {
+  return drawSoul(index, ratios, timelines, seed).soul
+}
+
+/**
+ * Generates statistical souls `stat_1` to `stat_<count>` and reports their distribution
+ *
+ * @param {number} count - Number of souls to generate
+ * @param {ExtrapolationRatios} ratios - Target ratios
+ * @param {DeathTimelines} [timelines] - Death timelines the dates of death are drawn from
+ * @param {number} [seed] - Extrapolation seed
+ * @returns Generated souls and the distribution report
+ *
+ * @example
+ * const timelines = { 'Gaza Strip': buildDeathTimeline(dailyData) ?? undefined }
+ * const { casualties, report } = extrapolateCasualties(60000, getExtrapolationRatios(stats), timelines)
+ * console.log(`Largest deviation from target: ${report.maxDeviation}`)
+ */
+export function extrapolateCasualties(
+  count: number,
+  ratios: ExtrapolationRatios,
+  timelines: DeathTimelines = {},
+  seed: number = EXTRAPOLATION_SEED
+): { casualties: Casualty[]; report: ExtrapolationReport } {
+  const casualties: Casualty[] = []
+  const counts = { children: 0, women: 0, westBank: 0, press: 0, medical: 0, civilDefense: 0 }
+
+  for (let index = 1; index <= count; index++) {
+    const { soul, group } = drawSoul(index, ratios, timelines, seed)
+    casualties.push(soul)
+
+    if (group === 'child') counts.children++
+    else if (group === 'woman') counts.women++
+    if (soul.region === 'West Bank') counts.westBank++
+    if (soul.type === 'press') counts.press++
+    else if (soul.type === 'medical') counts.medical++
+    else if (soul.type === 'civil_defense') counts.civilDefense++
+  }
+
+  const share = (value: number) => (count > 0 ? value / count : 0)
+  const actual: ExtrapolationRatios = {
+    children: share(counts.children),
+    women: share(counts.women),
+    westBank: share(counts.westBank),
+    press: share(counts.press),
+    medical: share(counts.medical),
+    civilDefense: share(counts.civilDefense)
+  }
+  const maxDeviation = Math.max(
+    ...(Object.keys(ratios) as Array<keyof ExtrapolationRatios>).map(key => Math.abs(actual[key] - ratios[key]))
+  )
+
+  return {
+    casualties,
+    report: { seed, count, target: ratios, actual, maxDeviation }
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Gaza Memorial Geography
+ *
+ * Governorate outlines for the map layout, read from the GeoJSON bundled in
+ * `geo/governorates.json` so the map needs no tile service or network access.
+ * The outlines are simplified to a handful of vertices per governorate, with
+ * neighbouring governorates sharing their border vertices; they show where
+ * people were killed and are not meant for measurement.
+ *
+ * Projection:
+ * Each region is drawn in its own panel of the scene, the Gaza Strip on the
+ * left and the West Bank on the right (see `MAP_PANELS`). Within a panel,
+ * coordinates are projected equirectangularly, longitudes scaled by the
+ * cosine of the region's mean latitude, and fitted to the panel. The Gaza
+ * Strip is far smaller than the West Bank but holds most of the dead, so the
+ * two panels are deliberately drawn at different scales.
+ *
+ * @author Palestine Memorial Project
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import { Governorate, Region, getRegion, normalizeGovernorate } from './casualtyFields'
+import governorateGeoJSON from './geo/governorates.json'
+
+/**
+ * Scene rectangle a region is drawn in
+ *
+ * @interface MapPanel
+ * @property {[number, number]} x - Left and right edge
+ * @property {[number, number]} y - Bottom and top edge
+ */
+export interface MapPanel {
+  x: [number, number]
+  y: [number, number]
+}
+
+/**
+ * Panels of the map layout, in scene units
+ */
+export const MAP_PANELS: Record<Region, MapPanel> = {
+  'Gaza Strip': { x: [-10, -1], y: [-3, 6] },
+  'West Bank': { x: [1, 10], y: [-3, 6] }
+}
+
+/**
+ * A governorate outline projected into the scene
+ *
+ * @interface GovernorateShape
+ * @property {Governorate} governorate - Governorate
+ * @property {Region} region - Region the governorate belongs to
+ * @property {Array<[number, number]>} outline - Scene x/y vertices, counter-clockwise, not closed
+ * @property {[number, number]} centroid - Scene x/y centroid
+ */
+export interface GovernorateShape {
+  governorate: Governorate
+  region: Region
+  outline: Array<[number, number]>
+  centroid: [number, number]
+}
+
+let shapes: GovernorateShape[] | null = null
+
+/**
+ * Returns every governorate outline projected into its map panel
+ *
+ * @returns {GovernorateShape[]} Shapes in GeoJSON order (north to south per region)
+ */
+export function getGovernorateShapes(): GovernorateShape[] {
+  if (shapes) return shapes
+
+  const features = governorateGeoJSON.features.flatMap(feature => {
+    const governorate = normalizeGovernorate(feature.properties.name)
+    if (!governorate) {
+      console.warn(`⚠️ Unknown governorate in bundled GeoJSON: ${feature.properties.name}`)
+      return []
+    }
+    // The first ring is the outline; GeoJSON rings repeat their first vertex
+    const ring = feature.geometry.coordinates[0].slice(0, -1).map(([lon, lat]) => [lon, lat] as [number, number])
+    return [{ governorate, region: getRegion(governorate), ring }]
+  })
+
+  // One projection per region, fitting all of its governorates into its panel
+  const projections = new Map<Region, (point: [number, number]) => [number, number]>()
+  ;(Object.keys(MAP_PANELS) as Region[]).forEach(region => {
+    const points = features.filter(feature => feature.region === region).flatMap(feature => feature.ring)
+    if (points.length === 0) return
+    const lons = points.map(([lon]) => lon)
+    const lats = points.map(([, lat]) => lat)
+    const [minLon, maxLon, minLat, maxLat] = [Math.min(...lons), Math.max(...lons), Math.min(...lats), Math.max(...lats)]
+    const lonScale = Math.cos((((minLat + maxLat) / 2) * Math.PI) / 180)
+
+    const panel = MAP_PANELS[region]
+    const scale = Math.min(
+      (panel.x[1] - panel.x[0]) / ((maxLon - minLon) * lonScale),
+      (panel.y[1] - panel.y[0]) / (maxLat - minLat)
+    )
+    const centerX = (panel.x[0] + panel.x[1]) / 2
+    const centerY = (panel.y[0] + panel.y[1]) / 2
+    projections.set(region, ([lon, lat]) => [
+      centerX + (lon - (minLon + maxLon) / 2) * lonScale * scale,
+      centerY + (lat - (minLat + maxLat) / 2) * scale
+    ])
+  })
+
+  shapes = features.map(({ governorate, region, ring }) => {
+    const outline = ring.map(projections.get(region)!)
+    return { governorate, region, outline, centroid: polygonCentroid(outline) }
+  })
+  return shapes
+}
+
+/**
+ * Centroid of a simple polygon
+ */
+function polygonCentroid(outline: Array<[number, number]>): [number, number] {
+  let area = 0
+  let x = 0
+  let y = 0
+  outline.forEach(([x0, y0], index) => {
+    const [x1, y1] = outline[(index + 1) % outline.length]
+    const cross = x0 * y1 - x1 * y0
+    area += cross
+    x += (x0 + x1) * cross
+    y += (y0 + y1) * cross
+  })
+  return [x / (3 * area), y / (3 * area)]
+}
+
+/**
+ * Checks whether a point lies inside an outline
+ *
+ * @param {Array<[number, number]>} outline - Polygon vertices
+ * @param {number} x - Point x
+ * @param {number} y - Point y
+ * @returns {boolean} True when the point is inside
+ */
+export function isInsideOutline(outline: Array<[number, number]>, x: number, y: number): boolean {
+  let inside = false
+  for (let i = 0, j = outline.length - 1; i < outline.length; j = i++) {
+    const [xi, yi] = outline[i]
+    const [xj, yj] = outline[j]
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside
+  }
+  return inside
+}
@@ -0,0 +1,856 @@
+/**
+ * Gaza Memorial Particle Layouts
+ *
+ * Generators that place every particle of the memorial visualization. A
+ * layout is a `Float32Array` of `count * 3` positions in which particle i is
+ * `data[i]`, so a person keeps their particle, hover and click behavior in
+ * every layout.
+ *
+ * Modes:
+ * - Free modes (`cloud`, `sphere`, `plane`, `flock`) - particles move under the
+ *   physics simulation in `FloatingParticles`
+ * - Formation modes (`family`, `stats`, `pyramid`, `timeline`, `map`) - particles settle into a
+ *   data-driven formation from `generateLayout`, animating from wherever they are
+ *
+ * Formations may carry labels (axis titles, group names and counts), placed
+ * in scene coordinates and rendered next to the particles, and a reveal key
+ * per particle that lets the scene light particles up progressively (the
+ * timeline lights people up as its date scrubber moves through the war).
+ *
+ * @author Palestine Memorial Project
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import { AGE_BANDS, Governorate, getAgeBand } from './casualtyFields'
+import type { Casualty } from './dataLoader'
+import { MAP_PANELS, getGovernorateShapes, isInsideOutline } from './geography'
+
+/**
+ * Available visualization modes for particle layout
+ */
+export type VisualizationMode = 'cloud' | 'sphere' | 'plane' | 'flock' | 'family' | 'stats' | 'pyramid' | 'timeline' | 'map'
+
+/**
+ * Modes whose particles settle into a formation instead of moving freely
+ */
+export const FORMATION_MODES: readonly VisualizationMode[] = ['family', 'stats', 'pyramid', 'timeline', 'map']
+
+/**
+ * Checks whether a mode places particles in a formation
+ *
+ * @param {VisualizationMode} mode - Visualization mode
+ * @returns {boolean} True for formation modes
+ */
+export function isFormationMode(mode: VisualizationMode): boolean {
+  return FORMATION_MODES.includes(mode)
+}
+
+/**
+ * Text shown in the scene alongside a formation
+ *
+ * @interface LayoutLabel
+ * @property {string} text - Label text
+ * @property {[number, number, number]} position - Scene position of the label's center
+ * @property {'title' | 'group' | 'count'} kind - Axis title, group name or count
+ */
+export interface LayoutLabel {
+  text: string
+  position: [number, number, number]
+  kind: 'title' | 'group' | 'count'
+}
+
+/**
+ * Particle positions of a formation and its labels
+ *
+ * @interface Layout
+ * @property {Float32Array} positions - `count * 3` positions; particle i is `data[i]`
+ * @property {LayoutLabel[]} labels - Labels to render with the formation
+ * @property {Float32Array} [reveal] - Per-particle reveal key; particles whose key is
+ *   above the scene's reveal threshold are dimmed. Absent when everyone is always lit
+ */
+export interface Layout {
+  positions: Float32Array
+  labels: LayoutLabel[]
+  reveal?: Float32Array
+}
+
+// Seeded random function for consistent layouts
+function createLayoutRandom(seed: number = 12345) {
+  let currentSeed = seed
+  return () => {
+    currentSeed = (currentSeed * 9301 + 49297) % 233280
+    return currentSeed / 233280
+  }
+}
+
+export function generateCloudLayout(count: number): Float32Array {
+  const positions = new Float32Array(count * 3)
+  const seededRandom = createLayoutRandom(12345)
+
+  for (let i = 0; i < count; i++) {
+    const i3 = i * 3
+    const radius = 5 + seededRandom() * 10
+    const theta = seededRandom() * Math.PI * 2
+    const phi = Math.acos(2 * seededRandom() - 1)
+
+    positions[i3] = radius * Math.sin(phi) * Math.cos(theta)
+    positions[i3 + 1] = radius * Math.sin(phi) * Math.sin(theta)
+    positions[i3 + 2] = radius * Math.cos(phi)
+  }
+  return positions
+}
+
+export function generateSphereLayout(count: number): Float32Array {
+  const positions = new Float32Array(count * 3)
+  const seededRandom = createLayoutRandom(54321)
+  const radius = 12
+
+  for (let i = 0; i < count; i++) {
+    const i3 = i * 3
+    const theta = seededRandom() * Math.PI * 2
+    const phi = Math.acos(2 * seededRandom() - 1)
+
+    positions[i3] = radius * Math.sin(phi) * Math.cos(theta)
+    positions[i3 + 1] = radius * Math.sin(phi) * Math.sin(theta)
+    positions[i3 + 2] = radius * Math.cos(phi)
+  }
+  return positions
+}
+
+export function generatePlaneLayout(count: number): Float32Array {
+  const positions = new Float32Array(count * 3)
+  const cols = Math.ceil(Math.sqrt(count))
+  const spacing = 0.5
+
+  for (let i = 0; i < count; i++) {
+    const i3 = i * 3
+    const row = Math.floor(i / cols)
+    const col = i % cols
+
+    positions[i3] = (col - cols / 2) * spacing
+    positions[i3 + 1] = (row - Math.ceil(count / cols) / 2) * spacing
+    positions[i3 + 2] = 0
+  }
+  return positions
+}
+
+export function generateFlockLayout(count: number): Float32Array {
+  const positions = new Float32Array(count * 3)
+  const seededRandom = createLayoutRandom(98765)
+  const flockCount = Math.min(5, Math.ceil(count / 1000))
+
+  for (let i = 0; i < count; i++) {
+    const i3 = i * 3
+    const flockIndex = Math.floor(i / (count / flockCount))
+    const flockAngle = (flockIndex / flockCount) * Math.PI * 2
+    const flockRadius = 8
+
+    const flockCenterX = Math.cos(flockAngle) * flockRadius
+    const flockCenterY = Math.sin(flockAngle) * flockRadius
+    const flockCenterZ = (seededRandom() - 0.5) * 4
+
+    const localRadius = seededRandom() * 3
+    const localTheta = seededRandom() * Math.PI * 2
+    const localPhi = seededRandom() * Math.PI
+
+    positions[i3] = flockCenterX + localRadius * Math.sin(localPhi) * Math.cos(localTheta)
+    positions[i3 + 1] = flockCenterY + localRadius * Math.sin(localPhi) * Math.sin(localTheta)
+    positions[i3 + 2] = flockCenterZ + localRadius * Math.cos(localPhi)
+  }
+  return positions
+}
+
+/**
+ * Starting shape of a free mode, from which the physics simulation takes over
+ *
+ * @param {VisualizationMode} mode - Free visualization mode
+ * @param {number} count - Number of particles
+ * @returns {Float32Array} Particle positions (the cloud for formation modes)
+ */
+export function generateFreePositions(mode: VisualizationMode, count: number): Float32Array {
+  switch (mode) {
+    case 'sphere':
+      return generateSphereLayout(count)
+    case 'plane':
+      return generatePlaneLayout(count)
+    case 'flock':
+      return generateFlockLayout(count)
+    default:
+      return generateCloudLayout(count)
+  }
+}
+
+/**
+ * Smallest family that forms a constellation
+ */
+export const FAMILY_MIN_SIZE = 2
+/**
+ * Distance between members of a constellation
+ */
+const FAMILY_SPACING = 0.25
+/**
+ * Empty space kept around each constellation
+ */
+const FAMILY_GAP = 0.4
+/**
+ * Radius the constellations are fitted into, and of the surrounding shell
+ */
+const FAMILY_RADIUS = 12
+const FAMILY_SHELL_RADIUS = 16
+/**
+ * Largest constellations that are labelled with their family name
+ */
+const FAMILY_LABELS = 12
+
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5))
+
+/**
+ * Direction of point k of n spread evenly over a sphere
+ */
+function fibonacciDirection(k: number, n: number): [number, number, number] {
+  const y = n > 1 ? 1 - (2 * k) / (n - 1) : 0
+  const ring = Math.sqrt(Math.max(0, 1 - y * y))
+  const theta = k * GOLDEN_ANGLE
+  return [ring * Math.cos(theta), y, ring * Math.sin(theta)]
+}
+
+/**
+ * Gathers families into constellations, largest at the center
+ *
+ * People sharing a `family_name` form a small sphere of particles, and the
+ * constellations spiral outwards in order of size, so the families that lost
+ * the most people sit in the middle. People without a family name (including
+ * every statistical soul) or without relatives in the data drift in a shell
+ * around the constellations. Sizes count everyone in `data`.
+ *
+ * @param {Casualty[]} data - People shown, in particle order
+ * @param {number} count - Number of particles (at most `data.length`)
+ * @returns {Layout} Particle positions and labels of the largest families
+ */
+export function generateFamilyLayout(data: Casualty[], count: number): Layout {
+  const positions = new Float32Array(count * 3)
+  const seededRandom = createLayoutRandom(24680)
+
+  const totals = new Map<string, number>()
+  data.forEach(casualty => {
+    if (casualty.family_name) totals.set(casualty.family_name, (totals.get(casualty.family_name) || 0) + 1)
+  })
+
+  const members = new Map<string, number[]>()
+  const alone: number[] = []
+  for (let i = 0; i < count; i++) {
+    const family = data[i].family_name
+    if (!family || (totals.get(family) || 0) < FAMILY_MIN_SIZE) {
+      alone.push(i)
+      continue
+    }
+    const list = members.get(family)
+    if (list) list.push(i)
+    else members.set(family, [i])
+  }
+
+  // Largest first; ties alphabetically so the order is stable between loads
+  const families = Array.from(members.keys()).sort(
+    (a, b) => totals.get(b)! - totals.get(a)! || a.localeCompare(b)
+  )
+
+  // Each constellation is placed just outside the ball filled by the larger ones before it
+  const radii = families.map(family => FAMILY_SPACING * Math.cbrt(members.get(family)!.length))
+  const centerDistances: number[] = []
+  let volume = 0
+  radii.forEach((radius, k) => {
+    const extent = radius + FAMILY_GAP
+    centerDistances.push(k === 0 ? 0 : Math.cbrt(volume) + extent)
+    // Volume of the ball its bounding cube would fill
+    volume += (6 / Math.PI) * extent * extent * extent
+  })
+  const outermost = centerDistances.length > 0 ? centerDistances[centerDistances.length - 1] : 0
+  // Large datasets are shrunk as a whole so constellations never overlap
+  const scale = outermost > FAMILY_RADIUS ? FAMILY_RADIUS / outermost : 1
+
+  const labels: LayoutLabel[] = []
+  families.forEach((family, k) => {
+    // Golden-ratio steps spread any run of consecutive constellations around the center
+    const y = 1 - 2 * ((k * (GOLDEN_ANGLE / (Math.PI * 2))) % 1)
+    const ring = Math.sqrt(1 - y * y)
+    const [dx, dy, dz] = [ring * Math.cos(k * GOLDEN_ANGLE), y, ring * Math.sin(k * GOLDEN_ANGLE)]
+    const distance = centerDistances[k] * scale
+    const center = [dx * distance, dy * distance, dz * distance]
+    const list = members.get(family)!
+    const radius = radii[k] * scale
+
+    list.forEach((i, member) => {
+      const [mx, my, mz] = list.length > 1 ? fibonacciDirection(member, list.length) : [0, 0, 0]
+      const i3 = i * 3
+      positions[i3] = center[0] + mx * radius
+      positions[i3 + 1] = center[1] + my * radius
+      positions[i3 + 2] = center[2] + mz * radius
+    })
+
+    if (k < FAMILY_LABELS) {
+      labels.push(
+        { text: family, position: [center[0], center[1] + radius + 0.45, center[2]], kind: 'group' },
+        { text: totals.get(family)!.toLocaleString(), position: [center[0], center[1] + radius + 0.2, center[2]], kind: 'count' }
+      )
+    }
+  })
+
+  alone.forEach(i => {
+    const i3 = i * 3
+    const radius = FAMILY_SHELL_RADIUS + seededRandom() * 3
+    const theta = seededRandom() * Math.PI * 2
+    const phi = Math.acos(2 * seededRandom() - 1)
+    positions[i3] = radius * Math.sin(phi) * Math.cos(theta)
+    positions[i3 + 1] = radius * Math.sin(phi) * Math.sin(theta)
+    positions[i3 + 2] = radius * Math.cos(phi)
+  })
+
+  if (families.length === 0) {
+    labels.push({ text: 'No family names are recorded for the people shown', position: [0, 0, 0], kind: 'group' })
+  }
+
+  return { positions, labels }
+}
+
+/**
+ * Dimension the stats formation groups people by
+ */
+export type StatsGrouping = 'age_band' | 'gender' | 'type'
+
+/**
+ * Groups of each stats dimension, in axis order
+ *
+ * @property {string} title - Axis title
+ * @property {Array<{ key: string; label: string }>} groups - Group keys and labels
+ * @property {(casualty: Casualty) => string} keyOf - Group key of a person
+ */
+const STATS_GROUPINGS: Record<StatsGrouping, {
+  title: string
+  groups: Array<{ key: string; label: string }>
+  keyOf: (casualty: Casualty) => string
+}> = {
+  age_band: {
+    title: 'Age at death',
+    groups: AGE_BANDS.map(band => ({ key: band, label: band === 'unknown' ? 'Unknown' : band })),
+    // Older payloads may predate `age_band`
+    keyOf: casualty => casualty.age_band || getAgeBand(casualty.age)
+  },
+  gender: {
+    title: 'Gender',
+    groups: [
+      { key: 'male', label: 'Male' },
+      { key: 'female', label: 'Female' }
+    ],
+    keyOf: casualty => casualty.gender
+  },
+  type: {
+    title: 'Category',
+    groups: [
+      { key: 'civilian', label: 'Civilians' },
+      { key: 'press', label: 'Journalists' },
+      { key: 'medical', label: 'Medical' },
+      { key: 'civil_defense', label: 'Civil defense' }
+    ],
+    keyOf: casualty => casualty.type || 'civilian'
+  }
+}
+
+/**
+ * Extent and particle spacing of the formations in scene units
+ */
+const STATS_WIDTH = 20
+const STATS_HEIGHT = 12
+const STATS_SPACING = 0.15
+
+/**
+ * Arranges particles into one bar per group, with group names and counts
+ *
+ * Each bar is a block of particles `columns` wide and `depth` deep that grows
+ * upwards; every bar shares the same footprint, so heights compare directly.
+ * Counts are taken over all of `data`, which can exceed the `count`
+ * particles on screen.
+ *
+ * @param {Casualty[]} data - People shown, in particle order
+ * @param {number} count - Number of particles (at most `data.length`)
+ * @param {StatsGrouping} [grouping] - Dimension to group by
+ * @returns {Layout} Particle positions and labels
+ *
+ * @example
+ * const { positions, labels } = generateStatsLayout(filteredData, particleCount, 'gender')
+ */
+export function generateStatsLayout(
+  data: Casualty[],
+  count: number,
+  grouping: StatsGrouping = 'age_band'
+): Layout {
+  const { title, groups, keyOf } = STATS_GROUPINGS[grouping]
+  const positions = new Float32Array(count * 3)
+
+  const totals = new Map<string, number>()
+  data.forEach(casualty => {
+    const key = keyOf(casualty)
+    totals.set(key, (totals.get(key) || 0) + 1)
+  })
+  // Age bands keep a continuous axis; other groups only show when someone is in them
+  const shown = groups.filter(group => totals.has(group.key) || (grouping === 'age_band' && group.key !== 'unknown'))
+  const barIndex = new Map(shown.map((group, index) => [group.key, index]))
+
+  const onScreen = new Array<number>(shown.length).fill(0)
+  for (let i = 0; i < count; i++) {
+    const bar = barIndex.get(keyOf(data[i]))
+    if (bar !== undefined) onScreen[bar]++
+  }
+
+  const pitch = STATS_WIDTH / Math.max(shown.length, 1)
+  const columns = Math.max(1, Math.floor((pitch * 0.7) / STATS_SPACING))
+  const maxLayers = Math.floor(STATS_HEIGHT / STATS_SPACING)
+  const depth = Math.max(1, Math.ceil(Math.max(0, ...onScreen) / (columns * maxLayers)))
+  const layerSize = columns * depth
+  const baseY = -STATS_HEIGHT / 2
+  const barX = (bar: number) => -STATS_WIDTH / 2 + pitch * (bar + 0.5)
+
+  const placed = new Array<number>(shown.length).fill(0)
+  for (let i = 0; i < count; i++) {
+    const i3 = i * 3
+    const bar = barIndex.get(keyOf(data[i]))
+    if (bar === undefined) {
+      // Unrecognized values sit in a line under the axis rather than vanish
+      positions[i3] = -STATS_WIDTH / 2 + (i % 200) * STATS_SPACING
+      positions[i3 + 1] = baseY - 2.5
+      positions[i3 + 2] = 0
+      continue
+    }
+    const slot = placed[bar]++
+    const layer = Math.floor(slot / layerSize)
+    const column = slot % columns
+    const row = Math.floor(slot / columns) % depth
+
+    positions[i3] = barX(bar) + (column - (columns - 1) / 2) * STATS_SPACING
+    positions[i3 + 1] = baseY + layer * STATS_SPACING
+    positions[i3 + 2] = (row - (depth - 1) / 2) * STATS_SPACING
+  }
+
+  const labels: LayoutLabel[] = shown.flatMap((group, bar) => {
+    const top = baseY + Math.ceil(onScreen[bar] / layerSize) * STATS_SPACING
+    return [
+      { text: group.label, position: [barX(bar), baseY - 0.7, 0] as [number, number, number], kind: 'group' as const },
+      { text: (totals.get(group.key) || 0).toLocaleString(), position: [barX(bar), top + 0.5, 0] as [number, number, number], kind: 'count' as const }
+    ]
+  })
+  labels.push({ text: title, position: [0, baseY - 1.7, 0], kind: 'title' })
+
+  return { positions, labels }
+}
+
+/**
+ * Oldest age with its own row of the pyramid; older people share its row
+ */
+const PYRAMID_MAX_AGE = 100
+/**
+ * Gap between the male and female sides, where the age axis is labelled
+ */
+const PYRAMID_AXIS_GAP = 1
+/**
+ * Rows of the band holding people whose age is not recorded
+ */
+const PYRAMID_UNKNOWN_ROWS = 8
+const PYRAMID_AGE_TICK = 10
+
+/**
+ * Arranges particles into a population pyramid by single-year age
+ *
+ * Each age has a row, youngest at the bottom, growing to the left for males
+ * and to the right for females. Rows are `depth` particles deep, the same
+ * for every row, so their lengths compare directly. People whose age is not
+ * recorded (age 0) are kept in a band below the pyramid instead of being
+ * counted as infants.
+ *
+ * @param {Casualty[]} data - People shown, in particle order
+ * @param {number} count - Number of particles (at most `data.length`)
+ * @returns {Layout} Particle positions and labels
+ */
+export function generatePyramidLayout(data: Casualty[], count: number): Layout {
+  const positions = new Float32Array(count * 3)
+  const sides = ['male', 'female'] as const
+  // Row 0 is the unknown band; ages have their own row
+  const rowOf = (casualty: Casualty) => (casualty.age > 0 ? Math.min(Math.floor(casualty.age), PYRAMID_MAX_AGE) : 0)
+
+  const totals = { male: [0, 0], female: [0, 0] }
+  data.forEach(casualty => {
+    totals[casualty.gender === 'female' ? 'female' : 'male'][rowOf(casualty) > 0 ? 1 : 0]++
+  })
+
+  let topAge = 1
+  const onScreen = { male: new Array<number>(PYRAMID_MAX_AGE + 1).fill(0), female: new Array<number>(PYRAMID_MAX_AGE + 1).fill(0) }
+  for (let i = 0; i < count; i++) {
+    const row = rowOf(data[i])
+    onScreen[data[i].gender === 'female' ? 'female' : 'male'][row]++
+    topAge = Math.max(topAge, row)
+  }
+
+  const unknownHeight = (PYRAMID_UNKNOWN_ROWS + 4) * STATS_SPACING
+  const spacing = Math.min(STATS_SPACING, (STATS_HEIGHT - unknownHeight) / topAge)
+  const columns = Math.max(1, Math.floor((STATS_WIDTH - PYRAMID_AXIS_GAP) / 2 / spacing))
+  const maxAgeRow = Math.max(0, ...onScreen.male.slice(1), ...onScreen.female.slice(1))
+  const maxUnknown = Math.max(onScreen.male[0], onScreen.female[0])
+  const depth = Math.max(
+    1,
+    Math.ceil(maxAgeRow / columns),
+    Math.ceil(maxUnknown / (columns * PYRAMID_UNKNOWN_ROWS))
+  )
+  const unknownY = -STATS_HEIGHT / 2
+  const ageY = (age: number) => unknownY + unknownHeight + (age - 1) * spacing
+  const sideX = (side: 'male' | 'female', column: number) =>
+    (side === 'male' ? -1 : 1) * (PYRAMID_AXIS_GAP / 2 + (column + 0.5) * spacing)
+
+  const placed = { male: new Array<number>(PYRAMID_MAX_AGE + 1).fill(0), female: new Array<number>(PYRAMID_MAX_AGE + 1).fill(0) }
+  for (let i = 0; i < count; i++) {
+    const i3 = i * 3
+    const side = data[i].gender === 'female' ? 'female' : 'male'
+    const row = rowOf(data[i])
+    const slot = placed[side][row]++
+    if (row === 0) {
+      // The unknown band fills its rows before growing outwards
+      const band = slot % PYRAMID_UNKNOWN_ROWS
+      const rest = Math.floor(slot / PYRAMID_UNKNOWN_ROWS)
+      positions[i3] = sideX(side, Math.floor(rest / depth))
+      positions[i3 + 1] = unknownY + band * spacing
+      positions[i3 + 2] = ((rest % depth) - (depth - 1) / 2) * spacing
+    } else {
+      positions[i3] = sideX(side, Math.floor(slot / depth))
+      positions[i3 + 1] = ageY(row)
+      positions[i3 + 2] = ((slot % depth) - (depth - 1) / 2) * spacing
+    }
+  }
+
+  const top = ageY(topAge)
+  const sideCenter = (STATS_WIDTH + PYRAMID_AXIS_GAP) / 4
+  const labels: LayoutLabel[] = [{ text: 'Age at death', position: [0, top + 0.7, 0], kind: 'title' }]
+  sides.forEach(side => {
+    const x = (side === 'male' ? -1 : 1) * sideCenter
+    labels.push(
+      { text: side === 'male' ? 'Male' : 'Female', position: [x, top + 0.7, 0], kind: 'group' },
+      { text: totals[side][1].toLocaleString(), position: [x, top + 0.3, 0], kind: 'count' }
+    )
+  })
+  for (let age = PYRAMID_AGE_TICK; age <= topAge; age += PYRAMID_AGE_TICK) {
+    const text = age === PYRAMID_MAX_AGE ? `${age}+` : String(age)
+    labels.push({ text, position: [0, ageY(age), 0], kind: 'group' })
+  }
+  labels.push({ text: '1', position: [0, ageY(1), 0], kind: 'group' })
+
+  if (totals.male[0] + totals.female[0] > 0) {
+    const bandCenter = unknownY + ((PYRAMID_UNKNOWN_ROWS - 1) * spacing) / 2
+    labels.push({ text: 'Age not recorded', position: [0, unknownY - 0.5, 0], kind: 'group' })
+    sides.forEach(side => {
+      if (totals[side][0] === 0) return
+      const extent = Math.ceil(onScreen[side][0] / (PYRAMID_UNKNOWN_ROWS * depth)) * spacing
+      const x = (side === 'male' ? -1 : 1) * (PYRAMID_AXIS_GAP / 2 + extent + 0.6)
+      labels.push({ text: totals[side][0].toLocaleString(), position: [x, bandCenter, 0], kind: 'count' })
+    })
+  }
+
+  return { positions, labels }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Converts an ISO date to a day number, the timeline's reveal key
+ *
+ * @param {string} date - ISO date (`YYYY-MM-DD`, longer timestamps are truncated)
+ * @returns {number} Days since 1970-01-01, NaN for an invalid date
+ */
+export function dayNumber(date: string): number {
+  return Math.floor(Date.parse(`${date.slice(0, 10)}T00:00:00Z`) / DAY_MS)
+}
+
+/**
+ * Dated deaths of a dataset, for scrubbing through the timeline
+ *
+ * @interface DeathCalendar
+ * @property {string[]} dates - Date of death of every dated person, ascending
+ * @property {number} undated - People without a recorded date of death
+ */
+export interface DeathCalendar {
+  dates: string[]
+  undated: number
+}
+
+const isDated = (casualty: Casualty) => !!casualty.date_of_death && !Number.isNaN(dayNumber(casualty.date_of_death))
+
+/**
+ * Collects the dates of death of a dataset
+ *
+ * @param {Casualty[]} data - People shown
+ * @returns {DeathCalendar} Sorted dates and the number of undated people
+ */
+export function buildDeathCalendar(data: Casualty[]): DeathCalendar {
+  const dates: string[] = []
+  data.forEach(casualty => {
+    if (isDated(casualty)) dates.push(casualty.date_of_death!.slice(0, 10))
+  })
+  dates.sort()
+  return { dates, undated: data.length - dates.length }
+}
+
+/**
+ * Counts the dated deaths up to and including a date
+ *
+ * @param {DeathCalendar} calendar - Calendar to count in
+ * @param {string} date - ISO date
+ * @returns {number} People who died on or before `date`
+ */
+export function countDeathsBy(calendar: DeathCalendar, date: string): number {
+  let low = 0
+  let high = calendar.dates.length
+  while (low < high) {
+    const middle = (low + high) >> 1
+    if (calendar.dates[middle] <= date) low = middle + 1
+    else high = middle
+  }
+  return low
+}
+
+/**
+ * Width of the block holding people without a date of death
+ */
+const UNDATED_WIDTH = 3
+const UNDATED_GAP = 1
+/**
+ * Number of date ticks along the timeline axis
+ */
+const TIMELINE_TICKS = 5
+
+const formatTick = (day: number) =>
+  new Date(day * DAY_MS).toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' })
+
+/**
+ * Arranges particles along a time axis by date of death
+ *
+ * The axis runs from the earliest to the latest date of death in `data`, in
+ * columns of whole days; each column stacks its people upwards in date order,
+ * so the formation reads as deaths over time. Statistical souls carry dates
+ * drawn from the daily reports (see `buildDeathTimeline`), so their share of
+ * each column follows the reported daily deaths. People without a date sit
+ * in a separate block at the end of the axis rather than on an invented day.
+ *
+ * The reveal key of a dated particle is its `dayNumber`; undated particles
+ * have key 0 and stay lit.
+ *
+ * @param {Casualty[]} data - People shown, in particle order
+ * @param {number} count - Number of particles (at most `data.length`)
+ * @returns {Layout} Particle positions, labels and reveal keys
+ */
+export function generateTimelineLayout(data: Casualty[], count: number): Layout {
+  const positions = new Float32Array(count * 3)
+  const reveal = new Float32Array(count)
+  const labels: LayoutLabel[] = []
+  const baseY = -STATS_HEIGHT / 2
+  const maxLayers = Math.floor(STATS_HEIGHT / STATS_SPACING)
+
+  const calendar = buildDeathCalendar(data)
+  const dated: number[] = []
+  const undated: number[] = []
+  for (let i = 0; i < count; i++) {
+    if (isDated(data[i])) {
+      reveal[i] = dayNumber(data[i].date_of_death!)
+      dated.push(i)
+    } else {
+      undated.push(i)
+    }
+  }
+  // Chronological within each column, so a column fills bottom-up over time
+  dated.sort((a, b) => reveal[a] - reveal[b] || a - b)
+
+  const axisEnd = calendar.undated > 0 ? STATS_WIDTH / 2 - UNDATED_WIDTH - UNDATED_GAP : STATS_WIDTH / 2
+  const axisWidth = axisEnd + STATS_WIDTH / 2
+
+  if (calendar.dates.length > 0) {
+    const firstDay = dayNumber(calendar.dates[0])
+    const days = dayNumber(calendar.dates[calendar.dates.length - 1]) - firstDay + 1
+    const daysPerColumn = Math.ceil(days / Math.max(1, Math.floor(axisWidth / STATS_SPACING)))
+    const columns = Math.ceil(days / daysPerColumn)
+    const pitch = axisWidth / columns
+    const columnOf = (day: number) => Math.min(columns - 1, Math.floor((day - firstDay) / daysPerColumn))
+    const xOf = (day: number) => -STATS_WIDTH / 2 + (day - firstDay + 0.5) * (axisWidth / days)
+
+    const heights = new Array<number>(columns).fill(0)
+    dated.forEach(i => heights[columnOf(reveal[i])]++)
+    const depth = Math.max(1, Math.ceil(Math.max(0, ...heights) / maxLayers))
+
+    const placed = new Array<number>(columns).fill(0)
+    dated.forEach(i => {
+      const column = columnOf(reveal[i])
+      const slot = placed[column]++
+      const i3 = i * 3
+      positions[i3] = -STATS_WIDTH / 2 + (column + 0.5) * pitch
+      positions[i3 + 1] = baseY + Math.floor(slot / depth) * STATS_SPACING
+      positions[i3 + 2] = ((slot % depth) - (depth - 1) / 2) * STATS_SPACING
+    })
+
+    for (let tick = 0; tick < TIMELINE_TICKS; tick++) {
+      const day = firstDay + Math.round(((days - 1) * tick) / (TIMELINE_TICKS - 1))
+      labels.push({ text: formatTick(day), position: [xOf(day), baseY - 0.7, 0], kind: 'group' })
+    }
+    labels.push({ text: 'Date of death', position: [(axisEnd - STATS_WIDTH / 2) / 2, baseY - 1.7, 0], kind: 'title' })
+  }
+
+  if (calendar.undated > 0) {
+    const columns = Math.floor(UNDATED_WIDTH / STATS_SPACING)
+    const depth = Math.max(1, Math.ceil(undated.length / (columns * maxLayers)))
+    const centerX = STATS_WIDTH / 2 - UNDATED_WIDTH / 2
+    undated.forEach((i, slot) => {
+      const i3 = i * 3
+      const layer = Math.floor(slot / (columns * depth))
+      positions[i3] = centerX + ((slot % columns) - (columns - 1) / 2) * STATS_SPACING
+      positions[i3 + 1] = baseY + layer * STATS_SPACING
+      positions[i3 + 2] = ((Math.floor(slot / columns) % depth) - (depth - 1) / 2) * STATS_SPACING
+    })
+    const top = baseY + Math.ceil(undated.length / (columns * depth)) * STATS_SPACING
+    labels.push(
+      { text: 'Date not recorded', position: [centerX, baseY - 0.7, 0], kind: 'group' },
+      { text: calendar.undated.toLocaleString(), position: [centerX, top + 0.5, 0], kind: 'count' }
+    )
+  }
+
+  return { positions, labels, reveal }
+}
+
+/**
+ * Particle spacing of the map, finer than the charts as governorates are small
+ */
+const MAP_SPACING = 0.1
+/**
+ * Height of the block holding people without a recorded governorate
+ */
+const UNLOCATED_HEIGHT = 2.5
+
+/**
+ * Arranges particles over a map of the Gaza and West Bank governorates
+ *
+ * Each governorate is filled with a grid of particles inside its outline
+ * (see `getGovernorateShapes`), stacked towards the viewer in as many layers
+ * as it needs, so the height of a governorate shows how many people died
+ * there. People whose governorate is not recorded are gathered in a block
+ * below the map rather than placed in a guessed governorate.
+ *
+ * @param {Casualty[]} data - People shown, in particle order
+ * @param {number} count - Number of particles (at most `data.length`)
+ * @returns {Layout} Particle positions and labels
+ */
+export function generateMapLayout(data: Casualty[], count: number): Layout {
+  const positions = new Float32Array(count * 3)
+  const labels: LayoutLabel[] = []
+  const shapes = getGovernorateShapes()
+
+  const totals = new Map<Governorate | undefined, number>()
+  data.forEach(casualty => totals.set(casualty.location, (totals.get(casualty.location) || 0) + 1))
+
+  const mapped = new Set(shapes.map(shape => shape.governorate))
+  const members = new Map<Governorate | undefined, number[]>()
+  for (let i = 0; i < count; i++) {
+    // Locations outside the map are treated as unrecorded
+    const recorded = data[i].location
+    const location = recorded && mapped.has(recorded) ? recorded : undefined
+    const list = members.get(location)
+    if (list) list.push(i)
+    else members.set(location, [i])
+  }
+
+  shapes.forEach(shape => {
+    const xs = shape.outline.map(([x]) => x)
+    const ys = shape.outline.map(([, y]) => y)
+    const slots: Array<[number, number]> = []
+    // Grid aligned across governorates, so shared borders stay evenly spaced
+    for (let y = Math.ceil(Math.min(...ys) / MAP_SPACING); y * MAP_SPACING <= Math.max(...ys); y++) {
+      for (let x = Math.ceil(Math.min(...xs) / MAP_SPACING); x * MAP_SPACING <= Math.max(...xs); x++) {
+        if (isInsideOutline(shape.outline, x * MAP_SPACING, y * MAP_SPACING)) slots.push([x * MAP_SPACING, y * MAP_SPACING])
+      }
+    }
+    if (slots.length === 0) slots.push(shape.centroid)
+
+    const people = members.get(shape.governorate) || []
+    people.forEach((i, slot) => {
+      const i3 = i * 3
+      const [x, y] = slots[slot % slots.length]
+      positions[i3] = x
+      positions[i3 + 1] = y
+      positions[i3 + 2] = Math.floor(slot / slots.length) * MAP_SPACING
+    })
+
+    const top = Math.ceil(people.length / slots.length) * MAP_SPACING
+    labels.push(
+      { text: shape.governorate, position: [shape.centroid[0], shape.centroid[1] + 0.2, top], kind: 'group' },
+      { text: (totals.get(shape.governorate) || 0).toLocaleString(), position: [shape.centroid[0], shape.centroid[1] - 0.2, top], kind: 'count' }
+    )
+  })
+
+  ;(Object.keys(MAP_PANELS) as Array<keyof typeof MAP_PANELS>).forEach(region => {
+    const panel = MAP_PANELS[region]
+    labels.push({ text: region, position: [(panel.x[0] + panel.x[1]) / 2, panel.y[1] + 0.6, 0], kind: 'title' })
+  })
+
+  const unlocated = members.get(undefined) || []
+  const unrecorded = data.length - shapes.reduce((sum, shape) => sum + (totals.get(shape.governorate) || 0), 0)
+  if (unlocated.length > 0) {
+    const baseY = -STATS_HEIGHT / 2
+    const columns = Math.floor(STATS_WIDTH / MAP_SPACING)
+    const maxLayers = Math.floor(UNLOCATED_HEIGHT / MAP_SPACING)
+    const depth = Math.max(1, Math.ceil(unlocated.length / (columns * maxLayers)))
+    unlocated.forEach((i, slot) => {
+      const i3 = i * 3
+      positions[i3] = -STATS_WIDTH / 2 + ((slot % columns) + 0.5) * MAP_SPACING
+      positions[i3 + 1] = baseY + Math.floor(slot / (columns * depth)) * MAP_SPACING
+      positions[i3 + 2] = ((Math.floor(slot / columns) % depth) - (depth - 1) / 2) * MAP_SPACING
+    })
+    labels.push(
+      { text: 'Governorate not recorded', position: [0, baseY - 0.7, 0], kind: 'group' },
+      { text: unrecorded.toLocaleString(), position: [0, baseY - 1.2, 0], kind: 'count' }
+    )
+  }
+
+  return { positions, labels }
+}
+
+/**
+ * Options of data-driven formations
+ *
+ * @interface LayoutOptions
+ * @property {StatsGrouping} statsGrouping - Dimension the stats formation groups by
+ */
+export interface LayoutOptions {
+  statsGrouping: StatsGrouping
+}
+
+/**
+ * Generates the formation of a mode
+ *
+ * @param {VisualizationMode} mode - Visualization mode
+ * @param {Casualty[]} data - People shown, in particle order
+ * @param {number} count - Number of particles
+ * @param {LayoutOptions} options - Formation options
+ * @returns {Layout | null} The formation, or null for free modes
+ */
+export function generateLayout(
+  mode: VisualizationMode,
+  data: Casualty[],
+  count: number,
+  options: LayoutOptions
+): Layout | null {
+  switch (mode) {
+    case 'family':
+      return generateFamilyLayout(data, count)
+    case 'stats':
+      return generateStatsLayout(data, count, options.statsGrouping)
+    case 'pyramid':
+      return generatePyramidLayout(data, count)
+    case 'timeline':
+      return generateTimelineLayout(data, count)
+    case 'map':
+      return generateMapLayout(data, count)
+    default:
+      return null
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Gaza Memorial Load Report
+ *
+ * Records how the dataset on screen was assembled: which upstream sources
+ * answered, how long they took, how many records each delivered and whether
+ * they came from the live API, a bundled CSV or the placeholder fallback.
+ * The report travels with `DataInfo` so the in-app diagnostics panel can
+ * explain, for example, why a visitor is seeing "Soul N" placeholder data.
+ *
+ * Origins:
+ * - `api` - the upstream API answered (primary or backup base URL)
+ * - `csv` - the API failed and the bundled CSV in `public/` was used
+ * - `fallback` - placeholder souls generated because no real data was available
+ *
+ * @author Palestine Memorial Project
+ * @version 1.0.0
+ * @since 2024
+ */
+
+/**
+ * Where loaded data came from
+ */
+export type LoadOrigin = 'api' | 'csv' | 'fallback'
+
+/**
+ * Load outcome for one upstream source
+ *
+ * @interface SourceLoadStatus
+ * @property {string} source - Source identifier (e.g. `killed-in-gaza`)
+ * @property {LoadOrigin | null} origin - Where the records came from; null when nothing was loaded
+ * @property {'ok' | 'degraded' | 'failed'} status - ok: from the API; degraded: from the CSV or with quarantined rows; failed: no records
+ * @property {number} latencyMs - Time spent on the source, including the CSV fallback
+ * @property {number} records - Records accepted from the source
+ * @property {string[]} errors - Errors encountered while loading
+ */
+export interface SourceLoadStatus {
+  source: string
+  origin: LoadOrigin | null
+  status: 'ok' | 'degraded' | 'failed'
+  latencyMs: number
+  records: number
+  errors: string[]
+}
+
+/**
+ * Load outcome for the complete dataset
+ *
+ * @interface LoadReport
+ * @property {string} generatedAt - When the dataset was assembled (ISO 8601)
+ * @property {LoadOrigin} origin - `fallback` for placeholder data, `csv` when any source fell back to its CSV, otherwise `api`
+ * @property {SourceLoadStatus[]} sources - Per-source outcomes
+ * @property {number} successful - Sources that did not fail
+ * @property {string[]} errors - Dataset-level errors, such as why the fallback was used
+ */
+export interface LoadReport {
+  generatedAt: string
+  origin: LoadOrigin
+  sources: SourceLoadStatus[]
+  successful: number
+  errors: string[]
+}
+
+/**
+ * Report fields that differ between builds of identical data
+ *
+ * Content hashes (such as the dataset ETag) skip them so an unchanged
+ * dataset keeps its validator.
+ */
+export const VOLATILE_LOAD_REPORT_FIELDS: ReadonlySet<string> = new Set(['generatedAt', 'latencyMs'])
+
+/**
+ * Formats an unknown thrown value for a report
+ *
+ * @param {unknown} error - Thrown value
+ * @returns {string} Error message
+ */
+export function describeLoadError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+/**
+ * Combines per-source outcomes into a dataset report
+ *
+ * @param {SourceLoadStatus[]} sources - Per-source outcomes
+ * @param {string[]} [errors] - Dataset-level errors
+ * @returns {LoadReport} Dataset load report
+ */
+export function createLoadReport(sources: SourceLoadStatus[], errors: string[] = []): LoadReport {
+  return {
+    generatedAt: new Date().toISOString(),
+    origin: sources.some(source => source.origin === 'csv') ? 'csv' : 'api',
+    sources,
+    successful: sources.filter(source => source.status !== 'failed').length,
+    errors
+  }
+}
+
+/**
+ * Creates the report for placeholder data
+ *
+ * @param {string} reason - Why no real data was available
+ * @param {SourceLoadStatus[]} [sources] - Per-source outcomes, when the sources were tried
+ * @returns {LoadReport} Dataset load report with origin `fallback`
+ */
+export function createFallbackLoadReport(reason: string, sources: SourceLoadStatus[] = []): LoadReport {
+  return { ...createLoadReport(sources, [reason]), origin: 'fallback' }
+}
@@ -0,0 +1,542 @@
+/**
+ * Gaza Memorial Dataset Service (server-side)
+ *
+ * Fetches, normalizes and caches every upstream memorial data source on the
+ * server so that all visitors receive one consistent, pre-processed `DataInfo`
+ * payload from `/api/memorial/dataset` instead of each browser hitting the
+ * Tech for Palestine APIs directly.
+ *
+ * Data Sources:
+ * Every source registered in `dataSources.ts` is loaded (the Tech for Palestine
+ * sources by default). Upstream base URLs are configured in `upstream.ts`.
+
+ * Memorial Total:
+ * The total comes from the latest data (or an admin override, see
+ * `resolveMemorialTotal`) and decides how many statistical souls are added.
+ * Souls are generated per index, so when the total grows between builds the
+ * new souls are appended and existing ones keep their identity and position.
+ *
+ * Load Report:
+ * Every dataset carries a `LoadReport` (see `loadReport.ts`) with the status,
+ * latency, record count and origin (API, CSV or fallback) of each source, so
+ * the diagnostics panel can show why a visitor sees degraded data.
+ *
+ * Search Index:
+ * The search index (see `searchIndex.ts`) is built with the dataset and shipped
+ * serialized in the payload, so browsers can filter without building it.
+ *
+ * Caching:
+ * The assembled dataset is kept in memory for `DATASET_REVALIDATE_SECONDS` and
+ * rebuilt on the first request after it goes stale. Concurrent requests during
+ * a rebuild share the same in-flight promise. Settings changes call
+ * `invalidateMemorialDataset` to force a rebuild. Each build gets a content
+ * ETag so browsers holding a cached copy can revalidate it cheaply.
+ *
+ * This module reads CSV fallbacks from the filesystem and must only be
+ * imported from server code (route handlers).
+ *
+ * @author Palestine Memorial Project
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import { createHash } from 'crypto'
+import { createReadStream } from 'fs'
+import path from 'path'
+import {
+  DailyCasualties,
+  DataInfo,
+  InfrastructureDamage,
+  MemorialStats,
+  MemorialTotalSource,
+  WestBankCasualties,
+  getFallbackData
+} from './dataLoader'
+import { getSiteSettings } from './cms'
+import { getFamilyName } from './casualtyFields'
+import { FALLBACK_CSV_OPTIONS, parseCSVStream, unflattenRecord } from './csv'
+import { DataSource, DataSourceKind, DataSourceRecords, getDataSources } from './dataSources'
+import { DeathTimelines, buildDeathTimeline, extrapolateCasualties, getExtrapolationRatios } from './extrapolation'
+import {
+  LoadOrigin,
+  SourceLoadStatus,
+  VOLATILE_LOAD_REPORT_FIELDS,
+  createFallbackLoadReport,
+  createLoadReport,
+  describeLoadError
+} from './loadReport'
+import { reconcileCasualties } from './reconciliation'
+import { buildSearchIndex, serializeSearchIndex } from './searchIndex'
+import { TimeSeriesId, buildTimeSeries, latestValue } from './timeseries'
+import { SourceValidationReport, createValidationReport, validateRecords } from './validation'
+
+/**
+ * How long an assembled dataset is served before it is rebuilt (seconds)
+ */
+export const DATASET_REVALIDATE_SECONDS = 60 * 60
+
+/**
+ * CSV loading utility for fallback data
+ *
+ * Streams and parses CSV files from the public directory as a fallback
+ * mechanism when every upstream is unavailable. The files are read straight
+ * from disk so the fallback works without the static host being reachable.
+ *
+ * Columns are converted according to `FALLBACK_CSV_OPTIONS`, so identifiers
+ * and dates stay strings and only declared numeric columns become numbers.
+ * Dotted-path columns are rebuilt into the nested objects the APIs return.
+ *
+ * @param filename - Name of the CSV file in the public directory
+ * @returns Promise resolving to array of parsed records (empty on failure)
+ *
+ * @example
+ * ```typescript
+ * const rows = await loadCSVFromPublic('casualties_daily.csv');
+ * console.log(`Loaded ${rows.length} fallback records`);
+ * ```
+ */
+async function loadCSVFromPublic(filename: string): Promise<Record<string, unknown>[]> {
+  try {
+    console.log(`Loading CSV fallback: ${filename}`)
+    const stream = createReadStream(path.join(process.cwd(), 'public', filename), { encoding: 'utf8' })
+    const data: Record<string, unknown>[] = []
+
+    for await (const record of parseCSVStream(stream, FALLBACK_CSV_OPTIONS[filename])) {
+      data.push(unflattenRecord(record))
+    }
+
+    console.log(`Successfully loaded ${data.length} records from ${filename}`)
+    return data
+  } catch (error) {
+    console.error(`Failed to load CSV ${filename}:`, error)
+    return []
+  }
+}
+
+/**
+ * Records loaded from one registered source
+ *
+ * @interface SourceResult
+ * @template K - Kind of records the source contributes
+ * @property {DataSource<K>} source - The registered source
+ * @property {DataSourceRecords[K][]} records - Accepted and normalized records
+ * @property {SourceValidationReport | null} validation - Validation report, null when nothing was received
+ * @property {SourceLoadStatus} load - Where the records came from and how long loading took
+ */
+interface SourceResult<K extends DataSourceKind = DataSourceKind> {
+  source: DataSource<K>
+  records: DataSourceRecords[K][]
+  validation: SourceValidationReport | null
+  load: SourceLoadStatus
+}
+
+/**
+ * Loads a registered source and validates it, falling back to its bundled CSV
+ *
+ * Both the API response and the CSV fallback go through the source's schema so
+ * a malformed row is quarantined no matter where it came from.
+ *
+ * @template K - Kind of records the source contributes
+ * @param source - Registered source
+ * @returns Normalized records, the validation report and the load status
+ */
+async function loadSource<K extends DataSourceKind>(source: DataSource<K>): Promise<SourceResult<K>> {
+  const start = Date.now()
+  const load = (origin: SourceLoadStatus['origin'], validation: SourceValidationReport | null, errors: string[]): SourceLoadStatus => {
+    if (validation?.status === 'failed') {
+      const absent = validation.absentFields.length > 0 ? `, fields missing: ${validation.absentFields.join(', ')}` : ''
+      errors.push(`Schema validation failed (${validation.quarantined}/${validation.total} records quarantined${absent})`)
+    } else if (validation && validation.quarantined > 0) {
+      errors.push(`${validation.quarantined}/${validation.total} malformed records quarantined`)
+    }
+
+    return {
+      source: source.id,
+      origin,
+      status: !validation || validation.valid === 0 || validation.status === 'failed'
+        ? 'failed'
+        : origin === 'api' && validation.status === 'ok' ? 'ok' : 'degraded',
+      latencyMs: Date.now() - start,
+      records: validation?.valid ?? 0,
+      errors
+    }
+  }
+  const normalize = (records: unknown[], origin: LoadOrigin) =>
+    records.map((record, index) => source.normalize(record, index, origin))
+
+  try {
+    console.log(`Fetching ${source.id} data...`)
+    const response = await source.fetch(source.timeout)
+
+    const { valid, report } = validateRecords(source.id, await source.parse(response), source.schema)
+    console.log(`Successfully loaded ${valid.length}/${report.total} ${source.id} records from API`)
+    return { source, records: normalize(valid, 'api'), validation: report, load: load('api', report, []) }
+  } catch (error) {
+    console.error(`Failed to fetch ${source.id} from API:`, error)
+    const errors = [`API: ${describeLoadError(error)}`]
+
+    if (source.fallbackFile) {
+      // Try CSV fallback
+      console.log(`Attempting CSV fallback for ${source.id}...`)
+      const csvData = await loadCSVFromPublic(source.fallbackFile)
+
+      if (csvData.length > 0) {
+        const { valid, report } = validateRecords(`${source.id} (CSV)`, csvData, source.schema)
+        console.log(`Using CSV fallback: ${valid.length}/${report.total} ${source.id} records loaded`)
+        return { source, records: normalize(valid, 'csv'), validation: report, load: load('csv', report, errors) }
+      }
+      errors.push(`CSV: ${source.fallbackFile} unavailable`)
+    }
+
+    console.warn(`No ${source.id} data available from API or CSV`)
+    return { source, records: [], validation: null, load: load(null, null, errors) }
+  }
+}
+
+/**
+ * Resolves the number of lives the memorial honors
+ *
+ * An admin override from the site settings wins; otherwise the total is the
+ * latest Gaza killed figure (`ext_killed_cum`, falling back to `killed_cum`)
+ * plus the latest West Bank figure. When neither series is available the
+ * memorial shows only named individuals.
+ *
+ * @param {MemorialStats} stats - Latest memorial statistics
+ * @param {number | null} override - Admin override, null when unset
+ * @returns The memorial total and where it came from
+ */
+export function resolveMemorialTotal(
+  stats: MemorialStats,
+  override: number | null
+): { memorialTotal: number; memorialTotalSource: MemorialTotalSource } {
+  if (override !== null && override > 0) {
+    return { memorialTotal: override, memorialTotalSource: 'override' }
+  }
+
+  const dataTotal = stats.gaza.total_killed + stats.west_bank.total_killed
+  if (dataTotal > 0) {
+    return { memorialTotal: dataTotal, memorialTotalSource: 'data' }
+  }
+
+  return { memorialTotal: 0, memorialTotalSource: 'named' }
+}
+
+/**
+ * Calculates comprehensive memorial statistics from the latest available data
+ *
+ * Aggregates statistics from multiple data sources to provide a complete picture
+ * of casualties and infrastructure damage. Uses the most recent data point from
+ * each series and handles missing data gracefully.
+ *
+ * Statistics Calculation:
+ * - Gaza: Uses extended/extrapolated cumulative figures when available, falls back to official Ministry of Health data
+ * - West Bank: Uses extended figures when available, otherwise official cumulative data
+ * - Infrastructure: Aggregates damage statistics from educational, religious, residential, and civic buildings
+ * - Each figure is the latest value of its series (see `timeseries.ts`)
+ *
+ * @param {DailyCasualties[]} dailyCasualties - Time series of Gaza casualty data
+ * @param {WestBankCasualties[]} westBankCasualties - Time series of West Bank casualty data
+ * @param {InfrastructureDamage[]} infrastructureDamage - Time series of infrastructure damage data
+ * @returns {MemorialStats} Comprehensive statistics object with latest available data
+ *
+ * @example
+ * const stats = getLatestStats(dailyData, westBankData, infrastructureData);
+ * console.log(`Total killed: ${stats.gaza.total_killed + stats.west_bank.total_killed}`);
+ */
+function getLatestStats(
+  dailyCasualties: DailyCasualties[],
+  westBankCasualties: WestBankCasualties[],
+  infrastructureDamage: InfrastructureDamage[]
+): MemorialStats {
+  // Latest value of each series, so a figure missing from the last report falls back to the previous one
+  const data = { daily: dailyCasualties, westBank: westBankCasualties, infrastructure: infrastructureDamage }
+  const latest = (id: TimeSeriesId) => latestValue(buildTimeSeries(id, data))
+
+  return {
+    gaza: {
+      total_killed: latest('gaza.killed'),
+      children_killed: latest('gaza.children_killed'),
+      women_killed: latest('gaza.women_killed'),
+      press_killed: latest('gaza.press_killed'),
+      medical_killed: latest('gaza.medical_killed'),
+      civil_defense_killed: latest('gaza.civil_defense_killed'),
+      total_injured: latest('gaza.injured')
+    },
+    west_bank: {
+      total_killed: latest('west_bank.killed'),
+      total_injured: latest('west_bank.injured')
+    },
+    infrastructure: {
+      schools_destroyed: latest('infrastructure.schools_destroyed'),
+      schools_damaged: latest('infrastructure.schools_damaged'),
+      mosques_destroyed: latest('infrastructure.mosques_destroyed'),
+      mosques_damaged: latest('infrastructure.mosques_damaged'),
+      churches_destroyed: latest('infrastructure.churches_destroyed'),
+      homes_destroyed: latest('infrastructure.homes_destroyed'),
+      government_buildings_destroyed: latest('infrastructure.government_buildings_destroyed')
+    },
+    last_updated: new Date().toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    })
+  }
+}
+
+/**
+ * Builds the complete memorial dataset from every upstream source
+ *
+ * This is the server-side orchestrator behind `/api/memorial/dataset`. It
+ * coordinates parallel fetching from the upstream APIs, processes the raw data,
+ * generates statistical extrapolations, and returns a complete dataset ready
+ * for visualization.
+ *
+ * Process Overview:
+ * 1. Parallel fetching of every registered source (see `dataSources.ts`) with Promise.allSettled for resilience
+ * 2. Error handling and graceful degradation (CSV fallbacks) for failed requests
+ * 3. Data normalization and standardization, merging people listed in several sources
+ * 4. Statistical extrapolation to reach the memorial total (see `resolveMemorialTotal`)
+ * 5. Load report, logging and statistics generation
+ *
+ * Statistical Extrapolation Methodology:
+ * - Uses confirmed casualty demographics as baseline ratios
+ * - Generates representative statistical souls for unnamed casualties
+ * - Maintains proportional representation by age, gender, and category
+ * - Ensures comprehensive memorial representation beyond individually named victims
+ * - Seeded per soul (see `extrapolation.ts`), so `stat_N` is identical on every load
+ *
+ * @returns {Promise<DataInfo>} Complete memorial dataset with casualties, statistics, and metadata
+ */
+export async function loadMemorialDataset(): Promise<DataInfo> {
+  console.log('🔄 Loading comprehensive memorial data from upstream APIs...')
+
+  // Fetch every registered source in parallel for better performance
+  const sources = getDataSources()
+  const settled = await Promise.allSettled(sources.map(source => loadSource(source)))
+
+  // A rejection is an unexpected error (loadSource handles unavailable sources), recorded as a failed load
+  const results = settled.map((result, index): SourceResult => {
+    if (result.status === 'fulfilled') return result.value
+    console.error(`❌ ${sources[index].id} failed:`, result.reason)
+    return {
+      source: sources[index],
+      records: [],
+      validation: null,
+      load: {
+        source: sources[index].id,
+        origin: null,
+        status: 'failed',
+        latencyMs: 0,
+        records: 0,
+        errors: [describeLoadError(result.reason)]
+      }
+    }
+  })
+
+  // Every casualty list contributes; each series comes from the first source that delivered records
+  const recordsOf = <K extends DataSourceKind>(kind: K): DataSourceRecords[K][][] =>
+    results.filter(result => result.source.kind === kind).map(result => result.records as DataSourceRecords[K][])
+  const firstRecordsOf = <K extends DataSourceKind>(kind: K): DataSourceRecords[K][] =>
+    recordsOf(kind).find(records => records.length > 0) || []
+
+  const casualtyLists = recordsOf('casualties')
+  const dailyData = firstRecordsOf('gazaDaily')
+  const westBankData = firstRecordsOf('westBankDaily')
+  const infrastructureData = firstRecordsOf('infrastructure')
+  const summary = firstRecordsOf('summary')[0] || null
+
+  const reportsOf = (loaded: SourceResult[]) =>
+    loaded.map(result => result.validation).filter((report): report is SourceValidationReport => !!report)
+  const validation = createValidationReport(
+    reportsOf(results),
+    reportsOf(results.filter(result => result.source.essential))
+  )
+  if (validation.hasFailures) {
+    const failed = validation.sources.filter(source => source.status === 'failed').map(source => source.source)
+    console.error(`❌ Upstream schema validation failed for: ${failed.join(', ')}`)
+  }
+
+  // Record how every source loaded
+  const sourceLoads = results.map(result => result.load)
+  const loadReport = createLoadReport(sourceLoads)
+  console.log(`✅ ${loadReport.successful}/${sourceLoads.length} sources loaded (origin: ${loadReport.origin})`)
+
+  // Check if we have minimum viable data
+  const hasMinimumData = casualtyLists.some(records => records.length > 0)
+  if (!hasMinimumData) {
+    console.warn('⚠️ No casualty data received from APIs, using fallback data')
+    const reason = 'No named casualty records were available from the APIs or the CSV fallbacks'
+    return { ...getFallbackData(reason), validation, loadReport: createFallbackLoadReport(reason, sourceLoads) }
+  }
+
+  // Combine all casualties, merging people who appear in more than one list
+  const { casualties: allCasualties, report: reconciliation } = reconcileCasualties(casualtyLists)
+  if (reconciliation.merged > 0) {
+    console.log(`Merged ${reconciliation.merged} duplicate named records`, reconciliation.conflicts)
+  }
+
+  // Derive family names once names are final; statistical souls have none
+  allCasualties.forEach(casualty => {
+    casualty.family_name = getFamilyName(casualty.name_en, casualty.name_ar)
+  })
+
+  // Generate comprehensive statistics
+  const stats = getLatestStats(dailyData, westBankData, infrastructureData)
+
+  // Generate additional particles to reach the memorial total
+  const { memorialTotal, memorialTotalSource } = resolveMemorialTotal(stats, getSiteSettings().memorial.totalCasualtiesOverride)
+  const targetTotal = Math.max(memorialTotal, allCasualties.length)
+  const currentCount = allCasualties.length
+  const missingCount = targetTotal - currentCount
+
+  console.log(`Generating ${missingCount} additional particles to reach ${targetTotal} total (${memorialTotalSource})`)
+
+  // Create deterministic statistical particles for the missing souls
+  const ratios = getExtrapolationRatios(stats)
+  const timelines: DeathTimelines = {
+    'Gaza Strip': buildDeathTimeline(dailyData) ?? undefined,
+    'West Bank': buildDeathTimeline(westBankData) ?? undefined
+  }
+  const { casualties: statisticalParticles, report: extrapolation } = extrapolateCasualties(
+    Math.max(missingCount, 0),
+    ratios,
+    timelines
+  )
+  console.log(`Extrapolation max deviation from target ratios: ${(extrapolation.maxDeviation * 100).toFixed(2)}%`)
+
+  // Combine named individuals with statistical particles
+  const completeDataset = [...allCasualties, ...statisticalParticles]
+
+  // Precompute the search index so browsers don't have to build it
+  const indexStart = Date.now()
+  const searchIndex = serializeSearchIndex(buildSearchIndex(completeDataset))
+  console.log(`Search index built in ${Date.now() - indexStart}ms (${searchIndex.terms.length} name terms)`)
+
+  console.log('Memorial data loaded successfully:')
+  results
+    .filter(result => result.source.kind === 'casualties')
+    .forEach(result => console.log(`- ${result.source.name}: ${result.records.length}`))
+  console.log(`- Named individual records: ${allCasualties.length}`)
+  console.log(`- Statistical particles: ${statisticalParticles.length}`)
+  console.log(`- Total particles: ${completeDataset.length}`)
+  console.log(`- Quarantined records: ${validation.totalQuarantined}/${validation.totalRecords}`)
+  console.log(`- Gaza total (official): ${stats.gaza.total_killed}`)
+  console.log(`- West Bank total: ${stats.west_bank.total_killed}`)
+  if (summary) {
+    console.log('- Summary API data:', summary)
+  } else {
+    console.log('- Summary API: No data available')
+  }
+
+  return {
+    casualties: completeDataset,
+    stats,
+    daily: dailyData,
+    westBank: westBankData,
+    infrastructure: infrastructureData,
+    lastUpdated: stats.last_updated,
+    totalCount: completeDataset.length,
+    memorialTotal: targetTotal,
+    memorialTotalSource,
+    validation,
+    reconciliation,
+    extrapolation,
+    searchIndex,
+    loadReport
+  }
+}
+
+/**
+ * A built dataset with its HTTP validators
+ *
+ * @interface MemorialDatasetEntry
+ * @property {DataInfo} data - The memorial dataset
+ * @property {string} etag - Strong ETag derived from the dataset content
+ * @property {number} lastModified - When the content last changed (ms since epoch)
+ */
+export interface MemorialDatasetEntry {
+  data: DataInfo
+  etag: string
+  lastModified: number
+}
+
+// In-memory dataset cache shared by every request handled by this server instance
+let cachedDataset: (MemorialDatasetEntry & { builtAt: number }) | null = null
+let pendingDataset: Promise<MemorialDatasetEntry> | null = null
+// Bumped on invalidation so a build that started earlier is not cached
+let cacheGeneration = 0
+
+/**
+ * Discards the cached dataset so the next request rebuilds it
+ *
+ * Called when settings that shape the dataset (such as the memorial total
+ * override) change.
+ */
+export function invalidateMemorialDataset(): void {
+  cacheGeneration++
+  cachedDataset = null
+  pendingDataset = null
+}
+
+/**
+ * Returns the cached memorial dataset and its validators, rebuilding it when stale
+ *
+ * The ETag is a content hash, so hourly rebuilds with unchanged upstream data
+ * keep the same ETag and `Last-Modified`, and clients can revalidate cheaply.
+ *
+ * @param {object} [options] - Cache options
+ * @param {boolean} [options.forceRefresh] - Ignore the cache and rebuild immediately
+ * @returns {Promise<MemorialDatasetEntry>} The current memorial dataset entry
+ */
+export async function getMemorialDatasetEntry(options: { forceRefresh?: boolean } = {}): Promise<MemorialDatasetEntry> {
+  const maxAge = DATASET_REVALIDATE_SECONDS * 1000
+  if (!options.forceRefresh && cachedDataset && Date.now() - cachedDataset.builtAt < maxAge) {
+    return cachedDataset
+  }
+
+  if (!pendingDataset) {
+    const generation = cacheGeneration
+    const build = loadMemorialDataset()
+      .then(data => {
+        // Timings in the load report change on every build; they must not change the ETag
+        const content = JSON.stringify(data, (key, value) => (VOLATILE_LOAD_REPORT_FIELDS.has(key) ? undefined : value))
+        const etag = `"${createHash('sha1').update(content).digest('base64url')}"`
+        const lastModified = cachedDataset?.etag === etag ? cachedDataset.lastModified : Date.now()
+        const entry = { data, etag, lastModified }
+        if (generation === cacheGeneration) cachedDataset = { ...entry, builtAt: Date.now() }
+        return entry
+      })
+      .finally(() => {
+        if (pendingDataset === build) pendingDataset = null
+      })
+    pendingDataset = build
+  }
+
+  return pendingDataset
+}
+
+/**
+ * Returns the cached memorial dataset, rebuilding it when stale
+ *
+ * @param {object} [options] - Cache options
+ * @param {boolean} [options.forceRefresh] - Ignore the cache and rebuild immediately
+ * @returns {Promise<DataInfo>} The current memorial dataset
+ */
+export async function getMemorialDataset(options: { forceRefresh?: boolean } = {}): Promise<DataInfo> {
+  return (await getMemorialDatasetEntry(options)).data
+}
+
+/**
+ * Returns the memorial total for page copy such as the About page and blog
+ *
+ * @returns {Promise<number | null>} The total of the cached dataset, null when it is unknown
+ */
+export async function getMemorialTotal(): Promise<number | null> {
+  try {
+    const { memorialTotal, memorialTotalSource } = await getMemorialDataset()
+    return memorialTotalSource === 'unknown' || memorialTotal <= 0 ? null : memorialTotal
+  } catch (error) {
+    console.error('Error resolving the memorial total:', error)
+    return null
+  }
+}
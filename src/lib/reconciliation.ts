@@ -0,0 +1,214 @@
+/**
+ * Gaza Memorial Casualty Reconciliation
+ *
+ * Named casualties come from several lists (Killed in Gaza, Press Killed) and
+ * the same person can appear in more than one of them, or twice in one list.
+ * Reconciliation merges those records so every person is one particle.
+ *
+ * Matching Rules:
+ * 1. Same upstream ID - always the same person
+ * 2. Same normalized Arabic name (see `arabic.ts`) in a different dataset, when
+ *    - the name has at least three parts, so common short names never match,
+ *    - ages and dates of birth do not contradict each other (ages may differ by
+ *      one year, since ages are reported at different dates), and
+ *    - exactly one record qualifies; ambiguous matches are left unmerged and counted
+ *
+ * Merging:
+ * The earlier record (lists are passed in priority order) is kept, empty fields
+ * are filled from the later one, every provenance is kept in `sources`, and the
+ * most specific `type` wins (e.g. `press` over `civilian`). Differing non-empty
+ * values are recorded as conflicts in the report.
+ *
+ * @author Palestine Memorial Project
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import { getAgeBand } from './casualtyFields'
+import type { Casualty } from './dataLoader'
+import { arabicNameTokens } from './arabic'
+
+/**
+ * A merged record and the fields whose values disagreed
+ *
+ * @interface ReconciliationMerge
+ * @property {string} id - ID of the kept record
+ * @property {string[]} mergedIds - IDs of the records merged into it
+ * @property {Array<'id' | 'name'>} matchedBy - Rules that matched the merged records
+ * @property {string[]} conflicts - Fields with differing non-empty values
+ */
+export interface ReconciliationMerge {
+  id: string
+  mergedIds: string[]
+  matchedBy: Array<'id' | 'name'>
+  conflicts: string[]
+}
+
+/**
+ * Outcome of reconciling the named casualty lists
+ *
+ * @interface ReconciliationReport
+ * @property {number} inputCount - Records before reconciliation
+ * @property {number} outputCount - Records after reconciliation
+ * @property {number} merged - Records merged into another record
+ * @property {Record<'id' | 'name', number>} matchedBy - Merges per matching rule
+ * @property {number} ambiguous - Records with several possible matches, left unmerged
+ * @property {Record<string, number>} conflicts - Conflicting values per field
+ * @property {ReconciliationMerge[]} samples - First merges, for review
+ */
+export interface ReconciliationReport {
+  inputCount: number
+  outputCount: number
+  merged: number
+  matchedBy: Record<'id' | 'name', number>
+  ambiguous: number
+  conflicts: Record<string, number>
+  samples: ReconciliationMerge[]
+}
+
+/**
+ * Maximum number of merges kept in the report
+ */
+const MAX_SAMPLES = 20
+
+/**
+ * Minimum number of name parts for a name-only match
+ */
+const MIN_NAME_PARTS = 3
+
+/**
+ * Type specificity; higher wins when merging
+ */
+const TYPE_SPECIFICITY: Record<NonNullable<Casualty['type']>, number> = {
+  civilian: 0,
+  civil_defense: 1,
+  medical: 1,
+  press: 1
+}
+
+/**
+ * Fields compared for conflicts and filled when empty
+ */
+const COMPARED_FIELDS = ['name_en', 'age', 'gender', 'date_of_birth', 'date_of_death', 'region', 'location'] as const
+
+function isEmptyValue(field: typeof COMPARED_FIELDS[number], value: unknown): boolean {
+  if (field === 'age') return !value
+  if (field === 'name_en') return !value || value === 'Unknown'
+  return value === undefined || value === ''
+}
+
+/**
+ * Checks that two records' ages and dates of birth do not contradict each other
+ */
+function isCompatible(a: Casualty, b: Casualty): boolean {
+  if (a.date_of_birth && b.date_of_birth) return a.date_of_birth === b.date_of_birth
+  if (a.age && b.age) return Math.abs(a.age - b.age) <= 1
+  return true
+}
+
+/**
+ * Merges `other` into `kept`, returning the fields that conflicted
+ */
+function mergeInto(kept: Casualty, other: Casualty): string[] {
+  const conflicts: string[] = []
+
+  for (const field of COMPARED_FIELDS) {
+    const keptValue = kept[field]
+    const otherValue = other[field]
+    if (isEmptyValue(field, otherValue)) continue
+
+    if (isEmptyValue(field, keptValue)) {
+      Object.assign(kept, { [field]: otherValue })
+    } else if (keptValue !== otherValue) {
+      conflicts.push(field)
+    }
+  }
+  kept.age_band = getAgeBand(kept.age)
+
+  const keptType = kept.type || 'civilian'
+  const otherType = other.type || 'civilian'
+  if (TYPE_SPECIFICITY[otherType] > TYPE_SPECIFICITY[keptType]) {
+    kept.type = otherType
+  } else if (otherType !== keptType && TYPE_SPECIFICITY[otherType] === TYPE_SPECIFICITY[keptType]) {
+    conflicts.push('type')
+  }
+
+  kept.sources = Array.from(new Set([...kept.sources, ...other.sources]))
+  return conflicts
+}
+
+/**
+ * Merges duplicate named casualties across (and within) source lists
+ *
+ * @param {Casualty[][]} lists - Casualty lists in priority order (earlier lists win conflicts)
+ * @returns Reconciled casualties, in first-seen order, and the reconciliation report
+ *
+ * @example
+ * const { casualties, report } = reconcileCasualties([gazaData, pressData])
+ * console.log(`${report.merged} duplicate records merged`)
+ */
+export function reconcileCasualties(lists: Casualty[][]): { casualties: Casualty[]; report: ReconciliationReport } {
+  const casualties: Casualty[] = []
+  const byId = new Map<string, Casualty>()
+  const byName = new Map<string, Casualty[]>()
+  const merges = new Map<Casualty, ReconciliationMerge>()
+  const report: ReconciliationReport = {
+    inputCount: 0,
+    outputCount: 0,
+    merged: 0,
+    matchedBy: { id: 0, name: 0 },
+    ambiguous: 0,
+    conflicts: {},
+    samples: []
+  }
+
+  for (const list of lists) {
+    for (const record of list) {
+      report.inputCount++
+      const tokens = arabicNameTokens(record.name_ar)
+      const nameKey = tokens.join(' ')
+
+      let match = byId.get(record.id)
+      let matchedBy: 'id' | 'name' = 'id'
+
+      if (!match && tokens.length >= MIN_NAME_PARTS) {
+        const candidates = (byName.get(nameKey) || []).filter(candidate =>
+          candidate.data_source !== record.data_source && isCompatible(candidate, record)
+        )
+        if (candidates.length === 1) {
+          match = candidates[0]
+          matchedBy = 'name'
+        } else if (candidates.length > 1) {
+          report.ambiguous++
+        }
+      }
+
+      if (!match) {
+        // Copy so merging never mutates the caller's records
+        const kept = { ...record, sources: [...record.sources] }
+        casualties.push(kept)
+        byId.set(kept.id, kept)
+        if (nameKey) byName.set(nameKey, [...(byName.get(nameKey) || []), kept])
+        continue
+      }
+
+      const conflicts = mergeInto(match, record)
+      byId.set(record.id, match)
+      report.merged++
+      report.matchedBy[matchedBy]++
+      conflicts.forEach(field => {
+        report.conflicts[field] = (report.conflicts[field] || 0) + 1
+      })
+
+      const merge = merges.get(match) || { id: match.id, mergedIds: [], matchedBy: [], conflicts: [] }
+      merge.mergedIds.push(record.id)
+      if (!merge.matchedBy.includes(matchedBy)) merge.matchedBy.push(matchedBy)
+      merge.conflicts = Array.from(new Set([...merge.conflicts, ...conflicts]))
+      if (!merges.has(match) && report.samples.length < MAX_SAMPLES) report.samples.push(merge)
+      merges.set(match, merge)
+    }
+  }
+
+  report.outputCount = casualties.length
+  return { casualties, report }
+}
@@ -0,0 +1,341 @@
+/**
+ * Gaza Memorial Name Search
+ *
+ * Families search for a specific person, typically with a spelling that differs
+ * from the one in the source list. Matching is therefore done on normalized
+ * name parts rather than on the raw strings.
+ *
+ * Arabic Names:
+ * Both query and name are reduced to the orthographic normal form from
+ * `arabic.ts`, so hamza seats, taa marbuta, alef maqsura, tatweel and
+ * diacritics never cause a miss. A leading "ال" is ignored when comparing.
+ *
+ * English Names:
+ * Transliterations of the same Arabic name vary ("Mohammed", "Muhammad",
+ * "Mohamad"). Each name part is also reduced to a consonant skeleton:
+ * - Accents and apostrophes are removed, hyphens split parts
+ * - "Abd"/"Abdel"/"Abdul" compounds are joined ("Abd Allah" matches "Abdullah")
+ * - Standalone "al"/"el" articles are ignored
+ * - ph becomes f, q and c become k
+ * - Consonants are kept; only the first vowel is kept, as a/e/i → a or o/u → u
+ * - Doubled letters are collapsed and a trailing h is dropped
+ *
+ * Ranking:
+ * Every query part must match some name part; parts may appear in any order.
+ * Per part, an exact match scores highest, then a prefix, then a transliteration
+ * match, then a substring. Whole-name exact and prefix matches get a bonus. Equal
+ * scores keep the original order.
+ *
+ * @author Palestine Memorial Project
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import type { Casualty } from './dataLoader'
+import { arabicNameTokens } from './arabic'
+
+/**
+ * Name fields used for searching
+ */
+export type NameFields = Pick<Casualty, 'name_en' | 'name_ar'>
+
+/**
+ * A normalized query part
+ *
+ * @interface QueryToken
+ * @property {string} text - Normalized part
+ * @property {string} key - Comparison key (transliteration skeleton or article-free Arabic)
+ */
+export interface QueryToken {
+  text: string
+  key: string
+}
+
+/**
+ * A parsed search query, split by script
+ *
+ * @interface NameQuery
+ * @property {QueryToken[]} latin - Parts matched against `name_en`
+ * @property {QueryToken[]} arabic - Parts matched against `name_ar`
+ */
+export interface NameQuery {
+  latin: QueryToken[]
+  arabic: QueryToken[]
+}
+
+/**
+ * Normalized name parts and their comparison keys
+ */
+interface NameKeys {
+  latin: QueryToken[]
+  arabic: QueryToken[]
+}
+
+/**
+ * Scores per matching query part
+ */
+const MATCH_SCORES = {
+  exact: 4,
+  prefix: 3,
+  transliteration: 2,
+  substring: 1
+}
+
+/**
+ * Bonuses for whole-name matches
+ */
+const WHOLE_NAME_SCORES = {
+  exact: 10,
+  prefix: 5
+}
+
+/**
+ * Minimum query part length for prefix matches on transliteration keys
+ */
+const MIN_KEY_PREFIX_LENGTH = 3
+
+const ARABIC_CHARACTERS = /[\u0600-\u06FF]/
+const COMBINING_MARKS = /[\u0300-\u036F]/g
+const APOSTROPHES = /['`\u2018\u2019\u02BE\u02BF]/g
+const ABD_PREFIXES = new Set(['abd', 'abdel', 'abdul', 'abdal', 'abdil'])
+const ARTICLES = new Set(['al', 'el', 'ul'])
+
+/**
+ * First-vowel classes; o/u and a/e/i are interchangeable in transliterations,
+ * while the two classes tell e.g. Mohammed (muhmd) from Mahmoud (mahmd) apart.
+ * Y is a vowel except as the first letter, and later vowels are dropped.
+ */
+const VOWEL_CLASSES: Record<string, string> = { a: 'a', e: 'a', i: 'a', o: 'u', u: 'u', y: 'y' }
+
+/**
+ * Key cache; casualty records are not mutated after loading
+ */
+const nameKeyCache = new WeakMap<NameFields, NameKeys>()
+
+/**
+ * Splits Latin text into lowercase, accent-free parts
+ */
+function latinParts(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(COMBINING_MARKS, '')
+    .toLowerCase()
+    .replace(APOSTROPHES, '')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+}
+
+/**
+ * Joins "Abd" compounds and drops standalone articles
+ */
+function joinLatinParts(parts: string[]): string[] {
+  const joined: string[] = []
+
+  for (let i = 0; i < parts.length; i++) {
+    let part = parts[i]
+    if (ABD_PREFIXES.has(part) && i + 1 < parts.length) {
+      if (ARTICLES.has(parts[i + 1]) && i + 2 < parts.length) {
+        part += parts[i + 1] + parts[i + 2]
+        i += 2
+      } else {
+        part += parts[++i]
+      }
+    } else if (ARTICLES.has(part) && parts.length > 1) {
+      continue
+    }
+    joined.push(part)
+  }
+
+  return joined
+}
+
+/**
+ * Reduces a Latin name part to its transliteration skeleton
+ *
+ * @param {string} part - Lowercase, accent-free name part
+ * @returns {string} Skeleton key
+ *
+ * @example
+ * transliterationKey('mohammed') === transliterationKey('muhammad') // both 'muhmd'
+ * transliterationKey('mahmoud') // 'mahmd', kept apart by its first vowel
+ * transliterationKey('abdullah') === transliterationKey('abdallah') // both 'abdl'
+ */
+export function transliterationKey(part: string): string {
+  let key = ''
+  let hasVowel = false
+
+  for (const char of part.replace(/ph/g, 'f').replace(/[qc]/g, 'k')) {
+    if (!VOWEL_CLASSES[char]) {
+      key += char
+    } else if (!hasVowel && char !== 'y') {
+      key += VOWEL_CLASSES[char]
+      hasVowel = true
+    } else if (!key) {
+      key += char
+    }
+  }
+
+  return key
+    .replace(/(.)\1+/g, '$1')
+    .replace(/(.)h$/, '$1')
+}
+
+/**
+ * Normalizes Latin text into query parts
+ */
+function latinTokens(text: string): QueryToken[] {
+  return joinLatinParts(latinParts(text)).map(text => ({ text, key: transliterationKey(text) }))
+}
+
+/**
+ * Normalizes Arabic text into query parts
+ */
+function arabicTokens(text: string): QueryToken[] {
+  return arabicNameTokens(text).map(text => ({
+    text,
+    key: text.length > 3 && text.startsWith('ال') ? text.slice(2) : text
+  }))
+}
+
+/**
+ * Normalized parts of a record's names, cached per record
+ */
+function getNameKeys(record: NameFields): NameKeys {
+  let keys = nameKeyCache.get(record)
+  if (!keys) {
+    keys = {
+      latin: latinTokens(record.name_en || ''),
+      arabic: arabicTokens(record.name_ar || '')
+    }
+    nameKeyCache.set(record, keys)
+  }
+  return keys
+}
+
+/**
+ * Every normalized part and comparison key of a record's names
+ *
+ * A record can only match a query part that is contained in, or whose key is a
+ * prefix of, one of these terms, which is what `searchIndex.ts` indexes.
+ *
+ * @param {NameFields} record - Record with English and Arabic names
+ * @returns {string[]} Unique terms in both scripts
+ */
+export function getNameTerms(record: NameFields): string[] {
+  const keys = getNameKeys(record)
+  const terms = new Set<string>()
+  for (const token of [...keys.latin, ...keys.arabic]) {
+    terms.add(token.text)
+    terms.add(token.key)
+  }
+  return Array.from(terms)
+}
+
+/**
+ * Parses a search query, splitting its parts by script
+ *
+ * @param {string} query - Raw search input
+ * @returns {NameQuery | null} Parsed query, or null when there is nothing to search for
+ */
+export function parseNameQuery(query: string): NameQuery | null {
+  const words = query.trim().split(/\s+/)
+  const latin = latinTokens(words.filter(word => !ARABIC_CHARACTERS.test(word)).join(' '))
+  const arabic = arabicTokens(words.filter(word => ARABIC_CHARACTERS.test(word)).join(' '))
+
+  return latin.length || arabic.length ? { latin, arabic } : null
+}
+
+/**
+ * Best score of one query part against a name's parts
+ */
+function scoreToken(token: QueryToken, nameTokens: QueryToken[]): number {
+  let best = 0
+
+  for (const nameToken of nameTokens) {
+    if (nameToken.text === token.text) return MATCH_SCORES.exact
+    if (nameToken.text.startsWith(token.text)) {
+      best = Math.max(best, MATCH_SCORES.prefix)
+    } else if (
+      nameToken.key === token.key ||
+      (token.text.length >= MIN_KEY_PREFIX_LENGTH && nameToken.key.startsWith(token.key))
+    ) {
+      best = Math.max(best, MATCH_SCORES.transliteration)
+    } else if (nameToken.text.includes(token.text)) {
+      best = Math.max(best, MATCH_SCORES.substring)
+    }
+  }
+
+  return best
+}
+
+/**
+ * Scores query parts of one script against a name's parts
+ *
+ * @returns Score, or 0 when any part does not match
+ */
+function scoreTokens(queryTokens: QueryToken[], nameTokens: QueryToken[]): number {
+  let score = 0
+
+  for (const token of queryTokens) {
+    const tokenScore = scoreToken(token, nameTokens)
+    if (!tokenScore) return 0
+    score += tokenScore
+  }
+
+  const query = queryTokens.map(token => token.text).join(' ')
+  const name = nameTokens.map(token => token.text).join(' ')
+  if (name === query) score += WHOLE_NAME_SCORES.exact
+  else if (name.startsWith(query)) score += WHOLE_NAME_SCORES.prefix
+
+  return score
+}
+
+/**
+ * Scores how well a record's names match a query
+ *
+ * @param {NameFields} record - Record with English and Arabic names
+ * @param {NameQuery} query - Parsed query
+ * @returns {number} Match score; 0 means no match
+ */
+export function scoreName(record: NameFields, query: NameQuery): number {
+  const keys = getNameKeys(record)
+  let score = 0
+
+  if (query.latin.length) {
+    const latinScore = scoreTokens(query.latin, keys.latin)
+    if (!latinScore) return 0
+    score += latinScore
+  }
+  if (query.arabic.length) {
+    const arabicScore = scoreTokens(query.arabic, keys.arabic)
+    if (!arabicScore) return 0
+    score += arabicScore
+  }
+
+  return score
+}
+
+/**
+ * Filters records by name and orders them by match quality
+ *
+ * @param {T[]} records - Records to search
+ * @param {string} query - Raw search input
+ * @returns {T[]} Matching records, best first; all records when the query is empty
+ *
+ * @example
+ * searchByName(casualties, 'Muhammad') // also finds "Mohammed" and "Mohamad"
+ * searchByName(casualties, 'فاطمة')    // also finds "فاطمه" and "فاطِمة"
+ */
+export function searchByName<T extends NameFields>(records: T[], query: string): T[] {
+  const parsed = parseNameQuery(query)
+  if (!parsed) return records
+
+  const matches: Array<{ record: T; score: number }> = []
+  for (const record of records) {
+    const score = scoreName(record, parsed)
+    if (score > 0) matches.push({ record, score })
+  }
+
+  // Array.prototype.sort is stable, so equal scores keep their original order
+  return matches.sort((a, b) => b.score - a.score).map(match => match.record)
+}
@@ -0,0 +1,440 @@
+/**
+ * Gaza Memorial Search Index
+ *
+ * Filtering tens of thousands of records with string scans on every keystroke
+ * is too slow on mobile devices. The search index is built once per dataset
+ * and resolves `Filters` by intersecting precomputed record sets.
+ *
+ * Structure:
+ * - Name terms: a sorted dictionary of every normalized name part and
+ *   transliteration key (see `search.ts`), each with the sorted indices of the
+ *   records containing it. Prefix lookups binary-search the dictionary;
+ *   substring lookups scan it, which is far smaller than the record list.
+ * - Facets: one bitset per gender, type, source and location value
+ * - Age buckets: one bitset per `AGE_BUCKET_SIZE` years
+ *
+ * Querying:
+ * Facet and bucket bitsets and the name candidates are intersected first; only
+ * the remaining records are checked for their exact age and scored by name,
+ * so results are identical to filtering the records directly.
+ *
+ * Serialization:
+ * The server builds the index with the dataset and ships it in `DataInfo`.
+ * Bitsets are base64-encoded words and postings are base64-encoded,
+ * delta-varint streams, keeping the payload a fraction of the dataset size.
+ *
+ * @author Palestine Memorial Project
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import type { Casualty } from './dataLoader'
+import type { Filters } from './store'
+import { getNameTerms, parseNameQuery, scoreName } from './search'
+
+/**
+ * Serialization format version; bump when the layout changes
+ */
+export const SEARCH_INDEX_VERSION = 2
+
+/**
+ * Width of an age bucket in years
+ */
+export const AGE_BUCKET_SIZE = 5
+
+/**
+ * Record fields with a bitset per value
+ */
+export type SearchFacet = 'gender' | 'type' | 'source' | 'location'
+
+const FACETS: SearchFacet[] = ['gender', 'type', 'source', 'location']
+
+/**
+ * Record fields used by the index
+ */
+export type IndexedRecord = Pick<Casualty, 'name_en' | 'name_ar' | 'age' | 'gender' | 'type' | 'source' | 'location'>
+
+/**
+ * Search index ready for querying
+ *
+ * @interface SearchIndex
+ * @property {number} count - Number of indexed records
+ * @property {string[]} terms - Sorted name terms
+ * @property {Uint32Array[]} postings - Sorted record indices per term
+ * @property {Record<SearchFacet, Map<string, Uint32Array>>} facets - Bitset per facet value
+ * @property {Map<number, Uint32Array>} ageBuckets - Bitset per age bucket
+ */
+export interface SearchIndex {
+  count: number
+  terms: string[]
+  postings: Uint32Array[]
+  facets: Record<SearchFacet, Map<string, Uint32Array>>
+  ageBuckets: Map<number, Uint32Array>
+}
+
+/**
+ * JSON-safe form of a search index
+ *
+ * @interface SerializedSearchIndex
+ * @property {number} version - Format version (`SEARCH_INDEX_VERSION`)
+ * @property {number} count - Number of indexed records
+ * @property {number} ageBucketSize - Width of an age bucket in years
+ * @property {string[]} terms - Sorted name terms
+ * @property {string} postings - Base64 delta-varint stream: per term, a count followed by index gaps
+ * @property {Record<SearchFacet, Record<string, string>>} facets - Base64 bitset per facet value
+ * @property {Record<string, string>} ageBuckets - Base64 bitset per age bucket
+ */
+export interface SerializedSearchIndex {
+  version: number
+  count: number
+  ageBucketSize: number
+  terms: string[]
+  postings: string
+  facets: Record<SearchFacet, Record<string, string>>
+  ageBuckets: Record<string, string>
+}
+
+/**
+ * Positions of the records matching a query, with their name match scores
+ *
+ * @interface SearchIndexMatches
+ * @property {Uint32Array} indices - Record positions, best name matches first (record order when not searching by name)
+ * @property {Float32Array} scores - Name match score per position (1 when not searching by name)
+ */
+export interface SearchIndexMatches {
+  indices: Uint32Array
+  scores: Float32Array
+}
+
+function createBitset(count: number): Uint32Array {
+  return new Uint32Array(Math.ceil(count / 32))
+}
+
+function setBit(bitset: Uint32Array, index: number): void {
+  bitset[index >>> 5] |= 1 << (index & 31)
+}
+
+function intersectInto(target: Uint32Array, other: Uint32Array): void {
+  for (let i = 0; i < target.length; i++) target[i] &= other[i]
+}
+
+function unionInto(target: Uint32Array, other: Uint32Array): void {
+  for (let i = 0; i < target.length; i++) target[i] |= other[i]
+}
+
+/**
+ * Calls `callback` with every set index, in ascending order
+ */
+function forEachSetBit(bitset: Uint32Array, callback: (index: number) => void): void {
+  for (let word = 0; word < bitset.length; word++) {
+    let bits = bitset[word]
+    while (bits !== 0) {
+      const lowest = bits & -bits
+      callback(word * 32 + (31 - Math.clz32(lowest)))
+      bits ^= lowest
+    }
+  }
+}
+
+function getAgeBucket(age: number): number {
+  return Math.floor((age || 0) / AGE_BUCKET_SIZE)
+}
+
+function facetValue(record: IndexedRecord, facet: SearchFacet): string | undefined {
+  return record[facet]
+}
+
+/**
+ * Builds the search index for a record list
+ *
+ * @param {IndexedRecord[]} records - Records in display order
+ * @returns {SearchIndex} Index referring to records by position
+ *
+ * @example
+ * const index = buildSearchIndex(dataset.casualties)
+ * const { indices } = querySearchIndex(index, dataset.casualties, filters)
+ */
+export function buildSearchIndex(records: IndexedRecord[]): SearchIndex {
+  const count = records.length
+  const termPostings = new Map<string, number[]>()
+  const facets = {} as Record<SearchFacet, Map<string, Uint32Array>>
+  const ageBuckets = new Map<number, Uint32Array>()
+  FACETS.forEach(facet => {
+    facets[facet] = new Map()
+  })
+
+  records.forEach((record, index) => {
+    for (const term of getNameTerms(record)) {
+      const postings = termPostings.get(term)
+      if (postings) postings.push(index)
+      else termPostings.set(term, [index])
+    }
+
+    for (const facet of FACETS) {
+      const value = facetValue(record, facet)
+      if (value === undefined) continue
+      let bitset = facets[facet].get(value)
+      if (!bitset) facets[facet].set(value, (bitset = createBitset(count)))
+      setBit(bitset, index)
+    }
+
+    const bucket = getAgeBucket(record.age)
+    let bitset = ageBuckets.get(bucket)
+    if (!bitset) ageBuckets.set(bucket, (bitset = createBitset(count)))
+    setBit(bitset, index)
+  })
+
+  const terms = Array.from(termPostings.keys()).sort()
+  return {
+    count,
+    terms,
+    postings: terms.map(term => Uint32Array.from(termPostings.get(term)!)),
+    facets,
+    ageBuckets
+  }
+}
+
+/**
+ * Position of the first term that is not less than `prefix`
+ */
+function lowerBound(terms: string[], prefix: string): number {
+  let low = 0
+  let high = terms.length
+  while (low < high) {
+    const mid = (low + high) >>> 1
+    if (terms[mid] < prefix) low = mid + 1
+    else high = mid
+  }
+  return low
+}
+
+/**
+ * Records that could match a query part: terms containing its text or starting with its key
+ */
+function getTokenCandidates(index: SearchIndex, text: string, key: string): Uint32Array {
+  const candidates = createBitset(index.count)
+  const matched = new Set<number>()
+
+  for (let i = lowerBound(index.terms, key); i < index.terms.length && index.terms[i].startsWith(key); i++) {
+    matched.add(i)
+  }
+  index.terms.forEach((term, i) => {
+    if (term.includes(text)) matched.add(i)
+  })
+
+  matched.forEach(termIndex => {
+    index.postings[termIndex].forEach(recordIndex => setBit(candidates, recordIndex))
+  })
+  return candidates
+}
+
+/**
+ * Resolves filters against the index
+ *
+ * @param {SearchIndex} index - Index built for `records`
+ * @param {IndexedRecord[]} records - The indexed records, in the same order
+ * @param {Filters} filters - Active filters
+ * @returns {SearchIndexMatches} Matching record positions and scores
+ *
+ * @example
+ * const { indices } = querySearchIndex(index, casualties, filters)
+ * const matches = Array.from(indices, position => casualties[position])
+ */
+export function querySearchIndex(index: SearchIndex, records: IndexedRecord[], filters: Filters): SearchIndexMatches {
+  const result = createBitset(index.count)
+  result.fill(0xffffffff)
+
+  const facetFilters: Record<SearchFacet, string> = {
+    gender: filters.gender,
+    type: filters.type,
+    source: filters.source,
+    location: filters.location
+  }
+  for (const facet of FACETS) {
+    if (facetFilters[facet] === 'all') continue
+    const bitset = index.facets[facet].get(facetFilters[facet])
+    if (!bitset) return { indices: new Uint32Array(0), scores: new Float32Array(0) }
+    intersectInto(result, bitset)
+  }
+
+  const [minAge, maxAge] = filters.ageRange
+  const ageCandidates = createBitset(index.count)
+  index.ageBuckets.forEach((bitset, bucket) => {
+    const bucketMin = bucket * AGE_BUCKET_SIZE
+    if (bucketMin + AGE_BUCKET_SIZE > minAge && bucketMin <= maxAge) unionInto(ageCandidates, bitset)
+  })
+  intersectInto(result, ageCandidates)
+
+  const query = parseNameQuery(filters.nameSearch)
+  if (query) {
+    for (const token of [...query.latin, ...query.arabic]) {
+      intersectInto(result, getTokenCandidates(index, token.text, token.key))
+    }
+  }
+
+  const matches: Array<{ position: number; score: number }> = []
+  forEachSetBit(result, position => {
+    if (position >= records.length) return
+    const record = records[position]
+    if (record.age < minAge || record.age > maxAge) return
+    const score = query ? scoreName(record, query) : 1
+    if (score > 0) matches.push({ position, score })
+  })
+
+  // Array.prototype.sort is stable, so equal scores keep record order
+  if (query) matches.sort((a, b) => b.score - a.score)
+  return {
+    indices: Uint32Array.from(matches, match => match.position),
+    scores: Float32Array.from(matches, match => match.score)
+  }
+}
+
+function encodeBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)))
+  }
+  return btoa(binary)
+}
+
+function decodeBase64(text: string): Uint8Array {
+  const binary = atob(text)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
+
+function encodeBitset(bitset: Uint32Array): string {
+  return encodeBase64(new Uint8Array(bitset.buffer, bitset.byteOffset, bitset.byteLength))
+}
+
+function decodeBitset(text: string): Uint32Array {
+  return new Uint32Array(decodeBase64(text).buffer)
+}
+
+/**
+ * Converts a search index to its JSON-safe form
+ *
+ * @param {SearchIndex} index - Index to serialize
+ * @returns {SerializedSearchIndex} Serialized index
+ */
+export function serializeSearchIndex(index: SearchIndex): SerializedSearchIndex {
+  const bytes: number[] = []
+  const writeVarint = (value: number) => {
+    while (value >= 0x80) {
+      bytes.push((value & 0x7f) | 0x80)
+      value >>>= 7
+    }
+    bytes.push(value)
+  }
+
+  index.postings.forEach(postings => {
+    writeVarint(postings.length)
+    let previous = 0
+    postings.forEach(recordIndex => {
+      writeVarint(recordIndex - previous)
+      previous = recordIndex
+    })
+  })
+
+  const facets = {} as Record<SearchFacet, Record<string, string>>
+  FACETS.forEach(facet => {
+    facets[facet] = {}
+    index.facets[facet].forEach((bitset, value) => {
+      facets[facet][value] = encodeBitset(bitset)
+    })
+  })
+
+  const ageBuckets: Record<string, string> = {}
+  index.ageBuckets.forEach((bitset, bucket) => {
+    ageBuckets[bucket] = encodeBitset(bitset)
+  })
+
+  return {
+    version: SEARCH_INDEX_VERSION,
+    count: index.count,
+    ageBucketSize: AGE_BUCKET_SIZE,
+    terms: index.terms,
+    postings: encodeBase64(Uint8Array.from(bytes)),
+    facets,
+    ageBuckets
+  }
+}
+
+/**
+ * Restores a search index from its JSON-safe form
+ *
+ * @param {SerializedSearchIndex} data - Serialized index
+ * @returns {SearchIndex} Index ready for querying
+ * @throws {Error} When the index was written in an incompatible format
+ */
+export function deserializeSearchIndex(data: SerializedSearchIndex): SearchIndex {
+  if (data.version !== SEARCH_INDEX_VERSION || data.ageBucketSize !== AGE_BUCKET_SIZE) {
+    throw new Error(`Unsupported search index format (version ${data.version}, age buckets ${data.ageBucketSize})`)
+  }
+
+  const bytes = decodeBase64(data.postings)
+  let offset = 0
+  const readVarint = () => {
+    let value = 0
+    let shift = 0
+    let byte: number
+    do {
+      byte = bytes[offset++]
+      value += (byte & 0x7f) * 2 ** shift
+      shift += 7
+    } while (byte & 0x80)
+    return value
+  }
+
+  const postings = data.terms.map(() => {
+    const list = new Uint32Array(readVarint())
+    let previous = 0
+    for (let i = 0; i < list.length; i++) {
+      previous += readVarint()
+      list[i] = previous
+    }
+    return list
+  })
+
+  const facets = {} as Record<SearchFacet, Map<string, Uint32Array>>
+  FACETS.forEach(facet => {
+    facets[facet] = new Map(
+      Object.entries(data.facets[facet] || {}).map(([value, bitset]) => [value, decodeBitset(bitset)])
+    )
+  })
+
+  return {
+    count: data.count,
+    terms: data.terms,
+    postings,
+    facets,
+    ageBuckets: new Map(
+      Object.entries(data.ageBuckets).map(([bucket, bitset]) => [Number(bucket), decodeBitset(bitset)])
+    )
+  }
+}
+
+/**
+ * Returns the index for a record list, preferring a precomputed one
+ *
+ * The precomputed index is used only when it was built for the same number of
+ * records in a supported format; otherwise the index is built locally.
+ *
+ * @param {IndexedRecord[]} records - Records the index must describe
+ * @param {SerializedSearchIndex | null} [precomputed] - Index shipped with the dataset
+ * @returns {SearchIndex} Index ready for querying
+ */
+export function resolveSearchIndex(
+  records: IndexedRecord[],
+  precomputed?: SerializedSearchIndex | null
+): SearchIndex {
+  if (precomputed && precomputed.count === records.length) {
+    try {
+      return deserializeSearchIndex(precomputed)
+    } catch (error) {
+      console.warn('⚠️ Precomputed search index unusable, rebuilding:', error)
+    }
+  }
+  return buildSearchIndex(records)
+}
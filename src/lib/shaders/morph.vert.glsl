@@ -6,9 +6,16 @@ in vec3 posPlane;
 
 attribute float aIndex;
 
+// Read by the picking pass
+varying float vParticleIndex;
+varying float vViewDepth;
+
 void main(){
   vec3 p = mix(posCloud, posPlane, uMorph);
-  gl_Position = projectionMatrix * modelViewMatrix * vec4(p, 1.0);
+  vec4 mvPosition = modelViewMatrix * vec4(p, 1.0);
+  gl_Position = projectionMatrix * mvPosition;
+  vParticleIndex = aIndex;
+  vViewDepth = -mvPosition.z;
   
   float size = 32.0;
   if (aIndex == uHovered) {
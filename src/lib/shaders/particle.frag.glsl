@@ -63,6 +63,9 @@ varying float vFilterVisible;
 /** Filter flicker intensity from vertex shader */
 varying float vFilterFlicker;
 
+/** Reveal state from vertex shader (0.0 hidden, 1.0 revealed, up to 2.0 just revealed) */
+varying float vRevealed;
+
 // ============================================================================
 // MAIN SHADER LOGIC
 // ============================================================================
@@ -178,6 +181,23 @@ void main() {
     }
   }
 
+  // ==========================================================================
+  // REVEAL EFFECTS - Progressive lighting, e.g. scrubbing the timeline
+  // ==========================================================================
+
+  // Hovered and focused particles stay fully visible
+  if (vFocused < 0.5 && vHovered < 0.5) {
+    if (vRevealed < 0.5) {
+      // Not yet revealed - a faint trace of what is to come
+      finalOpacity *= 0.12;
+    } else if (vRevealed > 1.0) {
+      // Just revealed - flare towards white, fading over the following days
+      float flare = vRevealed - 1.0;
+      finalColor = mix(finalColor, vec3(1.0), flare * 0.6);
+      finalOpacity *= 1.0 + flare * 0.5;
+    }
+  }
+
   // ==========================================================================
   // FILTER TRANSITION EFFECTS - Visual feedback for filter changes
   // ==========================================================================
@@ -9,6 +9,8 @@
  * - Multiple shader modes (Ethereal, Cosmic, Aurora)
  * - Distance-based size attenuation
  * - Pulsing animations for focused particles
+ * - GPU morphs between layouts (see `LayoutMorpher.tsx`)
+ * - Positions simulated on the GPU in free modes (see `ParticlePhysics.tsx`)
  *
  * @author Gaza Memorial Visualization Team
  * @version 1.0.0
@@ -48,6 +50,36 @@ attribute float filterVisible;
 /** Filter flicker intensity for transition effects */
 attribute float filterFlicker;
 
+/** Reveal key of the particle in the current layout (e.g. day of death) */
+attribute float revealKey;
+
+/** Particles with a reveal key above this value are dimmed */
+uniform float revealThreshold;
+
+/** Position the particle is morphing from; `position` is where it is going */
+attribute vec3 morphSource;
+
+/** Departure delay of the particle within a morph (0.0-1.0) */
+attribute float morphDelay;
+
+/** Progress of the current morph (0.0 = at source, 1.0 = done) */
+uniform float morphProgress;
+
+/** Share of the morph over which departures are spread (0.0-1.0) */
+uniform float morphStagger;
+
+/** Morph easing (0=linear, 1=smooth, 2=cubic, 3=exponential) */
+uniform float morphEasing;
+
+/** Texel of the particle in the physics simulation textures */
+attribute vec2 simulationUv;
+
+/** Simulated positions, one texel per particle */
+uniform sampler2D simulationPositions;
+
+/** Whether positions come from the simulation (1.0) or `position` (0.0) */
+uniform float useSimulation;
+
 // ============================================================================
 // VARYING OUTPUTS - Values passed to fragment shader
 // ============================================================================
@@ -73,6 +105,24 @@ varying float vFilterVisible;
 /** Filter flicker intensity passed to fragment shader */
 varying float vFilterFlicker;
 
+/** Reveal state: 0.0 = not yet revealed, 1.0 = revealed, above 1.0 = just revealed */
+varying float vRevealed;
+
+/** Particle index and distance from the camera, read by the picking pass */
+varying float vParticleIndex;
+varying float vViewDepth;
+
+// ============================================================================
+// MORPH EASING - Must match `ease` in LayoutMorpher.tsx
+// ============================================================================
+
+float easeMorph(float t) {
+  if (morphEasing < 0.5) return t;
+  if (morphEasing < 1.5) return t * t * (3.0 - 2.0 * t);
+  if (morphEasing < 2.5) return t < 0.5 ? 4.0 * t * t * t : 1.0 - pow(-2.0 * t + 2.0, 3.0) / 2.0;
+  return t >= 1.0 ? 1.0 : 1.0 - pow(2.0, -10.0 * t);
+}
+
 // ============================================================================
 // MAIN SHADER LOGIC
 // ============================================================================
@@ -102,8 +152,24 @@ void main() {
   vFilterVisible = filterVisible;
   vFilterFlicker = filterFlicker;
 
+  // Particles revealed within the last two weeks of the threshold glow brighter
+  float revealAge = revealThreshold - revealKey;
+  vRevealed = revealAge < 0.0 ? 0.0 : 1.0 + (1.0 - clamp(revealAge / 14.0, 0.0, 1.0));
+
+  // Free modes are simulated on the GPU; formations hold their layout positions
+  vec3 target = useSimulation > 0.5 ? texture2D(simulationPositions, simulationUv).xyz : position;
+
+  // Blend from the morph source while a morph runs; each particle departs after its delay
+  vec3 morphed = target;
+  if (morphProgress < 1.0) {
+    float t = clamp((morphProgress - morphDelay * morphStagger) / max(1.0 - morphStagger, 0.001), 0.0, 1.0);
+    morphed = mix(morphSource, target, easeMorph(t));
+  }
+
   // Transform particle position to view space
-  vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+  vec4 mvPosition = modelViewMatrix * vec4(morphed, 1.0);
+  vParticleIndex = particleIndex;
+  vViewDepth = -mvPosition.z;
 
   // ==========================================================================
   // PARTICLE SIZING LOGIC
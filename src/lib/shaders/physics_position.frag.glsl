@@ -0,0 +1,58 @@
+/**
+ * @fileoverview Physics Position Shader - Moves particles by their velocity on the GPU
+ *
+ * Companion of `physics_velocity.frag.glsl` in the GPUComputationRenderer
+ * passes of `ParticlePhysics.tsx`. Integrates each particle's velocity with
+ * its individual speed and gently pulls back particles that drift far beyond
+ * the sphere.
+ *
+ * @author Gaza Memorial Visualization Team
+ * @version 1.0.0
+ */
+
+// ============================================================================
+// UNIFORM INPUTS - Values passed from JavaScript
+// ============================================================================
+
+/** Number of simulated particles; texels past it are left empty */
+uniform float particleCount;
+
+/** Simulation step length (seconds) */
+uniform float delta;
+
+/** Breathing radius of the sphere the particles are held to */
+uniform float sphereRadius;
+
+/** Particles with trails are every `trailStep`th below `trailCount` (step 0 = trails off) */
+uniform float trailStep;
+uniform float trailCount;
+
+// ============================================================================
+// MAIN SHADER LOGIC
+// ============================================================================
+
+void main() {
+  vec2 uv = gl_FragCoord.xy / resolution.xy;
+  float i = floor(gl_FragCoord.y) * resolution.x + floor(gl_FragCoord.x);
+  if (i >= particleCount) {
+    gl_FragColor = vec4(0.0);
+    return;
+  }
+
+  vec3 p = texture2D(texturePosition, uv).xyz;
+  vec3 v = texture2D(textureVelocity, uv).xyz;
+
+  // Trailed particles travel faster; every particle keeps its own speed
+  bool trailed = trailStep > 0.0 && i < trailCount && mod(i + 0.5, trailStep) < 1.0;
+  float speedMultiplier = 0.7 + sin(i * 0.1) * 0.6;
+  p += v * delta * (trailed ? 15.0 : 10.0) * speedMultiplier;
+
+  // Long-term stability: gently pull back particles beyond three sphere radii
+  float maxDistance = sphereRadius * 3.0;
+  float currentDistance = length(p);
+  if (currentDistance > maxDistance) {
+    p -= p / currentDistance * (currentDistance - maxDistance) / maxDistance * 0.1;
+  }
+
+  gl_FragColor = vec4(p, 1.0);
+}
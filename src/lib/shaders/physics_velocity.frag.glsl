@@ -0,0 +1,246 @@
+/**
+ * @fileoverview Physics Velocity Shader - Steps particle velocities on the GPU
+ *
+ * Runs once per particle per simulation step inside a GPUComputationRenderer
+ * pass (see `ParticlePhysics.tsx`). Each texel of `textureVelocity` and
+ * `texturePosition` holds one particle; the shader writes the new velocity.
+ *
+ * Forces, in the order they are applied:
+ * - Individual direction bias and speed
+ * - Ascension and return cycle of trailed particles
+ * - Separation from the nearest neighbors
+ * - Organic noise, hover repulsion and gravity
+ * - Distorted, noisy and pulsing sphere constraint
+ * - Mouse followers and click attraction points
+ * - Individual damping and speed limit
+ *
+ * @author Gaza Memorial Visualization Team
+ * @version 1.0.0
+ */
+
+#define MAX_FOLLOWERS 20
+#define MAX_ATTRACTIONS 8
+#define NEIGHBORS 4
+
+// ============================================================================
+// UNIFORM INPUTS - Values passed from JavaScript
+// ============================================================================
+
+/** Number of simulated particles; texels past it are left empty */
+uniform float particleCount;
+
+/** Simulation time and step length (seconds) */
+uniform float time;
+uniform float delta;
+
+/** Physics controls from the settings panel */
+uniform float gravity;
+uniform float velocityDamping;
+uniform float sphereStrength;
+uniform float sphereDistortion;
+uniform float sphereNoise;
+uniform float spherePulse;
+
+/** Breathing radius of the sphere the particles are held to */
+uniform float sphereRadius;
+
+/** Flocking and noise strengths, varied over time on the CPU */
+uniform float separationDistance;
+uniform float separationStrength;
+uniform float noiseStrength;
+
+/** Index of the hovered particle (-1 if none) */
+uniform float hoveredIndex;
+
+/** Particles with trails are every `trailStep`th below `trailCount` (step 0 = trails off) */
+uniform float trailStep;
+uniform float trailCount;
+
+/** Mouse position in the scene and the reach of its pull on followers */
+uniform vec3 mousePosition;
+uniform float mouseInfluenceRadius;
+
+/** Indices of the particles following the mouse (-1 = unused slot) */
+uniform float followers[MAX_FOLLOWERS];
+
+/** Click attraction points: xyz position, w current strength (0 = unused slot) */
+uniform vec4 attractions[MAX_ATTRACTIONS];
+
+/** Indices of each particle's nearest neighbors, from the CPU spatial grid (-1 = none) */
+uniform sampler2D textureNeighbors;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+vec2 particleUv(float index) {
+  return (vec2(mod(index, resolution.x), floor(index / resolution.x)) + 0.5) / resolution.xy;
+}
+
+float hash(float n) {
+  return fract(sin(n) * 43758.5453);
+}
+
+bool hasTrail(float i) {
+  return trailStep > 0.0 && i < trailCount && mod(i + 0.5, trailStep) < 1.0;
+}
+
+bool isFollower(float i) {
+  for (int k = 0; k < MAX_FOLLOWERS; k++) {
+    if (followers[k] == i) return true;
+  }
+  return false;
+}
+
+// ============================================================================
+// MAIN SHADER LOGIC
+// ============================================================================
+
+void main() {
+  vec2 uv = gl_FragCoord.xy / resolution.xy;
+  float i = floor(gl_FragCoord.y) * resolution.x + floor(gl_FragCoord.x);
+  if (i >= particleCount) {
+    gl_FragColor = vec4(0.0);
+    return;
+  }
+
+  vec3 p = texture2D(texturePosition, uv).xyz;
+  vec3 v = texture2D(textureVelocity, uv).xyz;
+
+  // Individual particle characteristics for varied behavior
+  float speedMultiplier = 0.7 + sin(i * 0.1) * 0.6; // 0.1 to 1.3 speed variation
+  v += vec3(sin(i * 0.2) * 0.02, cos(i * 0.15) * 0.015, sin(i * 0.25) * 0.02) * speedMultiplier;
+
+  bool trailed = hasTrail(i);
+  bool hovered = i == hoveredIndex;
+
+  if (trailed) {
+    // Trailed particles cycle through ascension and return phases over two minutes
+    float cycleProgress = mod(time + i * 10.0, 120.0) / 120.0;
+
+    if (cycleProgress < 0.7) {
+      // Ascension phase with a graceful spiral
+      float heavenDriftStrength = 0.03 * (1.0 + sin(cycleProgress * 6.2831853) * 0.3);
+      float ascensionBoost = sin(time * 0.3 + i * 0.05) * 0.015;
+      v.y += heavenDriftStrength * (1.2 + sin(time * 0.5 + i * 0.1)) + ascensionBoost;
+
+      float spiralRadius = 0.4 + sin(time * 0.2 + i * 0.1) * 0.25;
+      float spiralSpeed = time * 0.6 + i * 0.25;
+      v.x += sin(spiralSpeed) * spiralRadius * 0.015;
+      v.z += cos(spiralSpeed) * spiralRadius * 0.015;
+    } else {
+      // Return phase - gentle return to the sphere, stronger downwards
+      float returnStrength = 0.02 * (cycleProgress - 0.7) / 0.3;
+      float centerDistance = length(p);
+      if (centerDistance > 0.0) v -= p / centerDistance * returnStrength * vec3(1.0, 1.5, 1.0);
+    }
+
+    // Gentle floating motion throughout the cycle
+    v.x += sin(time * 1.1 + i * 0.4) * 0.008;
+    v.z += cos(time * 0.9 + i * 0.6) * 0.008;
+  }
+
+  // Dampen the hovered particle's movement for stability
+  if (hovered) v *= 0.8;
+
+  // Separation from the nearest neighbors, at their current positions
+  vec3 separation = vec3(0.0);
+  float separationCount = 0.0;
+  vec4 neighbors = texture2D(textureNeighbors, uv);
+  for (int k = 0; k < NEIGHBORS; k++) {
+    float j = neighbors[k];
+    if (j < 0.0 || j >= particleCount) continue;
+
+    vec3 offset = texture2D(texturePosition, particleUv(j)).xyz - p;
+    float dist = length(offset);
+    if (dist > 0.0 && dist < separationDistance) {
+      separation -= offset / dist;
+      separationCount += 1.0;
+    }
+  }
+  if (separationCount > 0.0) {
+    v += separation / separationCount * separationStrength * (hovered ? 0.2 : 1.0);
+  }
+
+  // Subtle noise for organic movement
+  v += vec3(sin(time * 0.5 + i * 0.1), cos(time * 0.3 + i * 0.2), sin(time * 0.7 + i * 0.15)) * noiseStrength;
+
+  // Force field: push particles away from the hovered particle
+  if (hoveredIndex >= 0.0 && !hovered) {
+    vec3 away = p - texture2D(texturePosition, particleUv(hoveredIndex)).xyz;
+    float dist = length(away);
+    if (dist > 0.0 && dist < 4.0) {
+      v += away / dist * 0.15 * pow(1.0 - dist / 4.0, 2.0);
+    }
+  }
+
+  v.y -= gravity * delta;
+
+  // Dynamic sphere constraint with distortion
+  float sphereDistance = length(p);
+  if (sphereDistance > 0.0) {
+    float targetDistance = sphereRadius * sphereDistortion;
+
+    if (sphereNoise > 0.0) {
+      // Two layers of noise for highly irregular, organic forms
+      vec3 noise1 = vec3(sin(p.x * 0.08 + time * 0.4), cos(p.y * 0.12 + time * 0.6), sin(p.z * 0.1 + time * 0.8)) * sphereNoise;
+      vec3 noise2 = vec3(
+        sin(p.x * 0.2 + time * 1.2 + i * 0.01),
+        cos(p.y * 0.15 + time * 0.9 + i * 0.02),
+        sin(p.z * 0.18 + time * 1.1 + i * 0.015)
+      ) * sphereNoise * 0.5;
+      targetDistance += (noise1.x + noise1.y + noise1.z) * 3.5 + (noise2.x + noise2.y + noise2.z) * 2.0;
+    }
+
+    if (spherePulse > 0.0) {
+      // Multi-frequency, heart-like pulsing
+      float pulse1 = sin(time * 1.8) * spherePulse;
+      float pulse2 = sin(time * 3.2 + i * 0.05) * spherePulse * 0.6;
+      float pulse3 = cos(time * 0.9 + p.x * 0.1) * spherePulse * 0.4;
+      targetDistance += (pulse1 + pulse2 + pulse3) * 4.0;
+    }
+
+    if (trailed) {
+      // Trailed particles can break free and ascend to heaven
+      targetDistance *= 4.0 * (1.0 + sin(time * 0.3 + i * 0.2) * 0.8);
+      if (p.y > sphereRadius * 2.0) targetDistance = max(targetDistance, abs(p.y) * 1.5);
+    }
+
+    float difference = targetDistance - sphereDistance;
+    float constraintStrength = sphereStrength * (trailed ? 0.1 : 1.0);
+    if (abs(difference) > (trailed ? 3.0 : 0.1)) {
+      v += p / sphereDistance * difference * constraintStrength * delta;
+    }
+  }
+
+  // Mouse followers drift towards the pointer with some randomness
+  if (isFollower(i)) {
+    vec3 toMouse = mousePosition - p;
+    float dist = length(toMouse);
+    if (dist > 0.5 && dist < mouseInfluenceRadius) {
+      vec3 jitter = vec3(hash(i + time), hash(i * 1.3 + time), hash(i * 1.7 + time)) - 0.5;
+      v += toMouse / dist * 0.02 * (1.0 - dist / mouseInfluenceRadius) + jitter * 0.005;
+    }
+  }
+
+  // Click attraction points, inverse square law with offset
+  for (int k = 0; k < MAX_ATTRACTIONS; k++) {
+    vec4 attraction = attractions[k];
+    if (attraction.w == 0.0) continue;
+    vec3 toPoint = attraction.xyz - p;
+    float dist = length(toPoint);
+    if (dist > 0.1 && dist < 10.0) {
+      v += toPoint / dist * attraction.w / (dist * dist + 1.0) * 0.05;
+    }
+  }
+
+  // Velocity damping with individual variation (0.85 to 1.05)
+  v *= (trailed ? 0.98 : velocityDamping) * (0.95 + sin(i * 0.3) * 0.1);
+
+  // Limit velocity for stability with individual variation
+  float maxVelocity = (trailed ? 0.3 : 0.1) * speedMultiplier;
+  float speed = length(v);
+  if (speed > maxVelocity) v *= maxVelocity / speed;
+
+  gl_FragColor = vec4(v, 1.0);
+}
@@ -0,0 +1,24 @@
+/**
+ * @fileoverview Picking Fragment Shader - Writes particle indices as colors
+ *
+ * Used by the offscreen picking pass (see `ParticlePicker.tsx`) with the
+ * vertex shader of the particles being picked, which provides the index and
+ * view depth of each particle. The red channel holds the index plus one, so
+ * zero means no particle; green holds the distance from the camera.
+ *
+ * @author Gaza Memorial Visualization Team
+ * @version 1.0.0
+ */
+
+/** Index of the particle (from the picked material's vertex shader) */
+varying float vParticleIndex;
+
+/** Distance of the particle in front of the camera */
+varying float vViewDepth;
+
+void main() {
+  // Only the round sprite is pickable, not the corners of its square
+  if (length(gl_PointCoord - vec2(0.5)) > 0.5) discard;
+
+  gl_FragColor = vec4(vParticleIndex + 1.0, vViewDepth, 0.0, 1.0);
+}
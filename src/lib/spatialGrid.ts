@@ -0,0 +1,351 @@
+/**
+ * Spatial Grid for Particle Queries
+ *
+ * A uniform grid over particle positions that answers neighborhood queries
+ * without scanning every particle. Space is cut into cubic cells; each cell
+ * lists the particles inside it, and each particle remembers its cell and its
+ * slot in that list, so moving a particle between cells costs O(1).
+ *
+ * The grid keeps its own copy of the positions it was last updated with.
+ * `updateSpatialGrid` refreshes any range of particles, so callers can spread
+ * a full refresh over several frames while positions keep changing; queries
+ * answer from the copy, which is always consistent with the cells.
+ *
+ * Queries:
+ * - `queryRadius` - particles within a distance of a point
+ * - `queryNearest` - the N particles closest to a point
+ * - `queryFrustum` - particles inside a camera frustum
+ * - `queryRay` - the particle nearest the origin of a ray, within a radius of it
+ *
+ * @author Palestine Memorial Project
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import type { Frustum, Vector3Like } from 'three'
+
+// Cell coordinates are packed into one key, 1024 cells per axis around the origin;
+// particles beyond the edge share the outermost cells
+const AXIS_CELLS = 1024
+const AXIS_OFFSET = AXIS_CELLS / 2
+
+/**
+ * Uniform grid over a fixed number of particles
+ *
+ * @interface SpatialGrid
+ * @property {number} cellSize - Side of each cubic cell, in scene units
+ * @property {number} count - Number of particles indexed
+ * @property {Float32Array} positions - Positions the grid was last updated with, `count * 3` long
+ * @property {Map<number, number[]>} cells - Particle indices in each occupied cell, by cell key
+ * @property {Int32Array} particleCells - Cell key of each particle (-1 until first updated)
+ * @property {Int32Array} particleSlots - Position of each particle within its cell's list
+ * @property {number[]} min - Lowest cell coordinates ever occupied, per axis
+ * @property {number[]} max - Highest cell coordinates ever occupied, per axis
+ */
+export interface SpatialGrid {
+  cellSize: number
+  count: number
+  positions: Float32Array
+  cells: Map<number, number[]>
+  particleCells: Int32Array
+  particleSlots: Int32Array
+  min: number[]
+  max: number[]
+}
+
+function cellCoordinate(value: number, cellSize: number): number {
+  return Math.min(AXIS_OFFSET - 1, Math.max(-AXIS_OFFSET, Math.floor(value / cellSize)))
+}
+
+function cellKey(x: number, y: number, z: number): number {
+  return ((x + AXIS_OFFSET) * AXIS_CELLS + (y + AXIS_OFFSET)) * AXIS_CELLS + (z + AXIS_OFFSET)
+}
+
+function distanceSq(grid: SpatialGrid, index: number, x: number, y: number, z: number): number {
+  const dx = grid.positions[index * 3] - x
+  const dy = grid.positions[index * 3 + 1] - y
+  const dz = grid.positions[index * 3 + 2] - z
+  return dx * dx + dy * dy + dz * dz
+}
+
+/**
+ * Creates an empty grid; particles join it on their first update
+ *
+ * @param {number} count - Number of particles to index
+ * @param {number} cellSize - Side of each cell; about the usual query radius works best
+ * @returns {SpatialGrid} Grid with no particles placed
+ */
+export function createSpatialGrid(count: number, cellSize: number): SpatialGrid {
+  return {
+    cellSize,
+    count,
+    positions: new Float32Array(count * 3),
+    cells: new Map(),
+    particleCells: new Int32Array(count).fill(-1),
+    particleSlots: new Int32Array(count),
+    min: [0, 0, 0],
+    max: [0, 0, 0]
+  }
+}
+
+/**
+ * Moves particles `from` to `to` (exclusive) to their current positions
+ *
+ * Only particles that changed cell touch the cell lists, so refreshing a
+ * range whose particles barely moved is little more than a copy.
+ *
+ * @param {SpatialGrid} grid - Grid to update
+ * @param {Float32Array} positions - Current positions, `count * 3` long
+ * @param {number} [from=0] - First particle to refresh
+ * @param {number} [to=grid.count] - Particle after the last to refresh
+ */
+export function updateSpatialGrid(grid: SpatialGrid, positions: Float32Array, from = 0, to = grid.count): void {
+  const { cellSize, cells, particleCells, particleSlots } = grid
+  const end = Math.min(to, grid.count, positions.length / 3)
+
+  for (let i = Math.max(0, from); i < end; i++) {
+    const x = positions[i * 3]
+    const y = positions[i * 3 + 1]
+    const z = positions[i * 3 + 2]
+    grid.positions[i * 3] = x
+    grid.positions[i * 3 + 1] = y
+    grid.positions[i * 3 + 2] = z
+
+    const cx = cellCoordinate(x, cellSize)
+    const cy = cellCoordinate(y, cellSize)
+    const cz = cellCoordinate(z, cellSize)
+    const key = cellKey(cx, cy, cz)
+    const previous = particleCells[i]
+    if (key === previous) continue
+
+    // Swap-remove from the old cell, fixing the slot of the particle moved into the gap
+    if (previous !== -1) {
+      const list = cells.get(previous)!
+      const last = list.pop()!
+      if (last !== i) {
+        list[particleSlots[i]] = last
+        particleSlots[last] = particleSlots[i]
+      }
+      if (list.length === 0) cells.delete(previous)
+    }
+
+    const list = cells.get(key)
+    if (list) {
+      particleSlots[i] = list.length
+      list.push(i)
+    } else {
+      particleSlots[i] = 0
+      cells.set(key, [i])
+    }
+    particleCells[i] = key
+
+    grid.min[0] = Math.min(grid.min[0], cx)
+    grid.min[1] = Math.min(grid.min[1], cy)
+    grid.min[2] = Math.min(grid.min[2], cz)
+    grid.max[0] = Math.max(grid.max[0], cx)
+    grid.max[1] = Math.max(grid.max[1], cy)
+    grid.max[2] = Math.max(grid.max[2], cz)
+  }
+}
+
+/**
+ * Finds the particles within a distance of a point
+ *
+ * @param {SpatialGrid} grid - Grid to search
+ * @param {Vector3Like} center - Point to search around
+ * @param {number} radius - Search distance
+ * @param {number[]} [result=[]] - Array the indices are appended to
+ * @returns {number[]} Indices of the particles found, in no particular order
+ */
+export function queryRadius(grid: SpatialGrid, center: Vector3Like, radius: number, result: number[] = []): number[] {
+  const { cellSize, cells } = grid
+  const radiusSq = radius * radius
+  const z0 = cellCoordinate(center.z - radius, cellSize)
+  const z1 = cellCoordinate(center.z + radius, cellSize)
+  const y0 = cellCoordinate(center.y - radius, cellSize)
+  const y1 = cellCoordinate(center.y + radius, cellSize)
+
+  for (let cx = cellCoordinate(center.x - radius, cellSize); cx <= cellCoordinate(center.x + radius, cellSize); cx++) {
+    for (let cy = y0; cy <= y1; cy++) {
+      for (let cz = z0; cz <= z1; cz++) {
+        const list = cells.get(cellKey(cx, cy, cz))
+        if (!list) continue
+        for (const i of list) {
+          if (distanceSq(grid, i, center.x, center.y, center.z) <= radiusSq) result.push(i)
+        }
+      }
+    }
+  }
+  return result
+}
+
+/**
+ * Finds the particles closest to a point
+ *
+ * Searches outwards one shell of cells at a time and stops as soon as no
+ * unvisited cell can hold anything closer than the Nth particle found.
+ *
+ * @param {SpatialGrid} grid - Grid to search
+ * @param {Vector3Like} center - Point to search around
+ * @param {number} n - Number of particles wanted
+ * @param {number} [maxDistance=Infinity] - Particles farther away are ignored
+ * @param {number} [exclude=-1] - Particle to leave out, usually the one at `center`
+ * @returns {number[]} Up to `n` indices, nearest first
+ */
+export function queryNearest(
+  grid: SpatialGrid,
+  center: Vector3Like,
+  n: number,
+  maxDistance = Infinity,
+  exclude = -1
+): number[] {
+  if (n <= 0) return []
+  const { cellSize, cells, min, max } = grid
+  const cx = cellCoordinate(center.x, cellSize)
+  const cy = cellCoordinate(center.y, cellSize)
+  const cz = cellCoordinate(center.z, cellSize)
+  const maxDistanceSq = maxDistance * maxDistance
+  // Shells beyond the occupied cells or the distance limit hold nothing
+  const lastShell = Math.min(
+    Math.max(cx - min[0], max[0] - cx, cy - min[1], max[1] - cy, cz - min[2], max[2] - cz),
+    Math.ceil(maxDistance / cellSize)
+  )
+
+  const found: Array<{ index: number; distanceSq: number }> = []
+  for (let shell = 0; shell <= lastShell; shell++) {
+    for (let dx = -shell; dx <= shell; dx++) {
+      for (let dy = -shell; dy <= shell; dy++) {
+        for (let dz = -shell; dz <= shell; dz++) {
+          // Only the surface of the shell; its inside was visited before
+          if (Math.max(Math.abs(dx), Math.abs(dy), Math.abs(dz)) !== shell) continue
+          const list = cells.get(cellKey(cx + dx, cy + dy, cz + dz))
+          if (!list) continue
+          for (const i of list) {
+            if (i === exclude) continue
+            const d = distanceSq(grid, i, center.x, center.y, center.z)
+            if (d <= maxDistanceSq) found.push({ index: i, distanceSq: d })
+          }
+        }
+      }
+    }
+
+    // Every unvisited cell is at least `shell` cells away from the center's cell
+    if (found.length >= n) {
+      found.sort((a, b) => a.distanceSq - b.distanceSq)
+      found.length = n
+      const covered = shell * cellSize
+      if (found[n - 1].distanceSq <= covered * covered) break
+    }
+  }
+
+  found.sort((a, b) => a.distanceSq - b.distanceSq)
+  return found.slice(0, n).map(entry => entry.index)
+}
+
+/**
+ * Finds the particles inside a camera frustum
+ *
+ * Cells entirely inside the frustum are taken whole; only particles in cells
+ * crossing its planes are tested one by one.
+ *
+ * @param {SpatialGrid} grid - Grid to search
+ * @param {Frustum} frustum - Frustum in the grid's coordinate space
+ * @param {number[]} [result=[]] - Array the indices are appended to
+ * @returns {number[]} Indices of the particles inside, in no particular order
+ */
+export function queryFrustum(grid: SpatialGrid, frustum: Frustum, result: number[] = []): number[] {
+  const { cellSize, cells, positions } = grid
+
+  cells.forEach((list, key) => {
+    const cz = (key % AXIS_CELLS) - AXIS_OFFSET
+    const cy = (Math.floor(key / AXIS_CELLS) % AXIS_CELLS) - AXIS_OFFSET
+    const cx = Math.floor(key / (AXIS_CELLS * AXIS_CELLS)) - AXIS_OFFSET
+    let inside = true
+
+    for (const plane of frustum.planes) {
+      const { x: nx, y: ny, z: nz } = plane.normal
+      // Corner of the cell farthest along the normal, then the nearest
+      const far = nx * (nx >= 0 ? cx + 1 : cx) * cellSize + ny * (ny >= 0 ? cy + 1 : cy) * cellSize + nz * (nz >= 0 ? cz + 1 : cz) * cellSize + plane.constant
+      if (far < 0) return
+      const near = nx * (nx >= 0 ? cx : cx + 1) * cellSize + ny * (ny >= 0 ? cy : cy + 1) * cellSize + nz * (nz >= 0 ? cz : cz + 1) * cellSize + plane.constant
+      if (near < 0) inside = false
+    }
+
+    if (inside) {
+      result.push(...list)
+      return
+    }
+    for (const i of list) {
+      const x = positions[i * 3]
+      const y = positions[i * 3 + 1]
+      const z = positions[i * 3 + 2]
+      if (frustum.planes.every(({ normal, constant }) => normal.x * x + normal.y * y + normal.z * z + constant >= 0)) {
+        result.push(i)
+      }
+    }
+  })
+  return result
+}
+
+/**
+ * Finds the particle nearest the origin of a ray among those close to it
+ *
+ * @param {SpatialGrid} grid - Grid to search
+ * @param {Vector3Like} origin - Start of the ray
+ * @param {Vector3Like} direction - Normalized direction of the ray
+ * @param {number} maxDistance - Length of the ray
+ * @param {number} radius - Distance from the ray within which particles count
+ * @returns {number | null} Index of the particle, or null if none is close to the ray
+ */
+export function queryRay(
+  grid: SpatialGrid,
+  origin: Vector3Like,
+  direction: Vector3Like,
+  maxDistance: number,
+  radius: number
+): number | null {
+  const { cellSize, cells, min, max } = grid
+  const visited = new Set<number>()
+  const reach = Math.ceil(radius / cellSize)
+  let best: number | null = null
+  let bestAlong = Infinity
+
+  // Nothing lies beyond the farthest corner of the occupied cells
+  let farthest = 0
+  for (const x of [min[0], max[0] + 1]) {
+    for (const y of [min[1], max[1] + 1]) {
+      for (const z of [min[2], max[2] + 1]) {
+        farthest = Math.max(farthest, Math.hypot(x * cellSize - origin.x, y * cellSize - origin.y, z * cellSize - origin.z))
+      }
+    }
+  }
+  const length = Math.min(maxDistance, farthest + radius)
+
+  // Half-cell steps along the ray, checking the cells within `radius` of each step once
+  for (let t = 0; t <= length && t <= bestAlong + radius; t += cellSize / 2) {
+    const cx = cellCoordinate(origin.x + direction.x * t, cellSize)
+    const cy = cellCoordinate(origin.y + direction.y * t, cellSize)
+    const cz = cellCoordinate(origin.z + direction.z * t, cellSize)
+    for (let dx = -reach; dx <= reach; dx++) {
+      for (let dy = -reach; dy <= reach; dy++) {
+        for (let dz = -reach; dz <= reach; dz++) {
+          const key = cellKey(cx + dx, cy + dy, cz + dz)
+          if (visited.has(key)) continue
+          visited.add(key)
+          for (const i of cells.get(key) ?? []) {
+            const px = grid.positions[i * 3] - origin.x
+            const py = grid.positions[i * 3 + 1] - origin.y
+            const pz = grid.positions[i * 3 + 2] - origin.z
+            const along = px * direction.x + py * direction.y + pz * direction.z
+            if (along < 0 || along > maxDistance || along >= bestAlong) continue
+            if (px * px + py * py + pz * pz - along * along <= radius * radius) {
+              best = i
+              bestAlong = along
+            }
+          }
+        }
+      }
+    }
+  }
+  return best
+}
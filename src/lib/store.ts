@@ -31,14 +31,9 @@
  */
 
 import { create } from 'zustand'
+import type { Governorate } from './casualtyFields'
 import { Casualty } from './dataLoader'
-
-/**
- * Available visualization modes for particle layout
- *
- * @typedef {'cloud' | 'sphere' | 'plane' | 'flock' | 'stats'} VisualizationMode
- */
-type VisualizationMode = 'cloud' | 'sphere' | 'plane' | 'flock' | 'stats'
+import { StatsGrouping, VisualizationMode, isFormationMode } from './layouts'
 
 /**
  * Data filtering configuration for casualty visualization
@@ -52,6 +47,7 @@ type VisualizationMode = 'cloud' | 'sphere' | 'plane' | 'flock' | 'stats'
  * @property {'all' | string} source - Data source filter (all = no filter)
  * @property {string} nameSearch - Text search in English/Arabic names (empty = no filter)
  * @property {'all' | 'civilian' | 'press' | 'medical' | 'civil_defense'} type - Casualty type filter
+ * @property {'all' | Governorate} location - Governorate of death filter (all = no filter)
  */
 export type Filters = {
   gender: 'all' | 'male' | 'female'
@@ -59,6 +55,7 @@ export type Filters = {
   source: 'all' | string
   nameSearch: string
   type: 'all' | 'civilian' | 'press' | 'medical' | 'civil_defense'
+  location: 'all' | Governorate
 }
 
 /**
@@ -97,6 +94,14 @@ interface AppState {
   mode: VisualizationMode
   /** Update visualization mode */
   setMode: (mode: VisualizationMode) => void
+  /** Dimension the 'stats' mode groups people by */
+  statsGrouping: StatsGrouping
+  /** Update the 'stats' mode grouping */
+  setStatsGrouping: (grouping: StatsGrouping) => void
+  /** ISO date the 'timeline' mode is scrubbed to; null lights every date */
+  timelineDate: string | null
+  /** Update the 'timeline' mode date */
+  setTimelineDate: (date: string | null) => void
 
   // Data Filtering State
   /** Active data filters configuration */
@@ -176,7 +181,8 @@ interface AppState {
  * - Computed properties (like isFiltered) are recalculated on each access
  *
  * Key Behaviors:
- * - Filter changes automatically switch to 'plane' mode for better filtered visualization
+ * - Filter changes automatically switch to 'plane' mode for better filtered visualization,
+ *   except in formation modes such as 'stats', which show the filtered people in place
  * - Audio playback state is tightly coordinated with visual focus
  * - Camera targets enable smooth transitions between memorial subjects
  * - Playback queue shuffling ensures varied memorial experiences
@@ -203,6 +209,10 @@ export const useStore = create<AppState>((set, get) => ({
   // Visualization State
   mode: 'cloud',
   setMode: (mode) => set({ mode }),
+  statsGrouping: 'age_band',
+  setStatsGrouping: (grouping) => set({ statsGrouping: grouping }),
+  timelineDate: null,
+  setTimelineDate: (date) => set({ timelineDate: date }),
 
   // Data Filtering State
   filters: {
@@ -210,12 +220,13 @@ export const useStore = create<AppState>((set, get) => ({
     ageRange: [0, 120],
     source: 'all',
     nameSearch: '',
-    type: 'all'
+    type: 'all',
+    location: 'all'
   },
   setFilters: (newFilters) => {
     set((state) => ({ filters: { ...state.filters, ...newFilters } }))
     const isFiltered = get().isFiltered()
-    if (isFiltered) {
+    if (isFiltered && !isFormationMode(get().mode)) {
       set({ mode: 'plane' }) // Switch to plane mode when filters are active
     }
   },
@@ -226,7 +237,8 @@ export const useStore = create<AppState>((set, get) => ({
            filters.ageRange[0] !== 0 ||
            filters.ageRange[1] !== 120 ||
            filters.nameSearch.trim() !== '' ||
-           filters.type !== 'all'
+           filters.type !== 'all' ||
+           filters.location !== 'all'
   },
   hovered: null,
   setHovered: (id) => set({ hovered: id }),
@@ -0,0 +1,253 @@
+/**
+ * Tech for Palestine Data Sources
+ *
+ * The memorial's built-in sources, all published by Tech for Palestine and
+ * registered in `dataSources.ts`. Endpoints are relative to the configured
+ * upstream base URLs (see `upstream.ts`).
+ *
+ * Data Sources:
+ * - Killed in Gaza (named individuals)
+ * - Press killed in Gaza
+ * - Gaza daily casualties
+ * - West Bank daily casualties
+ * - Infrastructure damage
+ * - Summary
+ *
+ * @author Palestine Memorial Project
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import { getAgeBand } from './casualtyFields'
+import type { DataSource, DataSourceAttribution } from './dataSources'
+import type { DailyCasualties, InfrastructureDamage, WestBankCasualties } from './dataLoader'
+import { fetchUpstream } from './upstream'
+import {
+  DAILY_CASUALTIES_SCHEMA,
+  INFRASTRUCTURE_DAMAGE_SCHEMA,
+  RAW_CASUALTY_SCHEMA,
+  RAW_PRESS_CASUALTY_SCHEMA,
+  WEST_BANK_CASUALTIES_SCHEMA
+} from './validation'
+
+/**
+ * Raw casualty data structure from Tech for Palestine API
+ *
+ * @interface RawCasualty
+ * @property {string} [en_name] - English name
+ * @property {string} name - Arabic name
+ * @property {number} [age] - Age (0 if unknown)
+ * @property {string} [dob] - Date of birth
+ * @property {'m' | 'f'} sex - Gender code
+ * @property {string} id - Unique identifier
+ * @property {string} [source] - Source code (needs decoding)
+ */
+interface RawCasualty {
+  en_name?: string
+  name: string
+  age?: number
+  dob?: string
+  sex: 'm' | 'f'
+  id: string
+  source?: string
+}
+
+/**
+ * Raw journalist record from the Press Killed in Gaza dataset
+ *
+ * @interface RawPressCasualty
+ * @property {string} name - Arabic name
+ * @property {string} [name_en] - English name
+ * @property {string} [notes] - Circumstances of death
+ */
+interface RawPressCasualty {
+  name: string
+  name_en?: string
+  notes?: string
+}
+
+/**
+ * Source codes used in the Killed in Gaza dataset, by lower-case code
+ *
+ * @example
+ * SOURCE_CODES['h'] // 'Palestinian Ministry of Health'
+ * SOURCE_CODES['moh'] // 'Palestinian Ministry of Health'
+ */
+const SOURCE_CODES: Record<string, string> = {
+  h: 'Palestinian Ministry of Health',
+  moh: 'Palestinian Ministry of Health',
+  c: 'Community Public Submission',
+  public: 'Community Public Submission',
+  j: 'Judicial or Parliamentary House Committee',
+  judicial: 'Judicial or Parliamentary House Committee',
+  committee: 'Judicial or Parliamentary House Committee',
+  u: 'Unknown Source'
+}
+
+/**
+ * Decodes source codes from raw data into human-readable source descriptions
+ *
+ * @param {string} sourceCode - Single character or word source code from raw data
+ * @returns {string} Human-readable source description
+ */
+function decodeSource(sourceCode: string): string {
+  const source = SOURCE_CODES[sourceCode.toLowerCase()]
+  if (!source) console.log('Unknown source code:', sourceCode)
+  return source || 'Unknown Source'
+}
+
+const TECH_FOR_PALESTINE: Omit<DataSourceAttribution, 'description'> = {
+  publisher: 'Tech for Palestine',
+  url: 'https://data.techforpalestine.org',
+  license: 'Free to use with attribution to Tech for Palestine'
+}
+
+const fetchEndpoint = (endpoint: string) => (timeout: number) => fetchUpstream(endpoint, timeout)
+const parseJSON = (response: Response): Promise<unknown> => response.json()
+
+export const KILLED_IN_GAZA_SOURCE: DataSource<'casualties', RawCasualty> = {
+  id: 'killed-in-gaza',
+  name: 'Killed in Gaza',
+  kind: 'casualties',
+  priority: 10,
+  timeout: 15000,
+  fallbackFile: 'killed-in-gaza.csv',
+  essential: true,
+  schema: RAW_CASUALTY_SCHEMA,
+  attribution: {
+    ...TECH_FOR_PALESTINE,
+    description: 'Named individuals killed in Gaza, compiled from Palestinian Ministry of Health lists, community submissions and judicial or parliamentary committee records'
+  },
+  fetch: fetchEndpoint('/api/v2/killed-in-gaza.min.json'),
+  parse: parseJSON,
+  normalize: (item, _index, origin) => {
+    const source = decodeSource(item.source || 'u')
+    const age = item.age || 0
+    // The list records neither date nor governorate of death
+    return {
+      id: item.id,
+      name_en: item.en_name || 'Unknown',
+      name_ar: item.name,
+      age,
+      age_band: getAgeBand(age),
+      gender: item.sex === 'm' ? 'male' : 'female',
+      date_of_birth: item.dob || '',
+      source,
+      sources: [source],
+      data_source: origin === 'csv' ? 'Tech for Palestine - Killed in Gaza (CSV)' : 'Tech for Palestine - Killed in Gaza',
+      region: 'Gaza Strip',
+      type: 'civilian'
+    }
+  }
+}
+
+export const PRESS_KILLED_SOURCE: DataSource<'casualties', RawPressCasualty> = {
+  id: 'press_killed_in_gaza',
+  name: 'Press Killed in Gaza',
+  kind: 'casualties',
+  priority: 20,
+  timeout: 10000,
+  fallbackFile: 'press_killed_in_gaza.csv',
+  schema: RAW_PRESS_CASUALTY_SCHEMA,
+  attribution: {
+    ...TECH_FOR_PALESTINE,
+    description: 'Journalists and media workers killed in Gaza, as tracked by the Committee to Protect Journalists'
+  },
+  fetch: fetchEndpoint('/api/v2/press_killed_in_gaza.json'),
+  parse: parseJSON,
+  normalize: (item, index, origin) => ({
+    id: `press_${index}_${(item.name_en || item.name).replace(/\s+/g, '_')}`,
+    name_en: item.name_en || item.name,
+    name_ar: item.name,
+    age: 0, // Age not provided in press data
+    age_band: getAgeBand(0),
+    gender: 'male', // Default since gender not specified in API
+    date_of_birth: '',
+    source: 'Committee to Protect Journalists',
+    sources: ['Committee to Protect Journalists'],
+    data_source: origin === 'csv' ? 'Tech for Palestine - Press Killed (CSV)' : 'Tech for Palestine - Press Killed',
+    region: 'Gaza Strip',
+    type: 'press'
+  })
+}
+
+export const GAZA_DAILY_SOURCE: DataSource<'gazaDaily', DailyCasualties> = {
+  id: 'casualties_daily',
+  name: 'Gaza Daily Casualties',
+  kind: 'gazaDaily',
+  priority: 10,
+  timeout: 10000,
+  fallbackFile: 'casualties_daily.csv',
+  essential: true,
+  schema: DAILY_CASUALTIES_SCHEMA,
+  attribution: {
+    ...TECH_FOR_PALESTINE,
+    description: 'Cumulative daily casualty figures for Gaza from Ministry of Health and Government Media Office reports'
+  },
+  fetch: fetchEndpoint('/api/v2/casualties_daily.min.json'),
+  parse: parseJSON,
+  normalize: item => item
+}
+
+export const WEST_BANK_DAILY_SOURCE: DataSource<'westBankDaily', WestBankCasualties> = {
+  id: 'west_bank_daily',
+  name: 'West Bank Daily Casualties',
+  kind: 'westBankDaily',
+  priority: 10,
+  timeout: 10000,
+  fallbackFile: 'west_bank_daily.csv',
+  schema: WEST_BANK_CASUALTIES_SCHEMA,
+  attribution: {
+    ...TECH_FOR_PALESTINE,
+    description: 'Cumulative daily casualty figures for the West Bank'
+  },
+  fetch: fetchEndpoint('/api/v2/west_bank_daily.min.json'),
+  parse: parseJSON,
+  normalize: item => item
+}
+
+export const INFRASTRUCTURE_DAMAGE_SOURCE: DataSource<'infrastructure', InfrastructureDamage> = {
+  id: 'infrastructure-damaged',
+  name: 'Infrastructure Damage',
+  kind: 'infrastructure',
+  priority: 10,
+  timeout: 15000,
+  fallbackFile: 'infrastructure-damaged.csv',
+  schema: INFRASTRUCTURE_DAMAGE_SCHEMA,
+  attribution: {
+    ...TECH_FOR_PALESTINE,
+    description: 'Schools, places of worship, homes and public buildings damaged or destroyed in Gaza'
+  },
+  fetch: fetchEndpoint('/api/v3/infrastructure-damaged.json'),
+  parse: parseJSON,
+  normalize: item => item
+}
+
+export const SUMMARY_SOURCE: DataSource<'summary', Record<string, unknown>> = {
+  id: 'summary',
+  name: 'Summary',
+  kind: 'summary',
+  priority: 10,
+  timeout: 8000,
+  schema: {},
+  attribution: {
+    ...TECH_FOR_PALESTINE,
+    description: 'Latest headline figures for Gaza and the West Bank'
+  },
+  fetch: fetchEndpoint('/api/v2/summary.min.json'),
+  // The summary is a single object; validation expects a list of records
+  parse: async response => [await response.json()],
+  normalize: item => item
+}
+
+/**
+ * Every Tech for Palestine source, registered by default
+ */
+export const TECH_FOR_PALESTINE_SOURCES: DataSource[] = [
+  KILLED_IN_GAZA_SOURCE,
+  PRESS_KILLED_SOURCE,
+  GAZA_DAILY_SOURCE,
+  WEST_BANK_DAILY_SOURCE,
+  INFRASTRUCTURE_DAMAGE_SOURCE,
+  SUMMARY_SOURCE
+]
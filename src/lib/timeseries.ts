@@ -0,0 +1,275 @@
+/**
+ * Gaza Memorial Time Series
+ *
+ * Turns the daily Gaza, West Bank and infrastructure reports into typed,
+ * gap-free daily series for charts, the memorial statistics and partners
+ * consuming `/api/memorial/timeseries`.
+ *
+ * Series:
+ * Each series tracks one cumulative figure, e.g. `gaza.killed` or
+ * `infrastructure.homes_destroyed` (see `TIME_SERIES_DEFINITIONS`). Every
+ * point carries the cumulative value, the change since the previous day and
+ * the 7-day trailing average of that change.
+ *
+ * Official and Extended Figures:
+ * Upstream publishes official figures (e.g. `killed_cum`) only on days with a
+ * report, and extended figures (`ext_killed_cum`) that fill the days between.
+ * A point uses the extended figure when present, matching the memorial
+ * totals, and its `origin` records whether the day had an official report.
+ *
+ * Gap Filling:
+ * Days with neither figure, including days missing from the reports
+ * altogether, are linearly interpolated between their neighbours and marked
+ * `filled`. A series starts at its first reported value and ends at its last.
+ *
+ * Deltas follow the cumulative figures as published, so a downward
+ * correction shows as a negative delta.
+ *
+ * @author Palestine Memorial Project
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import type { Region } from './casualtyFields'
+import type { DailyCasualties, DataInfo, InfrastructureDamage, WestBankCasualties } from './dataLoader'
+
+/**
+ * Days in the trailing rolling average
+ */
+export const ROLLING_AVERAGE_DAYS = 7
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Reports a series can be built from
+ */
+export type TimeSeriesInput = Pick<DataInfo, 'daily' | 'westBank' | 'infrastructure'>
+
+/**
+ * Official and extended readings of one report
+ */
+interface Reading {
+  official?: number
+  extended?: number
+}
+
+/**
+ * How a series is read from its reports
+ *
+ * @interface TimeSeriesDefinition
+ * @property {string} label - Human-readable name
+ * @property {Region} region - Territory the series covers
+ * @property {keyof TimeSeriesInput} dataset - Reports the series is read from
+ */
+interface TimeSeriesDefinition<D extends keyof TimeSeriesInput = keyof TimeSeriesInput> {
+  label: string
+  region: Region
+  dataset: D
+  /** Reads the figures of one report */
+  read(report: TimeSeriesInput[D][number]): Reading
+}
+
+const gaza = (label: string, read: (report: DailyCasualties) => Reading): TimeSeriesDefinition<'daily'> =>
+  ({ label, region: 'Gaza Strip', dataset: 'daily', read })
+const westBank = (label: string, read: (report: WestBankCasualties) => Reading): TimeSeriesDefinition<'westBank'> =>
+  ({ label, region: 'West Bank', dataset: 'westBank', read })
+const infrastructure = (label: string, read: (report: InfrastructureDamage) => Reading): TimeSeriesDefinition<'infrastructure'> =>
+  ({ label, region: 'Gaza Strip', dataset: 'infrastructure', read })
+
+/**
+ * Every available series, by id
+ */
+export const TIME_SERIES_DEFINITIONS = {
+  'gaza.killed': gaza('Killed in Gaza', report => ({ official: report.killed_cum, extended: report.ext_killed_cum })),
+  'gaza.children_killed': gaza('Children killed in Gaza', report => ({ official: report.killed_children_cum, extended: report.ext_killed_children_cum })),
+  'gaza.women_killed': gaza('Women killed in Gaza', report => ({ official: report.killed_women_cum, extended: report.ext_killed_women_cum })),
+  'gaza.injured': gaza('Injured in Gaza', report => ({ official: report.injured_cum, extended: report.ext_injured_cum })),
+  'gaza.press_killed': gaza('Journalists killed in Gaza', report => ({ official: report.press_killed_cum, extended: report.ext_press_killed_cum })),
+  'gaza.medical_killed': gaza('Medical personnel killed in Gaza', report => ({ official: report.med_killed_cum, extended: report.ext_med_killed_cum })),
+  'gaza.civil_defense_killed': gaza('Civil defense killed in Gaza', report => ({ official: report.civdef_killed_cum, extended: report.ext_civdef_killed_cum })),
+  'west_bank.killed': westBank('Killed in the West Bank', report => ({ official: report.killed_cum, extended: report.ext_killed_cum })),
+  'west_bank.children_killed': westBank('Children killed in the West Bank', report => ({ official: report.killed_children_cum })),
+  'west_bank.injured': westBank('Injured in the West Bank', report => ({ official: report.injured_cum, extended: report.ext_injured_cum })),
+  'west_bank.settler_attacks': westBank('Settler attacks in the West Bank', report => ({ official: report.settler_attacks_cum })),
+  'infrastructure.schools_destroyed': infrastructure('Schools destroyed', report => ({ official: report.educational_buildings?.destroyed, extended: report.educational_buildings?.ext_destroyed })),
+  'infrastructure.schools_damaged': infrastructure('Schools damaged', report => ({ official: report.educational_buildings?.damaged, extended: report.educational_buildings?.ext_damaged })),
+  'infrastructure.mosques_destroyed': infrastructure('Mosques destroyed', report => ({ official: report.places_of_worship?.mosques_destroyed, extended: report.places_of_worship?.ext_mosques_destroyed })),
+  'infrastructure.mosques_damaged': infrastructure('Mosques damaged', report => ({ official: report.places_of_worship?.mosques_damaged, extended: report.places_of_worship?.ext_mosques_damaged })),
+  'infrastructure.churches_destroyed': infrastructure('Churches destroyed', report => ({ official: report.places_of_worship?.churches_destroyed, extended: report.places_of_worship?.ext_churches_destroyed })),
+  'infrastructure.homes_destroyed': infrastructure('Homes destroyed', report => ({ official: report.residential?.destroyed, extended: report.residential?.ext_destroyed })),
+  'infrastructure.government_buildings_destroyed': infrastructure('Government buildings destroyed', report => ({ official: report.civic_buildings?.destroyed, extended: report.civic_buildings?.ext_destroyed }))
+} satisfies Record<string, TimeSeriesDefinition<'daily'> | TimeSeriesDefinition<'westBank'> | TimeSeriesDefinition<'infrastructure'>>
+
+/**
+ * Identifier of an available series, e.g. `gaza.killed`
+ */
+export type TimeSeriesId = keyof typeof TIME_SERIES_DEFINITIONS
+
+/**
+ * Every series id, in catalogue order
+ */
+export const TIME_SERIES_IDS = Object.keys(TIME_SERIES_DEFINITIONS) as TimeSeriesId[]
+
+/**
+ * Where a point's value comes from
+ *
+ * - `reported`: an official figure was published that day
+ * - `extended`: only the extended figure was published
+ * - `filled`: interpolated between neighbouring days
+ */
+export type TimeSeriesOrigin = 'reported' | 'extended' | 'filled'
+
+/**
+ * One day of a series
+ *
+ * @interface TimeSeriesPoint
+ * @property {string} date - ISO date (`YYYY-MM-DD`)
+ * @property {number} cumulative - Cumulative value at the end of the day
+ * @property {number} delta - Change since the previous day (the first day's cumulative value)
+ * @property {number} average - Mean `delta` over the trailing `ROLLING_AVERAGE_DAYS` days, to one decimal
+ * @property {TimeSeriesOrigin} origin - Where `cumulative` comes from
+ */
+export interface TimeSeriesPoint {
+  date: string
+  cumulative: number
+  delta: number
+  average: number
+  origin: TimeSeriesOrigin
+}
+
+/**
+ * A daily series
+ *
+ * @interface TimeSeries
+ * @property {TimeSeriesId} id - Series id
+ * @property {string} label - Human-readable name
+ * @property {Region} region - Territory the series covers
+ * @property {TimeSeriesPoint[]} points - Consecutive days, oldest first
+ */
+export interface TimeSeries {
+  id: TimeSeriesId
+  label: string
+  region: Region
+  points: TimeSeriesPoint[]
+}
+
+/**
+ * Checks whether a string names an available series
+ *
+ * @param {string} value - Candidate id, e.g. from a query string
+ * @returns {boolean} True for a known series id
+ */
+export function isTimeSeriesId(value: string): value is TimeSeriesId {
+  return Object.prototype.hasOwnProperty.call(TIME_SERIES_DEFINITIONS, value)
+}
+
+const toDay = (date: string) => Math.floor(Date.parse(`${date.slice(0, 10)}T00:00:00Z`) / DAY_MS)
+const fromDay = (day: number) => new Date(day * DAY_MS).toISOString().slice(0, 10)
+
+/**
+ * Builds a gap-free daily series from the reports
+ *
+ * @param {TimeSeriesId} id - Series to build
+ * @param {TimeSeriesInput} data - Daily reports, in any order
+ * @returns {TimeSeries} The series; without points when no report carries its figure
+ *
+ * @example
+ * const killed = buildTimeSeries('gaza.killed', dataInfo)
+ * const today = killed.points[killed.points.length - 1]
+ * console.log(`${today.delta} killed on ${today.date}`)
+ */
+export function buildTimeSeries(id: TimeSeriesId, data: TimeSeriesInput): TimeSeries {
+  const definition: TimeSeriesDefinition = TIME_SERIES_DEFINITIONS[id]
+  const reports = data[definition.dataset] as Array<TimeSeriesInput[keyof TimeSeriesInput][number]>
+
+  // Latest reading of each day that has one
+  const readings = new Map<number, { value: number; origin: TimeSeriesOrigin }>()
+  for (const report of reports) {
+    const day = toDay(report.report_date)
+    if (Number.isNaN(day)) continue
+    const { official, extended } = definition.read(report)
+    const value = extended ?? official
+    if (value === undefined || !Number.isFinite(value)) continue
+    readings.set(day, { value, origin: official !== undefined ? 'reported' : 'extended' })
+  }
+
+  const days = Array.from(readings.keys()).sort((a, b) => a - b)
+  const points: TimeSeriesPoint[] = []
+  const window: number[] = []
+  let windowSum = 0
+
+  days.forEach((day, index) => {
+    const reading = readings.get(day)!
+    const previousDay = days[index - 1]
+    const previous = previousDay === undefined ? null : readings.get(previousDay)!
+
+    // Interpolate the days since the previous reading, then add this one
+    const span = previousDay === undefined ? 1 : day - previousDay
+    for (let step = 1; step <= span; step++) {
+      const cumulative = step === span || !previous
+        ? reading.value
+        : Math.round(previous.value + ((reading.value - previous.value) * step) / span)
+      const delta = cumulative - (points.length > 0 ? points[points.length - 1].cumulative : 0)
+
+      window.push(delta)
+      windowSum += delta
+      if (window.length > ROLLING_AVERAGE_DAYS) windowSum -= window.shift()!
+
+      points.push({
+        date: fromDay(day - span + step),
+        cumulative,
+        delta,
+        average: Math.round((windowSum / window.length) * 10) / 10,
+        origin: step === span ? reading.origin : 'filled'
+      })
+    }
+  })
+
+  return { id, label: definition.label, region: definition.region, points }
+}
+
+/**
+ * Restricts a series to a date range
+ *
+ * Deltas and averages keep the values computed over the whole series.
+ *
+ * @param {TimeSeries} series - Series to restrict
+ * @param {string} [from] - First ISO date to keep (inclusive)
+ * @param {string} [to] - Last ISO date to keep (inclusive)
+ * @returns {TimeSeries} The series with only the points in range
+ */
+export function sliceTimeSeries(series: TimeSeries, from?: string, to?: string): TimeSeries {
+  return {
+    ...series,
+    points: series.points.filter(point => (!from || point.date >= from) && (!to || point.date <= to))
+  }
+}
+
+/**
+ * Builds several series, optionally restricted to a date range
+ *
+ * @param {TimeSeriesInput} data - Daily reports
+ * @param {TimeSeriesId[]} [ids] - Series to build (all by default)
+ * @param {{ from?: string; to?: string }} [range] - Inclusive ISO date range
+ * @returns {TimeSeries[]} The series, in the order requested
+ *
+ * @example
+ * const [killed, injured] = getTimeSeries(dataInfo, ['gaza.killed', 'gaza.injured'], { from: '2024-01-01' })
+ */
+export function getTimeSeries(
+  data: TimeSeriesInput,
+  ids: TimeSeriesId[] = TIME_SERIES_IDS,
+  range: { from?: string; to?: string } = {}
+): TimeSeries[] {
+  return ids.map(id => sliceTimeSeries(buildTimeSeries(id, data), range.from, range.to))
+}
+
+/**
+ * Returns the latest cumulative value of a series
+ *
+ * @param {TimeSeries} series - Series to read
+ * @returns {number} Last cumulative value, 0 for an empty series
+ */
+export function latestValue(series: TimeSeries): number {
+  return series.points.length > 0 ? series.points[series.points.length - 1].cumulative : 0
+}
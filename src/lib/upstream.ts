@@ -0,0 +1,90 @@
+/**
+ * Gaza Memorial Upstream Access
+ *
+ * Fetches upstream data APIs with a timeout and a configurable backup, for the
+ * data sources registered in `dataSources.ts` and the fallback refresh script.
+ *
+ * Upstream Configuration:
+ * - `NEXT_PUBLIC_DATA_SOURCE_PRIMARY` - base URL tried first (defaults to Tech for Palestine)
+ * - `NEXT_PUBLIC_DATA_SOURCE_BACKUP` - optional base URL tried when the primary fails
+ *
+ * Either variable can point at a local mock server, which keeps tests and
+ * offline development independent of the live APIs.
+ *
+ * @author Palestine Memorial Project
+ * @version 1.0.0
+ * @since 2024
+ */
+
+/**
+ * Default upstream used when `NEXT_PUBLIC_DATA_SOURCE_PRIMARY` is not set
+ */
+const DEFAULT_PRIMARY_SOURCE = 'https://data.techforpalestine.org'
+
+/**
+ * Resolves the ordered list of upstream base URLs from the environment
+ *
+ * @returns {string[]} Base URLs without trailing slashes, primary first
+ */
+export function getUpstreamBaseUrls(): string[] {
+  const primary = process.env.NEXT_PUBLIC_DATA_SOURCE_PRIMARY || DEFAULT_PRIMARY_SOURCE
+  const backup = process.env.NEXT_PUBLIC_DATA_SOURCE_BACKUP || ''
+
+  return [primary, backup]
+    .map(url => url.trim().replace(/\/+$/, ''))
+    .filter((url, index, urls) => url !== '' && urls.indexOf(url) === index)
+}
+
+/**
+ * Fetch utility with timeout protection
+ *
+ * Prevents API requests from hanging indefinitely by aborting them through an
+ * AbortController when they take longer than the specified timeout. The timer
+ * is always cleared once the request settles.
+ *
+ * @param url - The URL to fetch from
+ * @param timeout - Timeout in milliseconds (default: 10000ms = 10 seconds)
+ * @returns Promise that resolves to the fetch Response or rejects on timeout
+ * @throws Error with descriptive message if request times out
+ */
+export async function fetchWithTimeout(url: string, timeout = 10000): Promise<Response> {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), timeout)
+
+  try {
+    return await fetch(url, { cache: 'no-store', signal: controller.signal })
+  } catch (error) {
+    if (controller.signal.aborted) throw new Error(`Request timeout for ${url}`)
+    throw error
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * Fetches an upstream endpoint, trying each configured base URL in turn
+ *
+ * The primary source is always tried first; the backup is only contacted when
+ * the primary times out, errors or answers with a non-OK status.
+ *
+ * @param endpoint - Endpoint path relative to the base URL
+ * @param timeout - Per-attempt timeout in milliseconds
+ * @returns Promise resolving to the first successful response
+ * @throws Error describing the last failure when every base URL fails
+ */
+export async function fetchUpstream(endpoint: string, timeout: number): Promise<Response> {
+  let lastError: unknown = new Error(`No upstream configured for ${endpoint}`)
+
+  for (const baseUrl of getUpstreamBaseUrls()) {
+    try {
+      const response = await fetchWithTimeout(`${baseUrl}${endpoint}`, timeout)
+      if (response.ok) return response
+      lastError = new Error(`${baseUrl}${endpoint} responded ${response.status} ${response.statusText}`)
+    } catch (error) {
+      lastError = error
+    }
+    console.warn(`Upstream ${baseUrl} failed for ${endpoint}:`, lastError)
+  }
+
+  throw lastError
+}
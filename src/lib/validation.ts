@@ -0,0 +1,401 @@
+/**
+ * Gaza Memorial Dataset Validation
+ *
+ * Runtime schema validation for every upstream dataset. Upstream responses are
+ * untyped JSON (or CSV fallbacks), so each record is checked against a declared
+ * schema before it reaches the memorial. Malformed rows are quarantined rather
+ * than silently coerced, and every source produces a measurable report.
+ *
+ * Failure Modes Detected:
+ * - Missing required fields (e.g. a casualty without an id)
+ * - Wrong value types (e.g. a numeric total delivered as text)
+ * - Values outside an allowed set (e.g. an unknown `sex` code)
+ * - Expected fields absent from every record, which is how an upstream field
+ *   rename shows up; these mark the whole source as failed instead of letting
+ *   the statistics fall back to zero
+ *
+ * @author Palestine Memorial Project
+ * @version 1.0.0
+ * @since 2024
+ */
+
+/**
+ * Primitive value types a schema field may declare
+ */
+export type FieldType = 'string' | 'number' | 'object'
+
+/**
+ * Validation rule for a single record field
+ *
+ * @interface FieldRule
+ * @property {FieldType | FieldType[]} type - Accepted value type(s)
+ * @property {boolean} [required] - Record is quarantined when the field is absent
+ * @property {boolean} [optional] - Field may be missing from an entire response without failing the source
+ * @property {string} [alternative] - Sibling field that satisfies the expectation when this one is absent from every record
+ * @property {readonly string[]} [oneOf] - Allowed values for string fields
+ * @property {RegExp} [pattern] - Pattern string values must match
+ * @property {RecordSchema} [fields] - Nested schema for object fields
+ */
+export interface FieldRule {
+  type: FieldType | FieldType[]
+  required?: boolean
+  optional?: boolean
+  alternative?: string
+  oneOf?: readonly string[]
+  pattern?: RegExp
+  fields?: RecordSchema
+}
+
+/**
+ * Declared shape of an upstream record, keyed by field name
+ */
+export type RecordSchema = Record<string, FieldRule>
+
+/**
+ * A record rejected by validation, kept for diagnostics
+ *
+ * @interface QuarantinedRecord
+ * @property {number} index - Position of the record in the upstream response
+ * @property {string[]} errors - Human-readable validation errors
+ * @property {unknown} record - The rejected record as received
+ */
+export interface QuarantinedRecord {
+  index: number
+  errors: string[]
+  record: unknown
+}
+
+/**
+ * Validation outcome for one upstream source
+ *
+ * @interface SourceValidationReport
+ * @property {string} source - Source identifier
+ * @property {'ok' | 'degraded' | 'failed'} status - ok: all valid; degraded: some rows quarantined; failed: schema mismatch
+ * @property {number} total - Records received
+ * @property {number} valid - Records accepted
+ * @property {number} quarantined - Records rejected
+ * @property {string[]} absentFields - Expected fields missing from every record
+ * @property {Record<string, number>} errorCounts - Rejections per field path
+ * @property {QuarantinedRecord[]} samples - First few quarantined records
+ */
+export interface SourceValidationReport {
+  source: string
+  status: 'ok' | 'degraded' | 'failed'
+  total: number
+  valid: number
+  quarantined: number
+  absentFields: string[]
+  errorCounts: Record<string, number>
+  samples: QuarantinedRecord[]
+}
+
+/**
+ * Validation outcome for the complete dataset
+ *
+ * @interface ValidationReport
+ * @property {SourceValidationReport[]} sources - Per-source reports
+ * @property {number} totalRecords - Records received across all sources
+ * @property {number} totalQuarantined - Records rejected across all sources
+ * @property {boolean} hasFailures - True when any source failed validation
+ * @property {boolean} hasEssentialFailures - True when a source the memorial cannot do without failed validation
+ */
+export interface ValidationReport {
+  sources: SourceValidationReport[]
+  totalRecords: number
+  totalQuarantined: number
+  hasFailures: boolean
+  hasEssentialFailures: boolean
+}
+
+/**
+ * Sources quarantining more than this share of their records are marked failed
+ */
+const FAILURE_QUARANTINE_RATIO = 0.5
+
+/**
+ * Maximum number of quarantined records kept per source report
+ */
+const MAX_SAMPLES = 5
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/
+
+/**
+ * Schema for raw records from the Killed in Gaza dataset
+ */
+export const RAW_CASUALTY_SCHEMA: RecordSchema = {
+  id: { type: 'string', required: true },
+  name: { type: 'string', required: true },
+  en_name: { type: 'string' },
+  age: { type: 'number' },
+  dob: { type: 'string', optional: true },
+  sex: { type: 'string', required: true, oneOf: ['m', 'f'] },
+  source: { type: 'string' }
+}
+
+/**
+ * Schema for raw records from the Press Killed in Gaza dataset
+ */
+export const RAW_PRESS_CASUALTY_SCHEMA: RecordSchema = {
+  name: { type: 'string', required: true },
+  name_en: { type: 'string' },
+  notes: { type: 'string', optional: true }
+}
+
+/**
+ * Schema for Gaza daily casualty reports
+ */
+export const DAILY_CASUALTIES_SCHEMA: RecordSchema = {
+  report_date: { type: 'string', required: true, pattern: ISO_DATE_PATTERN },
+  killed_cum: { type: 'number' },
+  killed_children_cum: { type: 'number', optional: true },
+  killed_women_cum: { type: 'number', optional: true },
+  injured_cum: { type: 'number' },
+  press_killed_cum: { type: 'number' },
+  med_killed_cum: { type: 'number' },
+  civdef_killed_cum: { type: 'number', optional: true },
+  ext_killed_cum: { type: 'number' },
+  ext_killed_children_cum: { type: 'number' },
+  ext_killed_women_cum: { type: 'number' },
+  ext_injured_cum: { type: 'number' },
+  ext_press_killed_cum: { type: 'number' },
+  ext_med_killed_cum: { type: 'number' },
+  ext_civdef_killed_cum: { type: 'number' }
+}
+
+/**
+ * Schema for West Bank daily casualty reports
+ */
+export const WEST_BANK_CASUALTIES_SCHEMA: RecordSchema = {
+  report_date: { type: 'string', required: true, pattern: ISO_DATE_PATTERN },
+  killed_cum: { type: 'number' },
+  injured_cum: { type: 'number' },
+  ext_killed_cum: { type: 'number', optional: true },
+  ext_injured_cum: { type: 'number', optional: true }
+}
+
+/**
+ * Schema for infrastructure damage reports
+ *
+ * The API publishes the extended (`ext_*`) figures while the bundled CSV
+ * carries the official ones, so either satisfies each expected figure.
+ */
+export const INFRASTRUCTURE_DAMAGE_SCHEMA: RecordSchema = {
+  report_date: { type: 'string', required: true, pattern: ISO_DATE_PATTERN },
+  educational_buildings: {
+    type: 'object',
+    fields: {
+      destroyed: { type: 'number', alternative: 'ext_destroyed' },
+      damaged: { type: 'number', alternative: 'ext_damaged' },
+      ext_destroyed: { type: 'number', optional: true },
+      ext_damaged: { type: 'number', optional: true }
+    }
+  },
+  places_of_worship: {
+    type: 'object',
+    fields: {
+      mosques_destroyed: { type: 'number', alternative: 'ext_mosques_destroyed' },
+      mosques_damaged: { type: 'number', optional: true },
+      churches_destroyed: { type: 'number', alternative: 'ext_churches_destroyed' },
+      ext_mosques_destroyed: { type: 'number', optional: true },
+      ext_mosques_damaged: { type: 'number', optional: true },
+      ext_churches_destroyed: { type: 'number', optional: true }
+    }
+  },
+  residential: {
+    type: 'object',
+    fields: {
+      destroyed: { type: 'number', alternative: 'ext_destroyed' },
+      ext_destroyed: { type: 'number', optional: true }
+    }
+  },
+  civic_buildings: {
+    type: 'object',
+    fields: {
+      destroyed: { type: 'number', alternative: 'ext_destroyed' },
+      ext_destroyed: { type: 'number', optional: true }
+    }
+  }
+}
+
+function isAbsent(value: unknown): boolean {
+  return value === undefined || value === null || value === ''
+}
+
+function typeOf(value: unknown): FieldType | null {
+  if (typeof value === 'string') return 'string'
+  if (typeof value === 'number' && Number.isFinite(value)) return 'number'
+  if (typeof value === 'object' && value !== null && !Array.isArray(value)) return 'object'
+  return null
+}
+
+/**
+ * Checks one record against a schema
+ *
+ * @param record - Record to check
+ * @param schema - Schema to check against
+ * @param seenFields - Collects every field path present in the record
+ * @param prefix - Path prefix for nested schemas
+ * @returns Validation errors as `[fieldPath, message]` pairs (empty when valid)
+ */
+function checkRecord(
+  record: Record<string, unknown>,
+  schema: RecordSchema,
+  seenFields: Set<string>,
+  prefix = ''
+): Array<[string, string]> {
+  const errors: Array<[string, string]> = []
+
+  for (const [field, rule] of Object.entries(schema)) {
+    const fieldPath = prefix + field
+    const value = record[field]
+
+    if (isAbsent(value)) {
+      if (rule.required) errors.push([fieldPath, `missing required field "${fieldPath}"`])
+      continue
+    }
+    seenFields.add(fieldPath)
+
+    const accepted = Array.isArray(rule.type) ? rule.type : [rule.type]
+    const actual = typeOf(value)
+    if (!actual || !accepted.includes(actual)) {
+      errors.push([fieldPath, `"${fieldPath}" should be ${accepted.join(' or ')}, got ${JSON.stringify(value)}`])
+      continue
+    }
+
+    if (actual === 'string') {
+      if (rule.oneOf && !rule.oneOf.includes(value as string)) {
+        errors.push([fieldPath, `"${fieldPath}" has unexpected value ${JSON.stringify(value)}`])
+      } else if (rule.pattern && !rule.pattern.test(value as string)) {
+        errors.push([fieldPath, `"${fieldPath}" is malformed: ${JSON.stringify(value)}`])
+      }
+    }
+
+    if (actual === 'object' && rule.fields) {
+      errors.push(...checkRecord(value as Record<string, unknown>, rule.fields, seenFields, `${fieldPath}.`))
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Lists the field paths a schema expects to see in at least one record
+ *
+ * Each entry holds the field path followed by its alternative, if any; the
+ * expectation is met when any of them is seen.
+ */
+function collectExpectedFields(schema: RecordSchema, prefix = ''): string[][] {
+  return Object.entries(schema)
+    .filter(([, rule]) => !rule.optional)
+    .flatMap(([field, rule]) => [
+      rule.alternative ? [prefix + field, prefix + rule.alternative] : [prefix + field],
+      ...(rule.fields ? collectExpectedFields(rule.fields, `${prefix}${field}.`) : [])
+    ])
+}
+
+/**
+ * Validates an upstream response against a declared record schema
+ *
+ * Valid records are returned unchanged; invalid ones are quarantined and
+ * counted. A source is marked `failed` when its response is not an array, when
+ * more than half of its records are quarantined, or when an expected field is
+ * missing from every record. Failures are logged as errors so they are never
+ * silent.
+ *
+ * @template T - Record type produced once validation passes
+ * @param {string} source - Source identifier used in the report
+ * @param {unknown} payload - Parsed upstream response
+ * @param {RecordSchema} schema - Schema each record must satisfy
+ * @returns Accepted records and the source report
+ *
+ * @example
+ * const { valid, report } = validateRecords<DailyCasualties>('casualties_daily', json, DAILY_CASUALTIES_SCHEMA)
+ * if (report.status === 'failed') console.error(report.absentFields)
+ */
+export function validateRecords<T>(
+  source: string,
+  payload: unknown,
+  schema: RecordSchema
+): { valid: T[]; report: SourceValidationReport } {
+  const report: SourceValidationReport = {
+    source,
+    status: 'ok',
+    total: 0,
+    valid: 0,
+    quarantined: 0,
+    absentFields: [],
+    errorCounts: {},
+    samples: []
+  }
+
+  if (!Array.isArray(payload)) {
+    report.status = 'failed'
+    report.errorCounts['(response)'] = 1
+    report.samples.push({ index: -1, errors: ['response is not an array of records'], record: typeof payload })
+    console.error(`❌ Validation failed for ${source}: response is not an array of records`)
+    return { valid: [], report }
+  }
+
+  const valid: T[] = []
+  const seenFields = new Set<string>()
+  report.total = payload.length
+
+  payload.forEach((record, index) => {
+    const errors = typeOf(record) === 'object'
+      ? checkRecord(record as Record<string, unknown>, schema, seenFields)
+      : [['(record)', 'record is not an object'] as [string, string]]
+
+    if (errors.length === 0) {
+      valid.push(record as T)
+      return
+    }
+
+    report.quarantined++
+    errors.forEach(([fieldPath]) => {
+      report.errorCounts[fieldPath] = (report.errorCounts[fieldPath] || 0) + 1
+    })
+    if (report.samples.length < MAX_SAMPLES) {
+      report.samples.push({ index, errors: errors.map(([, message]) => message), record })
+    }
+  })
+
+  report.valid = valid.length
+  if (report.total > 0) {
+    report.absentFields = collectExpectedFields(schema)
+      .filter(fieldPaths => !fieldPaths.some(fieldPath => seenFields.has(fieldPath)))
+      .map(fieldPaths => fieldPaths.join(' | '))
+  }
+
+  if (report.absentFields.length > 0 || report.quarantined > report.total * FAILURE_QUARANTINE_RATIO) {
+    report.status = 'failed'
+    console.error(
+      `❌ Validation failed for ${source}: ${report.quarantined}/${report.total} records quarantined` +
+      (report.absentFields.length > 0 ? `, fields absent from every record: ${report.absentFields.join(', ')}` : '')
+    )
+  } else if (report.quarantined > 0) {
+    report.status = 'degraded'
+    console.warn(`⚠️ Quarantined ${report.quarantined}/${report.total} malformed ${source} records`, report.errorCounts)
+  }
+
+  return { valid, report }
+}
+
+/**
+ * Combines per-source reports into the dataset-wide validation report
+ *
+ * @param {SourceValidationReport[]} sources - Per-source reports
+ * @param {SourceValidationReport[]} [essential] - Reports of the sources the memorial cannot do without
+ * @returns {ValidationReport} Aggregated report
+ */
+export function createValidationReport(
+  sources: SourceValidationReport[],
+  essential: SourceValidationReport[] = []
+): ValidationReport {
+  return {
+    sources,
+    totalRecords: sources.reduce((sum, source) => sum + source.total, 0),
+    totalQuarantined: sources.reduce((sum, source) => sum + source.quarantined, 0),
+    hasFailures: sources.some(source => source.status === 'failed'),
+    hasEssentialFailures: essential.some(source => source.status === 'failed')
+  }
+}